@@ -0,0 +1,24 @@
+import { useRouter } from 'next/router';
+import { Box, Button, Paper, Typography } from '@mui/material';
+import { Lock as LockIcon } from '@mui/icons-material';
+
+export default function AccessDenied() {
+  const router = useRouter();
+
+  return (
+    <Box display="flex" justifyContent="center" mt={8}>
+      <Paper sx={{ p: 4, maxWidth: 480, textAlign: 'center' }}>
+        <LockIcon color="disabled" sx={{ fontSize: 48, mb: 1 }} />
+        <Typography variant="h5" gutterBottom>
+          Access denied
+        </Typography>
+        <Typography color="textSecondary" paragraph>
+          Your role does not allow you to open this page. Ask an administrator if you need access.
+        </Typography>
+        <Button variant="contained" onClick={() => router.push('/dashboard')}>
+          Go to dashboard
+        </Button>
+      </Paper>
+    </Box>
+  );
+}
@@ -0,0 +1,44 @@
+import { useState } from 'react';
+import { Button, Menu, MenuItem } from '@mui/material';
+import { FileDownload as FileDownloadIcon } from '@mui/icons-material';
+import { ExportFormat } from '@/utils/spreadsheet';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel (XLSX)' },
+  { format: 'json', label: 'JSON' },
+];
+
+export default function ExportMenu({ onExport, disabled }: ExportMenuProps) {
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+
+  const handleExport = (format: ExportFormat) => {
+    setAnchorEl(null);
+    onExport(format);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        startIcon={<FileDownloadIcon />}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        disabled={disabled}
+      >
+        Export
+      </Button>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+        {FORMATS.map(({ format, label }) => (
+          <MenuItem key={format} onClick={() => handleExport(format)}>
+            {label}
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/router';
 import {
   AppBar,
@@ -15,16 +15,32 @@ import {
   Divider,
   Menu,
   MenuItem,
+  Chip,
 } from '@mui/material';
 import {
   Menu as MenuIcon,
   Dashboard as DashboardIcon,
   Devices as DevicesIcon,
+  Category as CategoryIcon,
   Business as BusinessIcon,
   People as PeopleIcon,
   Settings as SettingsIcon,
   AccountCircle as AccountCircleIcon,
+  FiberManualRecord as FiberManualRecordIcon,
+  History as HistoryIcon,
+  NotificationsActive as NotificationsActiveIcon,
+  Warning as WarningIcon,
+  Send as SendIcon,
+  Schedule as ScheduleIcon,
 } from '@mui/icons-material';
+import { useRealtimeStatus } from '@/hooks/useRealtime';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useSession } from '@/hooks/useSession';
+import { getRealtimeClient } from '@/utils/realtime';
+import { getRoutePermission } from '@/utils/permissions';
+import AccessDenied from '@/components/AccessDenied';
+import SessionTimeoutDialog from '@/components/SessionTimeoutDialog';
+import AlertBell from '@/components/alerts/AlertBell';
 
 const drawerWidth = 240;
 
@@ -36,6 +52,17 @@ export default function Layout({ children }: LayoutProps) {
   const router = useRouter();
   const [mobileOpen, setMobileOpen] = useState(false);
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const realtimeStatus = useRealtimeStatus();
+  const { permissions, can } = usePermissions();
+  const { idleSecondsLeft, staySignedIn, signOut } = useSession();
+  const isLive = realtimeStatus === 'open';
+
+  // Keep a single realtime connection open for as long as the user is in the panel
+  useEffect(() => {
+    const client = getRealtimeClient();
+    client.connect();
+    return () => client.disconnect();
+  }, []);
 
   const handleDrawerToggle = () => {
     setMobileOpen(!mobileOpen);
@@ -50,18 +77,31 @@ export default function Layout({ children }: LayoutProps) {
   };
 
   const handleLogout = () => {
-    localStorage.removeItem('accessToken');
-    localStorage.removeItem('refreshToken');
-    router.push('/login');
+    setAnchorEl(null);
+    signOut();
   };
 
   const menuItems = [
     { text: 'Dashboard', icon: <DashboardIcon />, path: '/dashboard' },
     { text: 'Devices', icon: <DevicesIcon />, path: '/devices' },
+    { text: 'Device Types', icon: <CategoryIcon />, path: '/device-types' },
     { text: 'Companies', icon: <BusinessIcon />, path: '/companies' },
     { text: 'Users', icon: <PeopleIcon />, path: '/users' },
     { text: 'Roles', icon: <SettingsIcon />, path: '/roles' },
-  ];
+    { text: 'Alerts', icon: <WarningIcon />, path: '/alerts' },
+    { text: 'Alert Rules', icon: <NotificationsActiveIcon />, path: '/alerts/rules' },
+    { text: 'Notification Channels', icon: <SendIcon />, path: '/notifications/channels' },
+    { text: 'Escalation Policies', icon: <ScheduleIcon />, path: '/notifications/escalation' },
+    { text: 'Audit Log', icon: <HistoryIcon />, path: '/audit-log' },
+  ].filter((item) => {
+    const required = getRoutePermission(item.path);
+    return !required || can(required.resource, required.action);
+  });
+
+  // middleware.ts only sees full page loads; client-side navigation is checked here
+  const requiredPermission = getRoutePermission(router.pathname);
+  const accessDenied =
+    !!permissions && !!requiredPermission && !can(requiredPermission.resource, requiredPermission.action);
 
   const drawer = (
     <div>
@@ -110,6 +150,14 @@ export default function Layout({ children }: LayoutProps) {
           <Typography variant="h6" noWrap component="div" sx={{ flexGrow: 1 }}>
             Admin Panel
           </Typography>
+          <Chip
+            icon={<FiberManualRecordIcon fontSize="small" />}
+            label={isLive ? 'Live' : 'Reconnecting'}
+            color={isLive ? 'success' : 'warning'}
+            size="small"
+            sx={{ mr: 1, color: 'common.white', '& .MuiChip-icon': { color: 'inherit' } }}
+          />
+          {can('alerts', 'view') && <AlertBell />}
           <div>
             <IconButton
               size="large"
@@ -136,6 +184,14 @@ export default function Layout({ children }: LayoutProps) {
               open={Boolean(anchorEl)}
               onClose={handleClose}
             >
+              <MenuItem
+                onClick={() => {
+                  handleClose();
+                  router.push('/profile');
+                }}
+              >
+                Profile
+              </MenuItem>
               <MenuItem onClick={handleLogout}>Logout</MenuItem>
             </Menu>
           </div>
@@ -185,8 +241,9 @@ export default function Layout({ children }: LayoutProps) {
         }}
       >
         <Toolbar />
-        {children}
+        {accessDenied ? <AccessDenied /> : children}
       </Box>
+      <SessionTimeoutDialog secondsLeft={idleSecondsLeft} onStay={staySignedIn} onSignOut={signOut} />
     </Box>
   );
 } 
\ No newline at end of file
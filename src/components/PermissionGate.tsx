@@ -0,0 +1,36 @@
+import { cloneElement, isValidElement, ReactElement, ReactNode } from 'react';
+import { Tooltip } from '@mui/material';
+import { usePermissions } from '@/hooks/usePermissions';
+import { PermissionAction, PermissionResource } from '@/utils/permissions';
+
+interface PermissionGateProps {
+  resource: PermissionResource;
+  action: PermissionAction;
+  /** Renders the child disabled instead of hiding it */
+  disable?: boolean;
+  fallback?: ReactNode;
+  children: ReactNode;
+}
+
+/**
+ * Renders its children only when the current user has `resource.action`.
+ * With `disable`, the single child element stays visible but gets `disabled`.
+ */
+export default function PermissionGate({ resource, action, disable, fallback = null, children }: PermissionGateProps) {
+  const { can } = usePermissions();
+
+  if (can(resource, action)) {
+    return <>{children}</>;
+  }
+
+  if (disable && isValidElement(children)) {
+    return (
+      <Tooltip title="You do not have permission to do this">
+        {/* Disabled buttons swallow pointer events, so the span carries the tooltip */}
+        <span>{cloneElement(children as ReactElement<{ disabled?: boolean }>, { disabled: true })}</span>
+      </Tooltip>
+    );
+  }
+
+  return <>{fallback}</>;
+}
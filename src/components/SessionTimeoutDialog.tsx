@@ -0,0 +1,27 @@
+import { Button, Dialog, DialogActions, DialogContent, DialogContentText, DialogTitle } from '@mui/material';
+
+interface SessionTimeoutDialogProps {
+  secondsLeft: number | null;
+  onStay: () => void;
+  onSignOut: () => void;
+}
+
+export default function SessionTimeoutDialog({ secondsLeft, onStay, onSignOut }: SessionTimeoutDialogProps) {
+  return (
+    <Dialog open={secondsLeft !== null} onClose={onStay} maxWidth="xs" fullWidth>
+      <DialogTitle>Are you still there?</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          You have been inactive for a while. You will be signed out in {secondsLeft} second
+          {secondsLeft === 1 ? '' : 's'}.
+        </DialogContentText>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onSignOut}>Sign out</Button>
+        <Button variant="contained" onClick={onStay} autoFocus>
+          Stay signed in
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import {
+  Badge,
+  Box,
+  Button,
+  Divider,
+  IconButton,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Typography,
+} from '@mui/material';
+import { Notifications as NotificationsIcon } from '@mui/icons-material';
+import api from '@/utils/api';
+import { usePollingFallback, useRealtimeResync, useRealtimeSubscription } from '@/hooks/useRealtime';
+import { AlertEvent, TOPICS } from '@/utils/realtime';
+import { AlertItem, formatAlertDuration, normalizeAlert } from '@/utils/alerts';
+import SeverityChip from '@/components/alerts/SeverityChip';
+
+const MAX_LATEST_ALERTS = 10;
+
+/** AppBar bell with the unread alert count and a dropdown of the latest unresolved alerts */
+export default function AlertBell() {
+  const router = useRouter();
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const [latest, setLatest] = useState<AlertItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const fetchLatest = async () => {
+    try {
+      const [alertsResponse, countResponse] = await Promise.all([
+        api.get('/alerts', { params: { status: 'open,acknowledged', limit: MAX_LATEST_ALERTS } }),
+        api.get('/alerts/unread-count'),
+      ]);
+      const data = Array.isArray(alertsResponse.data) ? alertsResponse.data : alertsResponse.data.data;
+      setLatest((data || []).map(normalizeAlert).slice(0, MAX_LATEST_ALERTS));
+      const count = countResponse.data.data || countResponse.data;
+      setUnreadCount(Number(count.count ?? count) || 0);
+    } catch (error) {
+      console.error('Failed to fetch latest alerts:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchLatest();
+  }, []);
+
+  usePollingFallback(fetchLatest, 60000);
+  // The count is kept up to date from deltas, so alerts raised while the socket was down would be missing
+  useRealtimeResync(fetchLatest);
+
+  useRealtimeSubscription<AlertEvent>(TOPICS.alerts, ({ event, data }) => {
+    const alert = normalizeAlert(data);
+    if (event === 'raised') {
+      setUnreadCount((count) => count + 1);
+    }
+    setLatest((prev) => {
+      const rest = prev.filter((item) => item.id !== alert.id);
+      if (alert.status === 'resolved' || alert.status === 'snoozed') return rest;
+      return [alert, ...rest].slice(0, MAX_LATEST_ALERTS);
+    });
+  });
+
+  const handleOpen = async (event: React.MouseEvent<HTMLElement>) => {
+    setAnchorEl(event.currentTarget);
+    if (unreadCount === 0) return;
+    // Seeing the dropdown counts as reading every alert raised so far, not only the ones listed
+    try {
+      await api.post('/alerts/read', { upTo: new Date().toISOString() });
+      setUnreadCount(0);
+      setLatest((prev) => prev.map((alert) => ({ ...alert, read: true })));
+    } catch (error) {
+      console.error('Failed to mark alerts as read:', error);
+    }
+  };
+
+  const handleClose = () => {
+    setAnchorEl(null);
+  };
+
+  const openAlert = (alertId?: string) => {
+    setAnchorEl(null);
+    router.push(alertId ? { pathname: '/alerts', query: { alert: alertId } } : '/alerts');
+  };
+
+  const now = Date.now();
+
+  return (
+    <>
+      <IconButton color="inherit" aria-label="alerts" onClick={handleOpen}>
+        <Badge badgeContent={unreadCount} color="error" max={99}>
+          <NotificationsIcon />
+        </Badge>
+      </IconButton>
+      <Menu
+        anchorEl={anchorEl}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+        open={Boolean(anchorEl)}
+        onClose={handleClose}
+        PaperProps={{ sx: { width: 380, maxHeight: 480 } }}
+      >
+        <Box px={2} py={1}>
+          <Typography variant="subtitle1">Latest alerts</Typography>
+        </Box>
+        <Divider />
+        {latest.length === 0 ? (
+          <MenuItem disabled>No open alerts</MenuItem>
+        ) : (
+          latest.map((alert) => (
+            <MenuItem
+              key={alert.id}
+              onClick={() => openAlert(alert.id)}
+              sx={{ gap: 1, alignItems: 'flex-start', whiteSpace: 'normal' }}
+            >
+              <SeverityChip severity={alert.severity} />
+              <ListItemText
+                primary={alert.message || alert.ruleName}
+                secondary={`${alert.deviceName || alert.deviceId} · ${formatAlertDuration(alert, now)} ago`}
+                primaryTypographyProps={{ fontWeight: alert.read ? 'normal' : 'bold', variant: 'body2' }}
+              />
+            </MenuItem>
+          ))
+        )}
+        <Divider />
+        <Box display="flex" justifyContent="center" py={0.5}>
+          <Button size="small" onClick={() => openAlert()}>
+            View all alerts
+          </Button>
+        </Box>
+      </Menu>
+    </>
+  );
+}
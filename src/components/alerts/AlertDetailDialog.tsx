@@ -0,0 +1,256 @@
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  List,
+  ListItem,
+  ListItemText,
+  Menu,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import api, { handleApiError } from '@/utils/api';
+import { usePermissions } from '@/hooks/usePermissions';
+import SeverityChip from '@/components/alerts/SeverityChip';
+import {
+  ALERT_HISTORY_ACTIONS,
+  ALERT_STATUS_COLORS,
+  ALERT_STATUSES,
+  AlertHistoryEntry,
+  AlertItem,
+  formatAlertDuration,
+  normalizeAlertHistory,
+  SNOOZE_OPTIONS,
+} from '@/utils/alerts';
+
+export interface AlertAssignee {
+  id: string;
+  name: string;
+}
+
+interface AlertDetailDialogProps {
+  alert: AlertItem | null;
+  users: AlertAssignee[];
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export default function AlertDetailDialog({ alert, users, onClose, onChanged }: AlertDetailDialogProps) {
+  const { can } = usePermissions();
+  const [history, setHistory] = useState<AlertHistoryEntry[]>([]);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [snoozeAnchor, setSnoozeAnchor] = useState<null | HTMLElement>(null);
+
+  const fetchHistory = async (alertId: string) => {
+    try {
+      setLoadingHistory(true);
+      const response = await api.get(`/alerts/${alertId}/history`);
+      const data = Array.isArray(response.data) ? response.data : response.data.data;
+      setHistory((data || []).map(normalizeAlertHistory));
+    } catch (error) {
+      setError(handleApiError(error));
+    } finally {
+      setLoadingHistory(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!alert) return;
+    setError(null);
+    setNote('');
+    setHistory([]);
+    fetchHistory(alert.id);
+  }, [alert?.id]);
+
+  const runAction = async (path: string, body?: Record<string, unknown>) => {
+    if (!alert) return;
+    try {
+      setBusy(true);
+      setError(null);
+      await api.post(`/alerts/${alert.id}/${path}`, body);
+      onChanged();
+      fetchHistory(alert.id);
+      return true;
+    } catch (error) {
+      setError(handleApiError(error));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSnooze = (minutes: number) => {
+    setSnoozeAnchor(null);
+    runAction('snooze', { until: new Date(Date.now() + minutes * 60000).toISOString() });
+  };
+
+  const handleAddNote = async () => {
+    if (await runAction('notes', { note: note.trim() })) {
+      setNote('');
+    }
+  };
+
+  const handleResolve = () => {
+    // A pending note is kept with the resolution instead of being dropped
+    runAction('resolve', note.trim() ? { note: note.trim() } : undefined).then((ok) => ok && setNote(''));
+  };
+
+  if (!alert) return null;
+
+  const isResolved = alert.status === 'resolved';
+  const canTriage = can('alerts', 'acknowledge') && !isResolved;
+
+  return (
+    <Dialog open={!!alert} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Box display="flex" alignItems="center" gap={1}>
+          <SeverityChip severity={alert.severity} />
+          <Box flexGrow={1}>{alert.message || alert.ruleName}</Box>
+          <Chip label={ALERT_STATUSES[alert.status]} color={ALERT_STATUS_COLORS[alert.status]} size="small" />
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box display="grid" gridTemplateColumns="160px 1fr" rowGap={1} mb={2}>
+          <Typography color="textSecondary">Rule</Typography>
+          <Typography>{alert.ruleName || '-'}</Typography>
+          <Typography color="textSecondary">Device</Typography>
+          <Typography>{alert.deviceName || alert.deviceId || '-'}</Typography>
+          <Typography color="textSecondary">Company</Typography>
+          <Typography>{alert.companyName || alert.companyId || '-'}</Typography>
+          <Typography color="textSecondary">Raised</Typography>
+          <Typography>
+            {new Date(alert.raisedAt).toLocaleString()} ({formatAlertDuration(alert, Date.now())}
+            {isResolved ? '' : ' ago'})
+          </Typography>
+          {alert.status === 'snoozed' && alert.snoozedUntil && (
+            <>
+              <Typography color="textSecondary">Snoozed until</Typography>
+              <Typography>{new Date(alert.snoozedUntil).toLocaleString()}</Typography>
+            </>
+          )}
+          {alert.resolvedAt && (
+            <>
+              <Typography color="textSecondary">Resolved</Typography>
+              <Typography>{new Date(alert.resolvedAt).toLocaleString()}</Typography>
+            </>
+          )}
+        </Box>
+
+        <TextField
+          select
+          label="Assignee"
+          value={alert.assigneeId || ''}
+          onChange={(e) => runAction('assign', { userId: e.target.value || null })}
+          disabled={busy || isResolved || !can('alerts', 'edit')}
+          fullWidth
+          margin="normal"
+        >
+          <MenuItem value="">
+            <em>Unassigned</em>
+          </MenuItem>
+          {users.map((user) => (
+            <MenuItem key={user.id} value={user.id}>
+              {user.name}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        <Box display="flex" gap={1} alignItems="flex-start">
+          <TextField
+            label="Note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            multiline
+            minRows={2}
+            fullWidth
+            margin="normal"
+            disabled={!can('alerts', 'acknowledge')}
+          />
+          <Button
+            variant="outlined"
+            onClick={handleAddNote}
+            disabled={busy || !note.trim() || !can('alerts', 'acknowledge')}
+            sx={{ mt: 3 }}
+          >
+            Add
+          </Button>
+        </Box>
+
+        <Divider sx={{ my: 2 }} />
+        <Typography variant="subtitle1">History</Typography>
+        {loadingHistory && history.length === 0 ? (
+          <Box display="flex" justifyContent="center" p={2}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : history.length === 0 ? (
+          <Typography color="textSecondary">No history yet.</Typography>
+        ) : (
+          <List dense>
+            {history.map((entry) => (
+              <ListItem key={entry.id} disableGutters>
+                <ListItemText
+                  primary={`${ALERT_HISTORY_ACTIONS[entry.action] || entry.action}${
+                    entry.actorName ? ` by ${entry.actorName}` : ''
+                  }`}
+                  secondary={
+                    <>
+                      {new Date(entry.createdAt).toLocaleString()}
+                      {entry.note && (
+                        <Typography component="span" display="block" color="textPrimary" whiteSpace="pre-wrap">
+                          {entry.note}
+                        </Typography>
+                      )}
+                    </>
+                  }
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        {canTriage && alert.status === 'open' && (
+          <Button onClick={() => runAction('acknowledge')} disabled={busy}>
+            Acknowledge
+          </Button>
+        )}
+        {canTriage && (
+          <>
+            <Button onClick={(e) => setSnoozeAnchor(e.currentTarget)} disabled={busy}>
+              Snooze
+            </Button>
+            <Menu anchorEl={snoozeAnchor} open={Boolean(snoozeAnchor)} onClose={() => setSnoozeAnchor(null)}>
+              {SNOOZE_OPTIONS.map((option) => (
+                <MenuItem key={option.minutes} onClick={() => handleSnooze(option.minutes)}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </Menu>
+            <Button variant="contained" onClick={handleResolve} disabled={busy}>
+              Resolve
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
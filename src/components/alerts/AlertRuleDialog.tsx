@@ -0,0 +1,371 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControlLabel,
+  MenuItem,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import api, { handleApiError } from '@/utils/api';
+import { alertRuleSchema, AlertRuleFormData } from '@/schemas/alertRule';
+import {
+  ALERT_RULE_TYPES,
+  ALERT_SCOPE_TYPES,
+  ALERT_SEVERITIES,
+  AlertRule,
+  AlertScopeType,
+} from '@/utils/alertRules';
+import { getNumericFields, JsonSchema } from '@/utils/payloadSchema';
+import { getDescendantIds } from '@/utils/companyTree';
+import { renderCompanyOptions } from '@/components/companies/companyOptions';
+import AlertRulePreview, { RuleDevice } from '@/components/alerts/AlertRulePreview';
+
+export interface AlertRuleDevice extends RuleDevice {
+  deviceTypeId: string;
+  companyId: string;
+}
+
+export interface AlertRuleDeviceType {
+  id: string;
+  name: string;
+  payloadSchema: JsonSchema;
+}
+
+interface AlertRuleCompany {
+  id: string;
+  name: string;
+  parentId?: string | null;
+}
+
+interface AlertRuleDialogProps {
+  open: boolean;
+  rule: AlertRule | null;
+  devices: AlertRuleDevice[];
+  deviceTypes: AlertRuleDeviceType[];
+  companies: AlertRuleCompany[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const DEFAULT_VALUES: AlertRuleFormData = {
+  name: '',
+  enabled: true,
+  severity: 'warning',
+  scopeType: 'device_type',
+  scopeId: '',
+  type: 'threshold',
+  field: '',
+  operator: '>',
+  threshold: 0,
+  direction: 'either',
+  windowMinutes: 15,
+  durationMinutes: 10,
+  hysteresis: 0,
+  missedIntervals: 3,
+};
+
+/** Devices a rule applies to; company rules include the company's sub-companies */
+export const getScopeDevices = (
+  scopeType: AlertScopeType,
+  scopeId: string,
+  devices: AlertRuleDevice[],
+  companies: AlertRuleCompany[]
+) => {
+  if (!scopeId) return [];
+  if (scopeType === 'device') return devices.filter((device) => device.id === scopeId);
+  if (scopeType === 'device_type') return devices.filter((device) => device.deviceTypeId === scopeId);
+  const companyIds = [scopeId, ...getDescendantIds(companies, scopeId)];
+  return devices.filter((device) => companyIds.includes(device.companyId));
+};
+
+export default function AlertRuleDialog({
+  open,
+  rule,
+  devices,
+  deviceTypes,
+  companies,
+  onClose,
+  onSaved,
+}: AlertRuleDialogProps) {
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<AlertRuleFormData>({
+    resolver: zodResolver(alertRuleSchema),
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    if (rule) {
+      const { id, ...values } = rule;
+      reset(values);
+    } else {
+      reset(DEFAULT_VALUES);
+    }
+  }, [open, rule, reset]);
+
+  const values = watch();
+  const scopeDevices = getScopeDevices(values.scopeType, values.scopeId, devices, companies);
+
+  // Numeric fields of every device type the rule touches
+  const fields = useMemo(() => {
+    const typeIds = Array.from(new Set(scopeDevices.map((device) => device.deviceTypeId)));
+    if (values.scopeType === 'device_type' && values.scopeId) typeIds.push(values.scopeId);
+    const byPath = new Map<string, { path: string; label: string; unit?: string }>();
+    deviceTypes
+      .filter((deviceType) => typeIds.includes(deviceType.id))
+      .forEach((deviceType) => {
+        getNumericFields(deviceType.payloadSchema).forEach((field) => byPath.set(field.path, field));
+      });
+    return Array.from(byPath.values());
+  }, [scopeDevices, values.scopeType, values.scopeId, deviceTypes]);
+
+  const onSubmit = async (data: AlertRuleFormData) => {
+    // Fields a rule type doesn't use are still sent, so switching the type back keeps them
+    try {
+      setError(null);
+      if (rule) {
+        await api.put(`/alert-rules/${rule.id}`, data);
+      } else {
+        await api.post('/alert-rules', data);
+      }
+      onSaved();
+      onClose();
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  const renderScopeOptions = () => {
+    if (values.scopeType === 'company') return renderCompanyOptions(companies);
+    const options = values.scopeType === 'device' ? devices : deviceTypes;
+    return options.map((option) => (
+      <MenuItem key={option.id} value={option.id}>
+        {option.name}
+      </MenuItem>
+    ));
+  };
+
+  const numberField = (
+    name: 'threshold' | 'windowMinutes' | 'durationMinutes' | 'hysteresis' | 'missedIntervals',
+    label: string,
+    helperText?: string
+  ) => (
+    <TextField
+      {...register(name, { valueAsNumber: true })}
+      label={label}
+      type="number"
+      fullWidth
+      margin="normal"
+      inputProps={{ step: 'any' }}
+      error={!!errors[name]}
+      helperText={errors[name]?.message || helperText}
+    />
+  );
+
+  const usesField = values.type === 'threshold' || values.type === 'rate_of_change';
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <DialogTitle>{rule ? 'Edit Alert Rule' : 'Add Alert Rule'}</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Box display="flex" gap={2} alignItems="center">
+            <TextField
+              {...register('name')}
+              label="Name"
+              fullWidth
+              margin="normal"
+              error={!!errors.name}
+              helperText={errors.name?.message}
+            />
+            <Controller
+              name="enabled"
+              control={control}
+              render={({ field }) => (
+                <FormControlLabel
+                  control={<Switch checked={field.value} onChange={(e) => field.onChange(e.target.checked)} />}
+                  label="Enabled"
+                />
+              )}
+            />
+          </Box>
+
+          <Box display="flex" gap={2}>
+            <Controller
+              name="severity"
+              control={control}
+              render={({ field }) => (
+                <TextField {...field} select label="Severity" fullWidth margin="normal">
+                  {ALERT_SEVERITIES.map((severity) => (
+                    <MenuItem key={severity} value={severity} sx={{ textTransform: 'capitalize' }}>
+                      {severity}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+            />
+            <Controller
+              name="scopeType"
+              control={control}
+              render={({ field }) => (
+                <TextField {...field} select label="Applies to" fullWidth margin="normal">
+                  {(Object.keys(ALERT_SCOPE_TYPES) as AlertScopeType[]).map((scopeType) => (
+                    <MenuItem key={scopeType} value={scopeType}>
+                      {ALERT_SCOPE_TYPES[scopeType]}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+            />
+            <Controller
+              name="scopeId"
+              control={control}
+              render={({ field }) => (
+                <TextField
+                  {...field}
+                  select
+                  label={ALERT_SCOPE_TYPES[values.scopeType]}
+                  fullWidth
+                  margin="normal"
+                  error={!!errors.scopeId}
+                  helperText={errors.scopeId?.message}
+                >
+                  {renderScopeOptions()}
+                </TextField>
+              )}
+            />
+          </Box>
+
+          <Divider sx={{ my: 2 }} />
+
+          <Box display="flex" gap={2}>
+            <Controller
+              name="type"
+              control={control}
+              render={({ field }) => (
+                <TextField {...field} select label="Condition" fullWidth margin="normal">
+                  {Object.entries(ALERT_RULE_TYPES).map(([type, label]) => (
+                    <MenuItem key={type} value={type}>
+                      {label}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+            />
+            {usesField && (
+              <Controller
+                name="field"
+                control={control}
+                render={({ field }) => (
+                  <TextField
+                    {...field}
+                    select
+                    label="Payload field"
+                    fullWidth
+                    margin="normal"
+                    error={!!errors.field}
+                    helperText={errors.field?.message || (fields.length === 0 ? 'No numeric fields in scope' : undefined)}
+                  >
+                    {fields.map((payloadField) => (
+                      <MenuItem key={payloadField.path} value={payloadField.path}>
+                        {payloadField.unit ? `${payloadField.label} (${payloadField.unit})` : payloadField.label}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                )}
+              />
+            )}
+          </Box>
+
+          {values.type === 'threshold' && (
+            <Box display="flex" gap={2}>
+              <Controller
+                name="operator"
+                control={control}
+                render={({ field }) => (
+                  <TextField {...field} select label="Operator" margin="normal" sx={{ minWidth: 120 }}>
+                    {['>', '>=', '<', '<='].map((operator) => (
+                      <MenuItem key={operator} value={operator}>
+                        {operator}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                )}
+              />
+              {numberField('threshold', 'Threshold')}
+              {numberField('durationMinutes', 'For (minutes)', '0 raises on the first reading')}
+              {numberField('hysteresis', 'Hysteresis', 'Clears once back past the threshold by this much')}
+            </Box>
+          )}
+
+          {values.type === 'rate_of_change' && (
+            <Box display="flex" gap={2}>
+              <Controller
+                name="direction"
+                control={control}
+                render={({ field }) => (
+                  <TextField {...field} select label="Direction" margin="normal" sx={{ minWidth: 140 }}>
+                    <MenuItem value="rise">Rising</MenuItem>
+                    <MenuItem value="fall">Falling</MenuItem>
+                    <MenuItem value="either">Either</MenuItem>
+                  </TextField>
+                )}
+              />
+              {numberField('threshold', 'Change per minute')}
+              {numberField('windowMinutes', 'Over (minutes)')}
+              {numberField('durationMinutes', 'For (minutes)')}
+              {numberField('hysteresis', 'Hysteresis', 'In change per minute')}
+            </Box>
+          )}
+
+          {values.type === 'missing_data' &&
+            numberField(
+              'missedIntervals',
+              'Missed push intervals',
+              "Each device's own push interval is used, e.g. 3 × 300 s = 15 min"
+            )}
+
+          {values.type === 'status_offline' &&
+            numberField('durationMinutes', 'Offline for (minutes)', '0 raises as soon as the device goes offline')}
+
+          <Divider sx={{ my: 2 }} />
+          <Typography variant="subtitle1" gutterBottom>
+            Preview
+          </Typography>
+          <AlertRulePreview rule={{ ...values, id: rule?.id || '' }} devices={scopeDevices} />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={isSubmitting}>
+            {rule ? 'Update' : 'Create'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
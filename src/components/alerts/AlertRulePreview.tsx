@@ -0,0 +1,211 @@
+import { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Line } from 'react-chartjs-2';
+import { SERIES_COLORS } from '@/utils/chart';
+import api, { handleApiError } from '@/utils/api';
+import { getValueAtPath } from '@/utils/payloadSchema';
+import { AlertRule, evaluateRule, PreviewAlert, PreviewSeries } from '@/utils/alertRules';
+
+export interface RuleDevice {
+  id: string;
+  name: string;
+  /** Seconds */
+  pushInterval: number;
+}
+
+interface AlertRulePreviewProps {
+  rule: AlertRule;
+  devices: RuleDevice[];
+}
+
+const PREVIEW_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Replaying a company-wide rule over every device would fetch far too much for a preview
+const MAX_PREVIEW_DEVICES = 10;
+
+const formatTime = (time: number) => new Date(time).toLocaleString();
+
+/** Evaluates the unsaved rule against the last 24 h of data of the devices it applies to */
+export default function AlertRulePreview({ rule, devices }: AlertRulePreviewProps) {
+  const [series, setSeries] = useState<PreviewSeries[] | null>(null);
+  const [previewWindow, setPreviewWindow] = useState<{ from: number; to: number } | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const previewDevices = devices.slice(0, MAX_PREVIEW_DEVICES);
+
+  const runPreview = async () => {
+    const to = Date.now();
+    const from = to - PREVIEW_WINDOW_MS;
+    const params = { from: new Date(from).toISOString(), to: new Date(to).toISOString() };
+
+    try {
+      setRunning(true);
+      setError(null);
+      const loaded: PreviewSeries[] = [];
+      for (const device of previewDevices) {
+        // Status history is loaded for every rule type so switching to status_offline needs no new preview
+        const [readingsResponse, statusResponse] = await Promise.all([
+          api.get(`/devices/${device.id}/readings`, { params }),
+          api.get(`/devices/${device.id}/status-history`, { params }),
+        ]);
+        const readings = Array.isArray(readingsResponse.data) ? readingsResponse.data : readingsResponse.data.data;
+        const statusChanges = Array.isArray(statusResponse.data) ? statusResponse.data : statusResponse.data.data;
+
+        loaded.push({
+          deviceId: device.id,
+          deviceName: device.name,
+          pushInterval: device.pushInterval,
+          readings: readings || [],
+          statusChanges: statusChanges || [],
+        });
+      }
+      setSeries(loaded);
+      setPreviewWindow({ from, to });
+    } catch (error) {
+      setError(handleApiError(error));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  // Re-evaluated on every edit, so thresholds can be tuned without fetching again
+  const alerts: PreviewAlert[] = useMemo(
+    () => (series && previewWindow ? evaluateRule(rule, series, previewWindow.from, previewWindow.to) : []),
+    [rule, series, previewWindow]
+  );
+
+  const chartSeries =
+    series && (rule.type === 'threshold' || rule.type === 'rate_of_change')
+      ? series.find((entry) => entry.deviceId === alerts[0]?.deviceId) || series[0]
+      : null;
+
+  const chartData = useMemo(() => {
+    if (!chartSeries || !previewWindow) return null;
+    const points = chartSeries.readings
+      .map((reading) => ({
+        x: new Date(reading.timestamp).getTime(),
+        y: getValueAtPath(reading.payload, rule.field) as number,
+      }))
+      .filter((point) => typeof point.y === 'number')
+      .sort((a, b) => a.x - b.x);
+    const datasets = [
+      {
+        label: `${rule.field} - ${chartSeries.deviceName}`,
+        data: points,
+        borderColor: SERIES_COLORS[0],
+        backgroundColor: SERIES_COLORS[0],
+        pointRadius: 1,
+        borderWidth: 2,
+      },
+    ];
+    if (rule.type === 'threshold') {
+      datasets.push({
+        label: 'Threshold',
+        data: [
+          { x: previewWindow.from, y: rule.threshold },
+          { x: previewWindow.to, y: rule.threshold },
+        ],
+        borderColor: SERIES_COLORS[1],
+        backgroundColor: SERIES_COLORS[1],
+        pointRadius: 0,
+        borderWidth: 1,
+      });
+    }
+    return { datasets };
+  }, [chartSeries, previewWindow, rule.field, rule.type, rule.threshold]);
+
+  const affectedDevices = new Set(alerts.map((alert) => alert.deviceId)).size;
+
+  return (
+    <Box>
+      <Box display="flex" alignItems="center" gap={2} mb={1}>
+        <Button variant="outlined" onClick={runPreview} disabled={running || previewDevices.length === 0}>
+          {running ? <CircularProgress size={24} /> : series ? 'Reload data' : 'Preview last 24 h'}
+        </Button>
+        <Typography variant="body2" color="textSecondary">
+          {devices.length === 0
+            ? 'The rule does not match any device yet.'
+            : devices.length > MAX_PREVIEW_DEVICES
+              ? `Uses the first ${MAX_PREVIEW_DEVICES} of ${devices.length} matching devices.`
+              : `${devices.length} matching device(s).`}
+        </Typography>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {series && (
+        <>
+          <Alert severity={alerts.length > 0 ? 'warning' : 'success'} sx={{ mb: 2 }}>
+            {alerts.length > 0
+              ? `Would have raised ${alerts.length} alert(s) on ${affectedDevices} device(s) in the last 24 hours.`
+              : 'Would not have raised any alert in the last 24 hours.'}
+          </Alert>
+
+          {chartData && chartData.datasets[0].data.length > 0 && (
+            <Box sx={{ height: 240, mb: 2 }}>
+              <Line
+                data={chartData}
+                options={{
+                  responsive: true,
+                  maintainAspectRatio: false,
+                  animation: false,
+                  scales: {
+                    x: {
+                      type: 'linear',
+                      ticks: {
+                        callback: (value) => new Date(Number(value)).toLocaleTimeString(),
+                        maxTicksLimit: 8,
+                      },
+                    },
+                  },
+                }}
+              />
+            </Box>
+          )}
+
+          {alerts.length > 0 && (
+            <TableContainer sx={{ maxHeight: 240 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Device</TableCell>
+                    <TableCell>Raised</TableCell>
+                    <TableCell>Cleared</TableCell>
+                    <TableCell>Value</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {alerts.map((alert) => (
+                    <TableRow key={`${alert.deviceId}-${alert.raisedAt}`}>
+                      <TableCell>{alert.deviceName}</TableCell>
+                      <TableCell>{formatTime(alert.raisedAt)}</TableCell>
+                      <TableCell>{alert.clearedAt ? formatTime(alert.clearedAt) : 'Still active'}</TableCell>
+                      <TableCell>{alert.value === null ? '-' : alert.value.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,16 @@
+import { Chip } from '@mui/material';
+import { AlertSeverity } from '@/utils/alertRules';
+
+export const SEVERITY_COLORS: Record<AlertSeverity, 'info' | 'warning' | 'error'> = {
+  info: 'info',
+  warning: 'warning',
+  critical: 'error',
+};
+
+interface SeverityChipProps {
+  severity: AlertSeverity;
+}
+
+export default function SeverityChip({ severity }: SeverityChipProps) {
+  return <Chip label={severity} color={SEVERITY_COLORS[severity] || 'default'} size="small" />;
+}
@@ -0,0 +1,34 @@
+import { ReactNode } from 'react';
+import { Box, Paper, Typography } from '@mui/material';
+
+interface AuthCardProps {
+  title: string;
+  children: ReactNode;
+}
+
+/** Centered card shared by the pages a signed-out user can reach */
+export default function AuthCard({ title, children }: AuthCardProps) {
+  return (
+    <Box
+      display="flex"
+      justifyContent="center"
+      alignItems="center"
+      minHeight="100vh"
+      bgcolor="background.default"
+    >
+      <Paper
+        elevation={3}
+        sx={{
+          p: 4,
+          width: '100%',
+          maxWidth: 400,
+        }}
+      >
+        <Typography variant="h4" align="center" gutterBottom>
+          {title}
+        </Typography>
+        {children}
+      </Paper>
+    </Box>
+  );
+}
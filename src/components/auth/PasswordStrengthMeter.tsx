@@ -0,0 +1,48 @@
+import { Box, LinearProgress, Typography } from '@mui/material';
+import { CheckCircle as CheckIcon, RadioButtonUnchecked as UncheckedIcon } from '@mui/icons-material';
+import { checkPasswordRules, getPasswordScore, getPasswordStrength, PasswordStrength } from '@/utils/passwordPolicy';
+
+const STRENGTH_COLORS: Record<PasswordStrength, 'error' | 'warning' | 'info' | 'success'> = {
+  weak: 'error',
+  fair: 'warning',
+  good: 'info',
+  strong: 'success',
+};
+
+interface PasswordStrengthMeterProps {
+  password: string;
+}
+
+export default function PasswordStrengthMeter({ password }: PasswordStrengthMeterProps) {
+  const strength = getPasswordStrength(password);
+
+  return (
+    <Box mb={1}>
+      <Box display="flex" alignItems="center" gap={1}>
+        <LinearProgress
+          variant="determinate"
+          value={getPasswordScore(password)}
+          color={STRENGTH_COLORS[strength]}
+          sx={{ flexGrow: 1, height: 6, borderRadius: 3 }}
+        />
+        <Typography variant="caption" sx={{ minWidth: 48, textTransform: 'capitalize' }}>
+          {password ? strength : ''}
+        </Typography>
+      </Box>
+      <Box component="ul" sx={{ listStyle: 'none', p: 0, m: 0, mt: 1 }}>
+        {checkPasswordRules(password).map((rule) => (
+          <Box component="li" key={rule.id} display="flex" alignItems="center" gap={0.5}>
+            {rule.passed ? (
+              <CheckIcon fontSize="inherit" color="success" />
+            ) : (
+              <UncheckedIcon fontSize="inherit" color="disabled" />
+            )}
+            <Typography variant="caption" color={rule.passed ? 'textPrimary' : 'textSecondary'}>
+              {rule.label}
+            </Typography>
+          </Box>
+        ))}
+      </Box>
+    </Box>
+  );
+}
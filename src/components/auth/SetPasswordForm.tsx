@@ -0,0 +1,62 @@
+import { Button, CircularProgress, TextField } from '@mui/material';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { setPasswordSchema, SetPasswordFormData } from '@/schemas/password';
+import PasswordStrengthMeter from '@/components/auth/PasswordStrengthMeter';
+
+interface SetPasswordFormProps {
+  submitLabel: string;
+  onSubmit: (password: string) => Promise<void>;
+}
+
+/** New password plus confirmation, checked against the shared password policy */
+export default function SetPasswordForm({ submitLabel, onSubmit }: SetPasswordFormProps) {
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<SetPasswordFormData>({
+    resolver: zodResolver(setPasswordSchema),
+    defaultValues: { password: '', confirmPassword: '' },
+  });
+
+  return (
+    <form onSubmit={handleSubmit(({ password }) => onSubmit(password))}>
+      <TextField
+        {...register('password')}
+        label="New password"
+        type="password"
+        autoComplete="new-password"
+        fullWidth
+        sx={{ mt: 2, mb: 1 }}
+        error={!!errors.password}
+        helperText={errors.password?.message}
+      />
+      <PasswordStrengthMeter password={watch('password') || ''} />
+
+      <TextField
+        {...register('confirmPassword')}
+        label="Confirm password"
+        type="password"
+        autoComplete="new-password"
+        fullWidth
+        sx={{ mt: 2, mb: 2 }}
+        error={!!errors.confirmPassword}
+        helperText={errors.confirmPassword?.message}
+      />
+
+      <Button
+        type="submit"
+        variant="contained"
+        color="primary"
+        fullWidth
+        size="large"
+        disabled={isSubmitting}
+        sx={{ mt: 2 }}
+      >
+        {isSubmitting ? <CircularProgress size={24} /> : submitLabel}
+      </Button>
+    </form>
+  );
+}
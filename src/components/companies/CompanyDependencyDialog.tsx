@@ -0,0 +1,304 @@
+import { useEffect, useState } from 'react';
+import type { AxiosRequestConfig } from 'axios';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  LinearProgress,
+  Radio,
+  RadioGroup,
+  TextField,
+  Typography,
+} from '@mui/material';
+import api, { createCorrelationId, fetchAllPages, handleApiError, withCorrelationId } from '@/utils/api';
+import { renderCompanyOptions } from '@/components/companies/companyOptions';
+import { HierarchyCompany } from '@/utils/companyTree';
+import { updateDevice } from '@/utils/devices';
+
+export type CompanyLifecycleAction = 'deactivate' | 'delete';
+
+type Strategy = 'reassign' | 'cascade';
+
+interface DependentCompany extends HierarchyCompany {
+  status: 'active' | 'inactive';
+}
+
+interface DependentDevice {
+  id: string;
+  type: string;
+  location: string;
+}
+
+interface DependentUser {
+  id: string;
+  email: string;
+}
+
+interface CompanyDependencyDialogProps {
+  action: CompanyLifecycleAction | null;
+  company: DependentCompany | null;
+  companies: DependentCompany[];
+  /** Other company fields to save together with a deactivation */
+  changes?: Record<string, unknown>;
+  onClose: () => void;
+  onCompleted: () => void;
+}
+
+interface StepFailure {
+  label: string;
+  message: string;
+}
+
+const CASCADE_LABELS: Record<CompanyLifecycleAction, string> = {
+  deactivate: 'Disable the devices and deactivate the users',
+  delete: 'Delete the devices and users as well',
+};
+
+export default function CompanyDependencyDialog({
+  action,
+  company,
+  companies,
+  changes,
+  onClose,
+  onCompleted,
+}: CompanyDependencyDialogProps) {
+  const [devices, setDevices] = useState<DependentDevice[]>([]);
+  const [users, setUsers] = useState<DependentUser[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [strategy, setStrategy] = useState<Strategy>('reassign');
+  const [targetCompanyId, setTargetCompanyId] = useState('');
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [failures, setFailures] = useState<StepFailure[] | null>(null);
+
+  useEffect(() => {
+    if (!action || !company) return;
+    setStrategy('reassign');
+    setTargetCompanyId('');
+    setProgress(0);
+    setFailures(null);
+    setError(null);
+    fetchDependents(company.id);
+  }, [action, company]);
+
+  const fetchDependents = async (companyId: string) => {
+    try {
+      setLoading(true);
+      const [deviceList, usersResponse] = await Promise.all([
+        fetchAllPages('/devices', { companyId }),
+        api.get('/users'),
+      ]);
+      const userList = Array.isArray(usersResponse.data) ? usersResponse.data : usersResponse.data.data;
+      // Older backends ignore the filter, so match on the company again here
+      setDevices(deviceList.filter((device: any) => device.company_id === companyId));
+      setUsers(
+        (userList || [])
+          .filter((user: any) => (user.company_id || user.companyId) === companyId)
+          .map((user: any) => ({ id: user.id || user._id, email: user.email }))
+      );
+    } catch (error) {
+      setError(handleApiError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const subCompanies = company ? companies.filter((c) => c.parentId === company.id) : [];
+  const dependentCount = devices.length + users.length;
+  // Sub-companies would lose their parent or stay active under an inactive one, so they have to be handled first
+  const blockingSubCompanies =
+    action === 'delete' ? subCompanies : subCompanies.filter((c) => c.status === 'active');
+  const blockedBySubCompanies = blockingSubCompanies.length > 0;
+
+  const disabledTargets = companies
+    .filter((c) => c.status === 'inactive' || c.id === company?.id)
+    .map((c) => c.id);
+
+  const ready =
+    !loading &&
+    !error &&
+    !blockedBySubCompanies &&
+    (dependentCount === 0 || strategy === 'cascade' || !!targetCompanyId);
+
+  const resolveDevice = (device: DependentDevice, config: AxiosRequestConfig) => {
+    if (strategy === 'reassign') return updateDevice(device.id, { company_id: targetCompanyId }, config);
+    return action === 'delete'
+      ? api.delete(`/devices/${device.id}`, config)
+      : updateDevice(device.id, { enabled: false }, config);
+  };
+
+  const resolveUser = (user: DependentUser, config: AxiosRequestConfig) => {
+    if (strategy === 'reassign') return api.patch(`/users/${user.id}`, { companyId: targetCompanyId }, config);
+    return action === 'delete'
+      ? api.delete(`/users/${user.id}`, config)
+      : api.patch(`/users/${user.id}`, { status: 'inactive' }, config);
+  };
+
+  const handleApply = async () => {
+    if (!company) return;
+    setRunning(true);
+    const failed: StepFailure[] = [];
+    const correlation = withCorrelationId(createCorrelationId());
+    const steps = [
+      ...devices.map((device) => ({
+        label: `Device ${device.type} — ${device.location}`,
+        run: () => resolveDevice(device, correlation),
+      })),
+      ...users.map((user) => ({ label: `User ${user.email}`, run: () => resolveUser(user, correlation) })),
+    ];
+
+    for (let i = 0; i < steps.length; i++) {
+      try {
+        await steps[i].run();
+      } catch (error) {
+        failed.push({ label: steps[i].label, message: handleApiError(error) });
+      }
+      setProgress(((i + 1) / (steps.length + 1)) * 100);
+    }
+
+    // Leave the company in place while anything still points at it
+    if (failed.length === 0) {
+      try {
+        if (action === 'delete') {
+          await api.delete(`/companies/${company.id}`, correlation);
+        } else {
+          await api.patch(`/companies/${company.id}`, { ...changes, status: 'inactive' }, correlation);
+        }
+      } catch (error) {
+        failed.push({ label: `Company ${company.name}`, message: handleApiError(error) });
+      }
+    } else {
+      failed.push({ label: `Company ${company.name}`, message: 'Skipped because some dependents could not be updated' });
+    }
+
+    setProgress(100);
+    setFailures(failed);
+    setRunning(false);
+    onCompleted();
+  };
+
+  const verb = action === 'delete' ? 'Delete' : 'Deactivate';
+
+  return (
+    <Dialog open={!!action && !!company} onClose={running ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        {verb} {company?.name}
+      </DialogTitle>
+      <DialogContent>
+        {loading && (
+          <Box display="flex" justifyContent="center" py={3}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {!loading && !error && !running && !failures && (
+          <>
+            <Box display="flex" gap={1} mb={2}>
+              <Chip label={`${devices.length} device(s)`} size="small" color={devices.length ? 'primary' : 'default'} />
+              <Chip label={`${users.length} user(s)`} size="small" color={users.length ? 'primary' : 'default'} />
+              <Chip
+                label={`${subCompanies.length} sub-company(ies)`}
+                size="small"
+                color={subCompanies.length ? 'primary' : 'default'}
+              />
+            </Box>
+
+            {blockedBySubCompanies && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                {action === 'delete'
+                  ? 'Move or delete its sub-companies before deleting this company: '
+                  : 'Move or deactivate its active sub-companies before deactivating this company: '}
+                {blockingSubCompanies.map((c) => c.name).join(', ')}
+              </Alert>
+            )}
+
+            {!blockedBySubCompanies && dependentCount === 0 && (
+              <Typography variant="body2" color="textSecondary">
+                No devices or users depend on this company.
+              </Typography>
+            )}
+
+            {!blockedBySubCompanies && dependentCount > 0 && (
+              <>
+                <Typography variant="body2" gutterBottom>
+                  What should happen to the devices and users of this company?
+                </Typography>
+                <RadioGroup value={strategy} onChange={(e) => setStrategy(e.target.value as Strategy)}>
+                  <FormControlLabel value="reassign" control={<Radio />} label="Reassign them to another company" />
+                  <FormControlLabel value="cascade" control={<Radio />} label={CASCADE_LABELS[action || 'deactivate']} />
+                </RadioGroup>
+                {strategy === 'reassign' && (
+                  <TextField
+                    select
+                    fullWidth
+                    label="Target company"
+                    value={targetCompanyId}
+                    onChange={(e) => setTargetCompanyId(e.target.value)}
+                    margin="normal"
+                  >
+                    {renderCompanyOptions(companies, disabledTargets)}
+                  </TextField>
+                )}
+                {strategy === 'cascade' && action === 'delete' && (
+                  <Alert severity="warning" sx={{ mt: 1 }}>
+                    {dependentCount} device(s) and user(s) will be permanently deleted.
+                  </Alert>
+                )}
+              </>
+            )}
+          </>
+        )}
+
+        {running && (
+          <Box py={2}>
+            <LinearProgress variant="determinate" value={progress} />
+            <Typography variant="body2" color="textSecondary" sx={{ mt: 1 }}>
+              Updating dependents... {Math.round(progress)}%
+            </Typography>
+          </Box>
+        )}
+
+        {failures && (
+          <Alert severity={failures.length === 0 ? 'success' : 'warning'}>
+            {failures.length === 0
+              ? `${company?.name} was ${action === 'delete' ? 'deleted' : 'deactivated'}.`
+              : failures.map((failure) => (
+                  <Typography key={failure.label} variant="body2">
+                    {failure.label}: {failure.message}
+                  </Typography>
+                ))}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={running}>
+          {failures ? 'Close' : 'Cancel'}
+        </Button>
+        {!failures && (
+          <Button
+            variant="contained"
+            color={action === 'delete' ? 'error' : 'primary'}
+            onClick={handleApply}
+            disabled={!ready || running}
+          >
+            {verb}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
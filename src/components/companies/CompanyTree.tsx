@@ -0,0 +1,117 @@
+import { Fragment, ReactNode, useMemo, useState } from 'react';
+import {
+  Box,
+  IconButton,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { ChevronRight as ChevronRightIcon, ExpandMore as ExpandMoreIcon } from '@mui/icons-material';
+import { buildCompanyTree, CompanyTreeNode, HierarchyCompany } from '@/utils/companyTree';
+
+export interface TreeCompany extends HierarchyCompany {
+  status: 'active' | 'inactive';
+  deviceCount?: number;
+  userCount?: number;
+}
+
+interface CompanyTreeProps<T extends TreeCompany> {
+  companies: T[];
+  renderActions?: (company: T) => ReactNode;
+}
+
+interface Totals {
+  devices: number;
+  users: number;
+}
+
+export default function CompanyTree<T extends TreeCompany>({ companies, renderActions }: CompanyTreeProps<T>) {
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+  const roots = useMemo(() => buildCompanyTree(companies), [companies]);
+
+  // Roll device and user counts up each subtree
+  const totals = useMemo(() => {
+    const result: Record<string, Totals> = {};
+    const sum = (node: CompanyTreeNode<T>): Totals => {
+      const total = node.children.reduce(
+        (acc, child) => {
+          const childTotal = sum(child);
+          return { devices: acc.devices + childTotal.devices, users: acc.users + childTotal.users };
+        },
+        { devices: node.company.deviceCount || 0, users: node.company.userCount || 0 }
+      );
+      result[node.company.id] = total;
+      return total;
+    };
+    roots.forEach(sum);
+    return result;
+  }, [roots]);
+
+  const toggle = (id: string) => setCollapsed((prev) => ({ ...prev, [id]: !prev[id] }));
+
+  const renderNode = (node: CompanyTreeNode<T>): ReactNode => {
+    const { company } = node;
+    const isCollapsed = collapsed[company.id];
+    const total = totals[company.id];
+
+    return (
+      <Fragment key={company.id}>
+        <TableRow hover>
+          <TableCell>
+            <Box display="flex" alignItems="center" sx={{ pl: node.depth * 3 }}>
+              {node.children.length > 0 ? (
+                <IconButton size="small" onClick={() => toggle(company.id)}>
+                  {isCollapsed ? <ChevronRightIcon fontSize="small" /> : <ExpandMoreIcon fontSize="small" />}
+                </IconButton>
+              ) : (
+                <Box width={34} />
+              )}
+              {company.name}
+            </Box>
+          </TableCell>
+          <TableCell>
+            <Typography color={company.status === 'active' ? 'success.main' : 'error.main'}>
+              {company.status}
+            </Typography>
+          </TableCell>
+          <TableCell>
+            {company.deviceCount || 0}
+            {node.children.length > 0 && ` (${total.devices} total)`}
+          </TableCell>
+          <TableCell>
+            {company.userCount || 0}
+            {node.children.length > 0 && ` (${total.users} total)`}
+          </TableCell>
+          {renderActions && <TableCell align="right">{renderActions(company)}</TableCell>}
+        </TableRow>
+        {!isCollapsed && node.children.map(renderNode)}
+      </Fragment>
+    );
+  };
+
+  return (
+    <TableContainer component={Paper}>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell sx={{ fontWeight: 'bold' }}>Name</TableCell>
+            <TableCell sx={{ fontWeight: 'bold' }}>Status</TableCell>
+            <TableCell sx={{ fontWeight: 'bold' }}>Devices</TableCell>
+            <TableCell sx={{ fontWeight: 'bold' }}>Users</TableCell>
+            {renderActions && (
+              <TableCell align="right" sx={{ fontWeight: 'bold' }}>
+                Actions
+              </TableCell>
+            )}
+          </TableRow>
+        </TableHead>
+        <TableBody>{roots.map(renderNode)}</TableBody>
+      </Table>
+    </TableContainer>
+  );
+}
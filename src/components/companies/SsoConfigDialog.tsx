@@ -0,0 +1,386 @@
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControlLabel,
+  IconButton,
+  MenuItem,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Close as CloseIcon } from '@mui/icons-material';
+import { Controller, useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import api, { handleApiError } from '@/utils/api';
+import { getSsoRedirectUri } from '@/utils/oidc';
+import { splitList, ssoConfigSchema, SsoConfigFormData } from '@/schemas/sso';
+
+interface SsoCompany {
+  id: string;
+  name: string;
+}
+
+interface SsoRole {
+  id: string;
+  name: string;
+}
+
+interface SsoConfigDialogProps {
+  company: SsoCompany | null;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+const DEFAULT_VALUES: SsoConfigFormData = {
+  enabled: true,
+  issuer: '',
+  clientId: '',
+  clientSecret: '',
+  scopes: 'openid email profile',
+  emailDomains: '',
+  jitProvisioning: true,
+  groupsClaim: 'groups',
+  defaultRoleId: '',
+  groupMappings: [],
+};
+
+/** Per-company OpenID Connect provider, the email domains routed to it and how IdP groups map to roles */
+export default function SsoConfigDialog({ company, onClose, onSaved }: SsoConfigDialogProps) {
+  const [roles, setRoles] = useState<SsoRole[]>([]);
+  const [exists, setExists] = useState(false);
+  const [hasSecret, setHasSecret] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    getValues,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<SsoConfigFormData>({
+    resolver: zodResolver(ssoConfigSchema),
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  const { fields, append, remove } = useFieldArray({ control, name: 'groupMappings' });
+  const jitProvisioning = watch('jitProvisioning');
+
+  useEffect(() => {
+    if (!company) return;
+    setError(null);
+    setTestResult(null);
+
+    const fetchConfig = async () => {
+      try {
+        setLoading(true);
+        const rolesResponse = await api.get('/roles');
+        setRoles(Array.isArray(rolesResponse.data) ? rolesResponse.data : rolesResponse.data.data || []);
+
+        const response = await api.get(`/companies/${company.id}/sso`);
+        const config = response.data.data || response.data;
+        setExists(true);
+        setHasSecret(!!(config.has_client_secret ?? config.hasClientSecret));
+        reset({
+          enabled: !!config.enabled,
+          issuer: config.issuer || '',
+          clientId: config.client_id || config.clientId || '',
+          clientSecret: '',
+          scopes: (config.scopes || ['openid', 'email', 'profile']).join(' '),
+          emailDomains: (config.email_domains || config.emailDomains || []).join(', '),
+          jitProvisioning: !!(config.jit_provisioning ?? config.jitProvisioning),
+          groupsClaim: config.groups_claim || config.groupsClaim || 'groups',
+          defaultRoleId: config.default_role_id || config.defaultRoleId || '',
+          groupMappings: (config.group_mappings || config.groupMappings || []).map((mapping: any) => ({
+            group: mapping.group,
+            roleId: mapping.role_id || mapping.roleId,
+          })),
+        });
+      } catch (error) {
+        // No provider configured yet
+        if (axios.isAxiosError(error) && error.response?.status === 404) {
+          setExists(false);
+          setHasSecret(false);
+          reset(DEFAULT_VALUES);
+        } else {
+          setError(handleApiError(error));
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchConfig();
+  }, [company, reset]);
+
+  const handleTest = async () => {
+    if (!company) return;
+    try {
+      setTesting(true);
+      setTestResult(null);
+      const response = await api.post(`/companies/${company.id}/sso/test`, { issuer: getValues('issuer') });
+      const data = response.data.data || response.data;
+      setTestResult({
+        ok: true,
+        message: `Found ${data.authorization_endpoint || data.authorizationEndpoint || 'the provider configuration'}`,
+      });
+    } catch (error) {
+      setTestResult({ ok: false, message: handleApiError(error) });
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!company || !window.confirm(`Remove single sign-on for ${company.name}? Users will need a password to log in.`)) {
+      return;
+    }
+    try {
+      await api.delete(`/companies/${company.id}/sso`);
+      onSaved?.();
+      onClose();
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  const onSubmit = async (data: SsoConfigFormData) => {
+    if (!company) return;
+    const { clientSecret, ...rest } = data;
+    const payload = {
+      ...rest,
+      scopes: splitList(data.scopes),
+      emailDomains: splitList(data.emailDomains).map((domain) => domain.toLowerCase()),
+      defaultRoleId: data.defaultRoleId || null,
+      // Only sent when changed, since the stored secret is never read back
+      ...(clientSecret ? { clientSecret } : {}),
+    };
+    try {
+      setError(null);
+      await api.put(`/companies/${company.id}/sso`, payload);
+      onSaved?.();
+      onClose();
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  const renderRoleOptions = () =>
+    roles.map((role) => (
+      <MenuItem key={role.id} value={role.id}>
+        {role.name}
+      </MenuItem>
+    ));
+
+  return (
+    <Dialog open={!!company} onClose={onClose} maxWidth="md" fullWidth>
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <DialogTitle>Single sign-on for {company?.name}</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          {loading ? (
+            <Box display="flex" justifyContent="center" py={4}>
+              <CircularProgress />
+            </Box>
+          ) : (
+            <>
+              <Controller
+                name="enabled"
+                control={control}
+                render={({ field }) => (
+                  <FormControlLabel
+                    control={<Switch checked={field.value} onChange={(e) => field.onChange(e.target.checked)} />}
+                    label="Enabled"
+                  />
+                )}
+              />
+
+              <Typography variant="body2" color="textSecondary" sx={{ mt: 1 }}>
+                Register this redirect URI with the identity provider:{' '}
+                <Box component="span" fontFamily="monospace">
+                  {typeof window !== 'undefined' ? getSsoRedirectUri() : ''}
+                </Box>
+              </Typography>
+
+              <Box display="flex" gap={1} alignItems="flex-start">
+                <TextField
+                  {...register('issuer')}
+                  label="Issuer URL"
+                  fullWidth
+                  margin="normal"
+                  error={!!errors.issuer}
+                  helperText={errors.issuer?.message || 'The provider configuration is read from /.well-known/openid-configuration'}
+                />
+                <Button onClick={handleTest} disabled={testing} sx={{ mt: 3, whiteSpace: 'nowrap' }}>
+                  {testing ? <CircularProgress size={20} /> : 'Test'}
+                </Button>
+              </Box>
+              {testResult && (
+                <Alert severity={testResult.ok ? 'success' : 'error'} sx={{ mb: 1 }}>
+                  {testResult.message}
+                </Alert>
+              )}
+
+              <Box display="flex" gap={2}>
+                <TextField
+                  {...register('clientId')}
+                  label="Client ID"
+                  fullWidth
+                  margin="normal"
+                  error={!!errors.clientId}
+                  helperText={errors.clientId?.message}
+                />
+                <TextField
+                  {...register('clientSecret')}
+                  label="Client secret"
+                  type="password"
+                  autoComplete="off"
+                  fullWidth
+                  margin="normal"
+                  placeholder={hasSecret ? '•••••••• (unchanged)' : ''}
+                  InputLabelProps={hasSecret ? { shrink: true } : undefined}
+                  helperText="Leave blank for public clients or to keep the current secret"
+                />
+              </Box>
+
+              <TextField
+                {...register('scopes')}
+                label="Scopes"
+                fullWidth
+                margin="normal"
+                error={!!errors.scopes}
+                helperText={errors.scopes?.message || 'Separated by spaces'}
+              />
+
+              <TextField
+                {...register('emailDomains')}
+                label="Email domains"
+                fullWidth
+                margin="normal"
+                error={!!errors.emailDomains}
+                helperText={
+                  errors.emailDomains?.message || 'Users with these email domains are sent to this provider at login'
+                }
+              />
+
+              <Divider sx={{ my: 2 }} />
+              <Typography variant="subtitle1">Provisioning</Typography>
+
+              <Controller
+                name="jitProvisioning"
+                control={control}
+                render={({ field }) => (
+                  <FormControlLabel
+                    control={<Switch checked={field.value} onChange={(e) => field.onChange(e.target.checked)} />}
+                    label="Create users on their first sign-in"
+                  />
+                )}
+              />
+
+              <Box display="flex" gap={2}>
+                <TextField
+                  {...register('groupsClaim')}
+                  label="Groups claim"
+                  fullWidth
+                  margin="normal"
+                  error={!!errors.groupsClaim}
+                  helperText={errors.groupsClaim?.message || 'ID token claim that lists the user\'s groups'}
+                />
+                <Controller
+                  name="defaultRoleId"
+                  control={control}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      select
+                      label="Default role"
+                      fullWidth
+                      margin="normal"
+                      disabled={!jitProvisioning}
+                      helperText="For users in none of the mapped groups"
+                    >
+                      <MenuItem value="">
+                        <em>None (refuse sign-in)</em>
+                      </MenuItem>
+                      {renderRoleOptions()}
+                    </TextField>
+                  )}
+                />
+              </Box>
+
+              <Typography variant="subtitle2" sx={{ mt: 2 }}>
+                Group to role mapping
+              </Typography>
+              <Typography variant="body2" color="textSecondary">
+                Roles are granted within {company?.name} and updated on every sign-in.
+              </Typography>
+              {fields.map((field, index) => (
+                <Box key={field.id} display="flex" gap={2} alignItems="flex-start">
+                  <TextField
+                    {...register(`groupMappings.${index}.group` as const)}
+                    label="IdP group"
+                    fullWidth
+                    margin="dense"
+                    error={!!errors.groupMappings?.[index]?.group}
+                    helperText={errors.groupMappings?.[index]?.group?.message}
+                  />
+                  <Controller
+                    name={`groupMappings.${index}.roleId` as const}
+                    control={control}
+                    render={({ field: roleField }) => (
+                      <TextField
+                        {...roleField}
+                        select
+                        label="Role"
+                        fullWidth
+                        margin="dense"
+                        error={!!errors.groupMappings?.[index]?.roleId}
+                        helperText={errors.groupMappings?.[index]?.roleId?.message}
+                      >
+                        {renderRoleOptions()}
+                      </TextField>
+                    )}
+                  />
+                  <IconButton onClick={() => remove(index)} sx={{ mt: 2 }} aria-label="Remove mapping">
+                    <CloseIcon />
+                  </IconButton>
+                </Box>
+              ))}
+              <Button size="small" startIcon={<AddIcon />} onClick={() => append({ group: '', roleId: '' })} sx={{ mt: 1 }}>
+                Add mapping
+              </Button>
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {exists && (
+            <Button color="error" onClick={handleRemove} sx={{ mr: 'auto' }}>
+              Remove
+            </Button>
+          )}
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={loading || isSubmitting}>
+            Save
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
@@ -0,0 +1,18 @@
+import { MenuItem } from '@mui/material';
+import { flattenCompanyTree, HierarchyCompany } from '@/utils/companyTree';
+
+/**
+ * Menu items for a company select, indented by hierarchy. Returned as an
+ * array (not a component) because MUI selects need MenuItems as direct children.
+ */
+export const renderCompanyOptions = (companies: HierarchyCompany[], disabledIds: string[] = []) =>
+  flattenCompanyTree(companies).map(({ company, depth }) => (
+    <MenuItem
+      key={company.id}
+      value={company.id}
+      disabled={disabledIds.includes(company.id)}
+      sx={{ pl: 2 + depth * 2 }}
+    >
+      {company.name}
+    </MenuItem>
+  ));
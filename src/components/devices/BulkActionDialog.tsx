@@ -0,0 +1,287 @@
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import api, { createCorrelationId, handleApiError, withCorrelationId } from '@/utils/api';
+import { updateDevice } from '@/utils/devices';
+
+export type BulkAction = 'enable' | 'disable' | 'maintenance' | 'company' | 'push_interval' | 'delete';
+
+interface BulkDevice {
+  id: string;
+  type: string;
+  location: string;
+  company_id: string;
+  status: 'online' | 'offline' | 'maintenance';
+  push_interval: number;
+  enabled: boolean;
+}
+
+interface Company {
+  id: string;
+  name: string;
+}
+
+interface BulkActionDialogProps {
+  action: BulkAction | null;
+  devices: BulkDevice[];
+  companies: Company[];
+  onClose: () => void;
+  onCompleted: () => void;
+}
+
+interface DeviceResult {
+  device: BulkDevice;
+  success: boolean;
+  message?: string;
+}
+
+const ACTION_TITLES: Record<BulkAction, string> = {
+  enable: 'Enable devices',
+  disable: 'Disable devices',
+  maintenance: 'Set devices to maintenance',
+  company: 'Reassign devices to a company',
+  push_interval: 'Change push interval',
+  delete: 'Delete devices',
+};
+
+export default function BulkActionDialog({ action, devices, companies, onClose, onCompleted }: BulkActionDialogProps) {
+  const [companyId, setCompanyId] = useState('');
+  const [pushInterval, setPushInterval] = useState('60');
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [results, setResults] = useState<DeviceResult[] | null>(null);
+
+  useEffect(() => {
+    if (action) {
+      setCompanyId('');
+      setPushInterval('60');
+      setProgress(0);
+      setResults(null);
+    }
+  }, [action]);
+
+  const getCompanyName = (id: string) => companies.find((company) => company.id === id)?.name || id;
+
+  const pushIntervalValue = Number(pushInterval);
+  const pushIntervalValid = Number.isInteger(pushIntervalValue) && pushIntervalValue > 0;
+
+  // The fields a device would get; null for deletions
+  const getChanges = (): Partial<BulkDevice> | null => {
+    switch (action) {
+      case 'enable':
+        return { enabled: true };
+      case 'disable':
+        return { enabled: false };
+      case 'maintenance':
+        return { status: 'maintenance' };
+      case 'company':
+        return { company_id: companyId };
+      case 'push_interval':
+        return { push_interval: pushIntervalValue };
+      default:
+        return null;
+    }
+  };
+
+  const changes = getChanges();
+
+  const describe = (field: keyof BulkDevice, value: unknown) =>
+    field === 'company_id' ? getCompanyName(String(value)) : String(value);
+
+  const plannedChanges = devices.map((device) => {
+    if (!changes) return { device, diffs: [] as string[] };
+    const diffs = (Object.keys(changes) as (keyof BulkDevice)[])
+      .filter((field) => device[field] !== changes[field])
+      .map((field) => `${field}: ${describe(field, device[field])} → ${describe(field, changes[field])}`);
+    return { device, diffs };
+  });
+
+  const affected = action === 'delete' ? devices : plannedChanges.filter((p) => p.diffs.length > 0).map((p) => p.device);
+  const ready =
+    affected.length > 0 &&
+    (action !== 'company' || !!companyId) &&
+    (action !== 'push_interval' || pushIntervalValid);
+
+  const handleApply = async () => {
+    setRunning(true);
+    const deviceResults: DeviceResult[] = [];
+    const correlation = withCorrelationId(createCorrelationId());
+
+    for (let i = 0; i < affected.length; i++) {
+      const device = affected[i];
+      try {
+        if (action === 'delete') {
+          await api.delete(`/devices/${device.id}`, correlation);
+        } else {
+          await updateDevice(device.id, changes || {}, correlation);
+        }
+        deviceResults.push({ device, success: true });
+      } catch (error) {
+        deviceResults.push({ device, success: false, message: handleApiError(error) });
+      }
+      setProgress(((i + 1) / affected.length) * 100);
+    }
+
+    setResults(deviceResults);
+    setRunning(false);
+    onCompleted();
+  };
+
+  const failures = results?.filter((result) => !result.success) || [];
+
+  return (
+    <Dialog open={!!action} onClose={running ? undefined : onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{action && ACTION_TITLES[action]}</DialogTitle>
+      <DialogContent>
+        {!results && !running && (
+          <>
+            {action === 'company' && (
+              <TextField
+                select
+                fullWidth
+                label="New company"
+                value={companyId}
+                onChange={(e) => setCompanyId(e.target.value)}
+                margin="normal"
+              >
+                {companies.map((company) => (
+                  <MenuItem key={company.id} value={company.id}>
+                    {company.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+            {action === 'push_interval' && (
+              <TextField
+                fullWidth
+                type="number"
+                label="Push Interval (seconds)"
+                value={pushInterval}
+                onChange={(e) => setPushInterval(e.target.value)}
+                error={!pushIntervalValid}
+                helperText={!pushIntervalValid && 'Push interval must be a positive whole number'}
+                margin="normal"
+              />
+            )}
+
+            {action === 'delete' ? (
+              <Alert severity="warning" sx={{ my: 2 }}>
+                {devices.length} device(s) will be permanently deleted.
+              </Alert>
+            ) : (
+              <Typography variant="body2" color="textSecondary" sx={{ my: 2 }}>
+                {affected.length} of {devices.length} selected device(s) will change.
+              </Typography>
+            )}
+
+            <TableContainer sx={{ maxHeight: 320 }}>
+              <Table stickyHeader size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={{ fontWeight: 'bold' }}>Device</TableCell>
+                    <TableCell sx={{ fontWeight: 'bold' }}>Change</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {plannedChanges.map(({ device, diffs }) => (
+                    <TableRow key={device.id}>
+                      <TableCell>
+                        {device.type} — {device.location}
+                      </TableCell>
+                      <TableCell>
+                        {action === 'delete'
+                          ? 'Delete'
+                          : diffs.length > 0
+                          ? diffs.join(', ')
+                          : <Typography variant="body2" color="textSecondary">No change</Typography>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+
+        {running && (
+          <Box py={2}>
+            <LinearProgress variant="determinate" value={progress} />
+            <Typography variant="body2" color="textSecondary" sx={{ mt: 1 }}>
+              Updating devices... {Math.round(progress)}%
+            </Typography>
+          </Box>
+        )}
+
+        {results && (
+          <>
+            <Alert severity={failures.length === 0 ? 'success' : 'warning'} sx={{ mb: 2 }}>
+              {results.length - failures.length} of {results.length} device(s) updated successfully.
+            </Alert>
+            <TableContainer sx={{ maxHeight: 320 }}>
+              <Table stickyHeader size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={{ fontWeight: 'bold' }}>Device</TableCell>
+                    <TableCell sx={{ fontWeight: 'bold' }}>Result</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {results.map(({ device, success, message }) => (
+                    <TableRow key={device.id}>
+                      <TableCell>
+                        {device.type} — {device.location}
+                      </TableCell>
+                      <TableCell>
+                        {success ? (
+                          <Chip label="Done" color="success" size="small" />
+                        ) : (
+                          <Box display="flex" gap={1} alignItems="center">
+                            <Chip label="Failed" color="error" size="small" />
+                            <Typography variant="body2">{message}</Typography>
+                          </Box>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={running}>
+          {results ? 'Close' : 'Cancel'}
+        </Button>
+        {!results && (
+          <Button
+            variant="contained"
+            color={action === 'delete' ? 'error' : 'primary'}
+            onClick={handleApply}
+            disabled={!ready || running}
+          >
+            {action === 'delete' ? `Delete ${affected.length} device(s)` : `Apply to ${affected.length} device(s)`}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
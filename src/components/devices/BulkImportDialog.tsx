@@ -0,0 +1,287 @@
+import { ChangeEvent, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  Step,
+  StepLabel,
+  Stepper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { UploadFile as UploadFileIcon } from '@mui/icons-material';
+import api, { createCorrelationId, handleApiError, withCorrelationId } from '@/utils/api';
+import { deviceSchema, DeviceFormData } from '@/schemas/device';
+import { downloadSpreadsheet, readSpreadsheet, SpreadsheetRow } from '@/utils/spreadsheet';
+
+interface Company {
+  id: string;
+  name: string;
+}
+
+interface BulkImportDialogProps {
+  open: boolean;
+  companies: Company[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+interface ImportRow {
+  line: number;
+  source: SpreadsheetRow;
+  data?: DeviceFormData;
+  errors: string[];
+}
+
+const IMPORT_COLUMNS = ['type', 'company', 'location', 'physical_address', 'push_interval', 'enabled'];
+const STEPS = ['Upload file', 'Review', 'Import'];
+
+const parseBoolean = (value: string) => {
+  const normalized = value.toLowerCase();
+  if (['true', 'yes', 'y', '1'].includes(normalized)) return true;
+  if (['false', 'no', 'n', '0'].includes(normalized)) return false;
+  return value;
+};
+
+// Turns one spreadsheet row into device form data, applying the same zod rules as the device form
+const validateRow = (source: SpreadsheetRow, line: number, companies: Company[]): ImportRow => {
+  const errors: string[] = [];
+  const companyName = source.company || '';
+  const company = companies.find(
+    (c) => c.name.toLowerCase() === companyName.toLowerCase() || c.id === companyName
+  );
+  if (companyName && !company) {
+    errors.push(`company: Unknown company "${companyName}"`);
+  }
+
+  const result = deviceSchema.safeParse({
+    type: source.type,
+    company_id: company?.id || '',
+    location: source.location,
+    physical_address: source.physical_address,
+    push_interval: source.push_interval ? Number(source.push_interval) : undefined,
+    enabled: source.enabled ? parseBoolean(source.enabled) : undefined,
+  });
+
+  if (!result.success) {
+    result.error.issues.forEach((issue) => {
+      const field = issue.path[0] === 'company_id' ? 'company' : issue.path.join('.');
+      // The unknown-company error above already explains an empty company_id
+      if (field === 'company' && companyName && !company) return;
+      errors.push(`${field}: ${issue.message}`);
+    });
+  }
+
+  return { line, source, data: result.success ? result.data : undefined, errors };
+};
+
+export default function BulkImportDialog({ open, companies, onClose, onImported }: BulkImportDialogProps) {
+  const [step, setStep] = useState(0);
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [importing, setImporting] = useState(false);
+  const [failures, setFailures] = useState<ImportRow[]>([]);
+  const [createdCount, setCreatedCount] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const validRows = rows.filter((row) => row.errors.length === 0);
+  const invalidRows = rows.filter((row) => row.errors.length > 0);
+
+  const resetState = () => {
+    setStep(0);
+    setFileName('');
+    setRows([]);
+    setFileError(null);
+    setProgress(0);
+    setFailures([]);
+    setCreatedCount(0);
+  };
+
+  const handleClose = () => {
+    if (importing) return;
+    if (createdCount > 0) onImported();
+    resetState();
+    onClose();
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const sourceRows = await readSpreadsheet(file);
+      if (sourceRows.length === 0) {
+        setFileError('The file contains no rows');
+        return;
+      }
+      const missing = IMPORT_COLUMNS.filter((column) => !(column in sourceRows[0]));
+      if (missing.length > 0) {
+        setFileError(`Missing columns: ${missing.join(', ')}`);
+        return;
+      }
+      setFileName(file.name);
+      setFileError(null);
+      // Line numbers match the spreadsheet, where line 1 is the header
+      setRows(sourceRows.map((row, index) => validateRow(row, index + 2, companies)));
+      setStep(1);
+    } catch (error) {
+      setFileError('The file could not be read as CSV or XLSX');
+    }
+  };
+
+  const handleImport = async () => {
+    setStep(2);
+    setImporting(true);
+    const failed: ImportRow[] = [];
+    let created = 0;
+    const correlation = withCorrelationId(createCorrelationId());
+
+    // One request at a time keeps the load on the backend predictable
+    for (let i = 0; i < validRows.length; i++) {
+      const row = validRows[i];
+      try {
+        await api.post('/devices', row.data, correlation);
+        created += 1;
+      } catch (error) {
+        failed.push({ ...row, errors: [handleApiError(error)] });
+      }
+      setProgress(((i + 1) / validRows.length) * 100);
+    }
+
+    setCreatedCount(created);
+    setFailures([...invalidRows, ...failed].sort((a, b) => a.line - b.line));
+    setImporting(false);
+  };
+
+  const downloadFailures = () => {
+    downloadSpreadsheet(
+      failures.map((row) => ({ line: row.line, ...row.source, errors: row.errors.join('; ') })),
+      'device-import-failures',
+      'csv',
+      ['line', ...IMPORT_COLUMNS, 'errors']
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>Import Devices</DialogTitle>
+      <DialogContent>
+        <Stepper activeStep={step} sx={{ mb: 3 }}>
+          {STEPS.map((label) => (
+            <Step key={label}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {step === 0 && (
+          <Box textAlign="center" py={3}>
+            <Typography variant="body2" color="textSecondary" paragraph>
+              Upload a CSV or XLSX file with the columns {IMPORT_COLUMNS.join(', ')}. Companies are matched by
+              name.
+            </Typography>
+            {fileError && (
+              <Alert severity="error" sx={{ mb: 2, textAlign: 'left' }}>
+                {fileError}
+              </Alert>
+            )}
+            <Button variant="contained" startIcon={<UploadFileIcon />} onClick={() => fileInputRef.current?.click()}>
+              Choose file
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              hidden
+              onChange={handleFile}
+            />
+          </Box>
+        )}
+
+        {step === 1 && (
+          <>
+            <Box display="flex" gap={1} mb={2} alignItems="center">
+              <Typography variant="body2">{fileName}:</Typography>
+              <Chip label={`${validRows.length} valid`} color="success" size="small" />
+              <Chip label={`${invalidRows.length} with errors`} color={invalidRows.length ? 'error' : 'default'} size="small" />
+            </Box>
+            {invalidRows.length > 0 && (
+              <TableContainer sx={{ maxHeight: 360 }}>
+                <Table stickyHeader size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell sx={{ fontWeight: 'bold' }}>Line</TableCell>
+                      <TableCell sx={{ fontWeight: 'bold' }}>Type</TableCell>
+                      <TableCell sx={{ fontWeight: 'bold' }}>Location</TableCell>
+                      <TableCell sx={{ fontWeight: 'bold' }}>Errors</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {invalidRows.map((row) => (
+                      <TableRow key={row.line}>
+                        <TableCell>{row.line}</TableCell>
+                        <TableCell>{row.source.type}</TableCell>
+                        <TableCell>{row.source.location}</TableCell>
+                        <TableCell>
+                          {row.errors.map((error) => (
+                            <Typography key={error} variant="body2" color="error">
+                              {error}
+                            </Typography>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </>
+        )}
+
+        {step === 2 && (
+          <>
+            <LinearProgress variant="determinate" value={progress} sx={{ mb: 2 }} />
+            {importing ? (
+              <Typography variant="body2" color="textSecondary">
+                Creating devices... {Math.round(progress)}%
+              </Typography>
+            ) : (
+              <Alert severity={failures.length === 0 ? 'success' : 'warning'}>
+                Created {createdCount} device(s).
+                {failures.length > 0 && ` ${failures.length} row(s) were not imported.`}
+              </Alert>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {step === 1 && <Button onClick={resetState}>Choose another file</Button>}
+        {step === 2 && !importing && failures.length > 0 && (
+          <Button onClick={downloadFailures}>Download failures</Button>
+        )}
+        <Button onClick={handleClose} disabled={importing}>
+          {step === 2 && !importing ? 'Done' : 'Cancel'}
+        </Button>
+        {step === 1 && (
+          <Button variant="contained" onClick={handleImport} disabled={validRows.length === 0}>
+            Import {validRows.length} device(s)
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,25 @@
+import { Chip, ChipProps } from '@mui/material';
+
+export type DeviceStatus = 'online' | 'offline' | 'maintenance';
+
+export const DEVICE_STATUS_COLORS: Record<DeviceStatus, ChipProps['color']> = {
+  online: 'success',
+  offline: 'error',
+  maintenance: 'warning',
+};
+
+interface DeviceStatusChipProps {
+  status: DeviceStatus;
+  label?: string;
+}
+
+export default function DeviceStatusChip({ status, label }: DeviceStatusChipProps) {
+  return (
+    <Chip
+      label={label ?? status}
+      color={DEVICE_STATUS_COLORS[status] || 'default'}
+      size="small"
+      sx={{ height: 24 }}
+    />
+  );
+}
@@ -0,0 +1,163 @@
+import { useRouter } from 'next/router';
+import {
+  Checkbox,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TableSortLabel,
+  Typography,
+} from '@mui/material';
+import { Edit as EditIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import DeviceStatusChip, { DeviceStatus } from '@/components/devices/DeviceStatusChip';
+
+export type DeviceSortField = 'type' | 'location' | 'status' | 'updated_at';
+
+export interface DeviceTableRow {
+  id: string;
+  type: string;
+  status: DeviceStatus;
+  location: string;
+  company_id: string;
+  updated_at: string;
+}
+
+interface DeviceTableProps<T extends DeviceTableRow> {
+  devices: T[];
+  /** Shows the company column when given */
+  getCompanyName?: (companyId: string) => string;
+  sortBy?: DeviceSortField;
+  sortOrder?: 'asc' | 'desc';
+  onSort?: (field: DeviceSortField) => void;
+  /** Enables the selection checkboxes when given */
+  selected?: Record<string, T>;
+  onToggleSelected?: (device: T) => void;
+  onTogglePageSelected?: () => void;
+  onDelete?: (id: string) => void;
+  maxHeight?: string | number;
+}
+
+const headerCellSx = {
+  py: 1,
+  backgroundColor: 'background.paper',
+  fontWeight: 'bold',
+};
+
+export default function DeviceTable<T extends DeviceTableRow>({
+  devices,
+  getCompanyName,
+  sortBy,
+  sortOrder = 'asc',
+  onSort,
+  selected,
+  onToggleSelected,
+  onTogglePageSelected,
+  onDelete,
+  maxHeight,
+}: DeviceTableProps<T>) {
+  const router = useRouter();
+  const pageSelectedCount = selected ? devices.filter((device) => selected[device.id]).length : 0;
+
+  const renderHeader = (label: string, field: DeviceSortField) =>
+    onSort ? (
+      <TableSortLabel
+        active={sortBy === field}
+        direction={sortBy === field ? sortOrder : 'asc'}
+        onClick={() => onSort(field)}
+      >
+        {label}
+      </TableSortLabel>
+    ) : (
+      label
+    );
+
+  return (
+    <TableContainer sx={{ maxHeight }}>
+      <Table stickyHeader size="small">
+        <TableHead>
+          <TableRow>
+            {selected && (
+              <TableCell padding="checkbox" sx={{ backgroundColor: 'background.paper' }}>
+                <Checkbox
+                  size="small"
+                  checked={devices.length > 0 && pageSelectedCount === devices.length}
+                  indeterminate={pageSelectedCount > 0 && pageSelectedCount < devices.length}
+                  onChange={onTogglePageSelected}
+                />
+              </TableCell>
+            )}
+            <TableCell width="15%" sx={headerCellSx}>
+              {renderHeader('Type', 'type')}
+            </TableCell>
+            {getCompanyName && (
+              <TableCell width="15%" sx={headerCellSx}>
+                Company
+              </TableCell>
+            )}
+            <TableCell width="20%" sx={headerCellSx}>
+              {renderHeader('Location', 'location')}
+            </TableCell>
+            <TableCell width="15%" sx={headerCellSx}>
+              {renderHeader('Status', 'status')}
+            </TableCell>
+            <TableCell width="20%" sx={headerCellSx}>
+              {renderHeader('Last Seen', 'updated_at')}
+            </TableCell>
+            <TableCell width="15%" align="right" sx={headerCellSx}>
+              Actions
+            </TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {devices.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={7}>
+                <Typography variant="body2" color="textSecondary">
+                  No devices found
+                </Typography>
+              </TableCell>
+            </TableRow>
+          )}
+          {devices.map((device) => (
+            <TableRow key={device.id} hover selected={!!selected?.[device.id]}>
+              {selected && (
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    size="small"
+                    checked={!!selected[device.id]}
+                    onChange={() => onToggleSelected?.(device)}
+                  />
+                </TableCell>
+              )}
+              <TableCell sx={{ py: 1 }}>{device.type}</TableCell>
+              {getCompanyName && <TableCell sx={{ py: 1 }}>{getCompanyName(device.company_id)}</TableCell>}
+              <TableCell sx={{ py: 1 }}>{device.location}</TableCell>
+              <TableCell sx={{ py: 1 }}>
+                <DeviceStatusChip status={device.status} />
+              </TableCell>
+              <TableCell sx={{ py: 1 }}>{new Date(device.updated_at).toLocaleString()}</TableCell>
+              <TableCell align="right" sx={{ py: 1 }}>
+                <IconButton
+                  color="primary"
+                  onClick={() => router.push(`/devices/${device.id}`)}
+                  size="small"
+                  sx={{ p: 0.5 }}
+                >
+                  <EditIcon fontSize="small" />
+                </IconButton>
+                {onDelete && (
+                  <IconButton color="error" onClick={() => onDelete(device.id)} size="small" sx={{ p: 0.5 }}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+}
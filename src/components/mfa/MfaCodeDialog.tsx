@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { handleApiError } from '@/utils/api';
+import { totpFormSchema, TotpFormData } from '@/schemas/mfa';
+
+interface MfaCodeDialogProps {
+  open: boolean;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  onClose: () => void;
+  /** Throwing keeps the dialog open and shows the API error */
+  onConfirm: (code: string) => Promise<void>;
+}
+
+/** Asks for a current TOTP code before a sensitive MFA change */
+export default function MfaCodeDialog({ open, title, description, confirmLabel, onClose, onConfirm }: MfaCodeDialogProps) {
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<TotpFormData>({
+    resolver: zodResolver(totpFormSchema),
+    defaultValues: { code: '' },
+  });
+
+  useEffect(() => {
+    if (open) {
+      reset({ code: '' });
+      setError(null);
+    }
+  }, [open, reset]);
+
+  const onSubmit = async ({ code }: TotpFormData) => {
+    try {
+      setError(null);
+      await onConfirm(code);
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <DialogTitle>{title}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" gutterBottom>
+            {description}
+          </Typography>
+          {error && (
+            <Alert severity="error" sx={{ my: 1 }}>
+              {error}
+            </Alert>
+          )}
+          <TextField
+            {...register('code')}
+            label="Authenticator code"
+            fullWidth
+            margin="normal"
+            autoFocus
+            autoComplete="one-time-code"
+            inputProps={{ inputMode: 'numeric', maxLength: 6 }}
+            error={!!errors.code}
+            helperText={errors.code?.message}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={isSubmitting}>
+            {isSubmitting ? <CircularProgress size={24} /> : confirmLabel}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Step,
+  StepLabel,
+  Stepper,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import api, { handleApiError } from '@/utils/api';
+import { totpFormSchema, TotpFormData } from '@/schemas/mfa';
+import RecoveryCodes from '@/components/mfa/RecoveryCodes';
+
+interface Enrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+interface MfaEnrollmentDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onEnrolled: () => void;
+}
+
+const STEPS = ['Scan QR code', 'Confirm code', 'Save recovery codes'];
+
+/** Enrolls the current user in TOTP: scan, confirm one code, then save the recovery codes */
+export default function MfaEnrollmentDialog({ open, onClose, onEnrolled }: MfaEnrollmentDialogProps) {
+  const [step, setStep] = useState(0);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [saved, setSaved] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<TotpFormData>({
+    resolver: zodResolver(totpFormSchema),
+    defaultValues: { code: '' },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setStep(0);
+    setEnrollment(null);
+    setRecoveryCodes([]);
+    setSaved(false);
+    setError(null);
+    reset({ code: '' });
+
+    // Each start issues a fresh secret; an unconfirmed one is discarded by the backend
+    const startEnrollment = async () => {
+      try {
+        setLoading(true);
+        const response = await api.post('/auth/mfa/enroll');
+        const data = response.data.data || response.data;
+        setEnrollment({
+          secret: data.secret,
+          otpauthUrl: data.otpauth_url || data.otpauthUrl,
+          qrCode: data.qr_code || data.qrCode,
+        });
+      } catch (error) {
+        setError(handleApiError(error));
+      } finally {
+        setLoading(false);
+      }
+    };
+    startEnrollment();
+  }, [open, reset]);
+
+  const onConfirm = async ({ code }: TotpFormData) => {
+    try {
+      setError(null);
+      const response = await api.post('/auth/mfa/confirm', { code });
+      const data = response.data.data || response.data;
+      setRecoveryCodes(data.recovery_codes || data.recoveryCodes || []);
+      setStep(2);
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  const handleFinish = () => {
+    onEnrolled();
+    onClose();
+  };
+
+  // Once confirmed, MFA is on; closing early would lose the recovery codes, so only Finish closes it
+  const confirmed = step === 2;
+
+  return (
+    <Dialog open={open} onClose={confirmed ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Set up two-factor authentication</DialogTitle>
+      <DialogContent>
+        <Stepper activeStep={step} sx={{ mb: 3 }}>
+          {STEPS.map((label) => (
+            <Step key={label}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading && (
+          <Box display="flex" justifyContent="center" py={3}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {step === 0 && enrollment && (
+          <Box textAlign="center">
+            <Typography variant="body2" gutterBottom>
+              Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy.
+            </Typography>
+            {enrollment.qrCode && (
+              <Box component="img" src={enrollment.qrCode} alt="TOTP QR code" width={200} height={200} my={2} />
+            )}
+            <Typography variant="body2" color="textSecondary">
+              Can&apos;t scan it? Enter this key manually:
+            </Typography>
+            <Typography fontFamily="monospace" sx={{ wordBreak: 'break-all' }}>
+              {enrollment.secret}
+            </Typography>
+          </Box>
+        )}
+
+        {step === 1 && (
+          <form id="mfa-confirm-form" onSubmit={handleSubmit(onConfirm)}>
+            <Typography variant="body2" gutterBottom>
+              Enter the 6-digit code your authenticator app shows now.
+            </Typography>
+            <TextField
+              {...register('code')}
+              label="Code"
+              fullWidth
+              margin="normal"
+              autoFocus
+              autoComplete="one-time-code"
+              inputProps={{ inputMode: 'numeric', maxLength: 6 }}
+              error={!!errors.code}
+              helperText={errors.code?.message}
+            />
+          </form>
+        )}
+
+        {confirmed && (
+          <>
+            <RecoveryCodes codes={recoveryCodes} />
+            <FormControlLabel
+              sx={{ mt: 2 }}
+              control={<Checkbox checked={saved} onChange={(e) => setSaved(e.target.checked)} />}
+              label="I have saved my recovery codes"
+            />
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {!confirmed && <Button onClick={onClose}>Cancel</Button>}
+        {step === 0 && (
+          <Button variant="contained" onClick={() => setStep(1)} disabled={!enrollment}>
+            Next
+          </Button>
+        )}
+        {step === 1 && (
+          <>
+            <Button onClick={() => setStep(0)}>Back</Button>
+            <Button type="submit" form="mfa-confirm-form" variant="contained" disabled={isSubmitting}>
+              {isSubmitting ? <CircularProgress size={24} /> : 'Verify'}
+            </Button>
+          </>
+        )}
+        {confirmed && (
+          <Button variant="contained" onClick={handleFinish} disabled={!saved}>
+            Finish
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { Box, Button, Paper, Typography } from '@mui/material';
+import { ContentCopy as CopyIcon, Download as DownloadIcon } from '@mui/icons-material';
+import { downloadBlob } from '@/utils/spreadsheet';
+
+interface RecoveryCodesProps {
+  codes: string[];
+}
+
+/** One-time recovery codes, shown only right after they are generated */
+export default function RecoveryCodes({ codes }: RecoveryCodesProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy recovery codes:', error);
+    }
+  };
+
+  const handleDownload = () => {
+    downloadBlob(new Blob([`${codes.join('\n')}\n`], { type: 'text/plain' }), 'recovery-codes.txt');
+  };
+
+  return (
+    <Box>
+      <Typography variant="body2" gutterBottom>
+        Store these codes somewhere safe. Each one can be used once to sign in if you lose access to your
+        authenticator app. They will not be shown again.
+      </Typography>
+      <Paper variant="outlined" sx={{ p: 2, my: 2 }}>
+        <Box display="grid" gridTemplateColumns="repeat(2, 1fr)" gap={1}>
+          {codes.map((code) => (
+            <Typography key={code} fontFamily="monospace">
+              {code}
+            </Typography>
+          ))}
+        </Box>
+      </Paper>
+      <Box display="flex" gap={1}>
+        <Button startIcon={<CopyIcon />} onClick={handleCopy}>
+          {copied ? 'Copied' : 'Copy'}
+        </Button>
+        <Button startIcon={<DownloadIcon />} onClick={handleDownload}>
+          Download
+        </Button>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,289 @@
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControlLabel,
+  FormGroup,
+  FormHelperText,
+  IconButton,
+  MenuItem,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Close as CloseIcon } from '@mui/icons-material';
+import { Controller, useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import api, { handleApiError } from '@/utils/api';
+import { escalationPolicySchema, EscalationPolicyFormData } from '@/schemas/escalationPolicy';
+import { ALERT_SEVERITIES } from '@/utils/alertRules';
+import { ESCALATION_TARGETS, EscalationPolicy, EscalationTarget, NotificationChannel } from '@/utils/notifications';
+
+interface EscalationUser {
+  id: string;
+  name: string;
+}
+
+interface EscalationPolicyDialogProps {
+  open: boolean;
+  policy: EscalationPolicy | null;
+  channels: NotificationChannel[];
+  users: EscalationUser[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Tell whoever owns the alert straight away, then pull in on-call if nobody acknowledges within 15 minutes
+const DEFAULT_VALUES: EscalationPolicyFormData = {
+  name: '',
+  enabled: true,
+  severities: ['warning', 'critical'],
+  onCallUserIds: [],
+  steps: [
+    { afterMinutes: 0, target: 'assignee', channelIds: [] },
+    { afterMinutes: 15, target: 'on_call', channelIds: [] },
+  ],
+};
+
+export default function EscalationPolicyDialog({
+  open,
+  policy,
+  channels,
+  users,
+  onClose,
+  onSaved,
+}: EscalationPolicyDialogProps) {
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<EscalationPolicyFormData>({
+    resolver: zodResolver(escalationPolicySchema),
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  const { fields, append, remove } = useFieldArray({ control, name: 'steps' });
+  const steps = watch('steps');
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    if (policy) {
+      const { id, ...values } = policy;
+      reset(values);
+    } else {
+      reset(DEFAULT_VALUES);
+    }
+  }, [open, policy, reset]);
+
+  const onSubmit = async (data: EscalationPolicyFormData) => {
+    try {
+      setError(null);
+      if (policy) {
+        await api.put(`/escalation-policies/${policy.id}`, data);
+      } else {
+        await api.post('/escalation-policies', data);
+      }
+      onSaved();
+      onClose();
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  const getName = (options: { id: string; name: string }[], id: string) =>
+    options.find((option) => option.id === id)?.name || id;
+
+  const lastStep = steps[steps.length - 1];
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <DialogTitle>{policy ? 'Edit Escalation Policy' : 'Add Escalation Policy'}</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Box display="flex" gap={2} alignItems="center">
+            <TextField
+              {...register('name')}
+              label="Name"
+              fullWidth
+              margin="normal"
+              error={!!errors.name}
+              helperText={errors.name?.message}
+            />
+            <Controller
+              name="enabled"
+              control={control}
+              render={({ field }) => (
+                <FormControlLabel
+                  control={<Switch checked={field.value} onChange={(e) => field.onChange(e.target.checked)} />}
+                  label="Enabled"
+                />
+              )}
+            />
+          </Box>
+
+          <Typography variant="subtitle2" mt={1}>
+            Applies to alerts of severity
+          </Typography>
+          <Controller
+            name="severities"
+            control={control}
+            render={({ field }) => (
+              <FormGroup row>
+                {ALERT_SEVERITIES.map((severity) => (
+                  <FormControlLabel
+                    key={severity}
+                    sx={{ textTransform: 'capitalize' }}
+                    control={
+                      <Checkbox
+                        checked={field.value.includes(severity)}
+                        onChange={(e) =>
+                          field.onChange(
+                            e.target.checked
+                              ? [...field.value, severity]
+                              : field.value.filter((item) => item !== severity)
+                          )
+                        }
+                      />
+                    }
+                    label={severity}
+                  />
+                ))}
+              </FormGroup>
+            )}
+          />
+          {errors.severities && <FormHelperText error>{errors.severities.message}</FormHelperText>}
+
+          <Controller
+            name="onCallUserIds"
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                select
+                label="On-call users"
+                fullWidth
+                margin="normal"
+                SelectProps={{
+                  multiple: true,
+                  renderValue: (selected) => (selected as string[]).map((id) => getName(users, id)).join(', '),
+                }}
+                error={!!errors.onCallUserIds}
+                helperText={errors.onCallUserIds?.message}
+              >
+                {users.map((user) => (
+                  <MenuItem key={user.id} value={user.id}>
+                    {user.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+          />
+
+          <Divider sx={{ my: 2 }} />
+          <Typography variant="subtitle1">Steps</Typography>
+          <Typography variant="body2" color="textSecondary" gutterBottom>
+            Each step runs if the alert is still unacknowledged that many minutes after it was raised. Email and SMS
+            channels go to each targeted user&apos;s own address and number.
+          </Typography>
+
+          {fields.map((item, index) => (
+            <Box key={item.id} display="flex" gap={2} alignItems="flex-start">
+              <TextField
+                {...register(`steps.${index}.afterMinutes`, { valueAsNumber: true })}
+                label="After (minutes)"
+                type="number"
+                margin="normal"
+                sx={{ minWidth: 140 }}
+                error={!!errors.steps?.[index]?.afterMinutes}
+                helperText={errors.steps?.[index]?.afterMinutes?.message}
+              />
+              <Controller
+                name={`steps.${index}.target`}
+                control={control}
+                render={({ field }) => (
+                  <TextField {...field} select label="Notify" margin="normal" sx={{ minWidth: 240 }}>
+                    {(Object.keys(ESCALATION_TARGETS) as EscalationTarget[]).map((target) => (
+                      <MenuItem key={target} value={target}>
+                        {ESCALATION_TARGETS[target]}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                )}
+              />
+              <Controller
+                name={`steps.${index}.channelIds`}
+                control={control}
+                render={({ field }) => (
+                  <TextField
+                    {...field}
+                    select
+                    label="Through"
+                    fullWidth
+                    margin="normal"
+                    SelectProps={{
+                      multiple: true,
+                      renderValue: (selected) =>
+                        (selected as string[]).map((id) => getName(channels, id)).join(', '),
+                    }}
+                    error={!!errors.steps?.[index]?.channelIds}
+                    helperText={
+                      errors.steps?.[index]?.channelIds?.message ||
+                      (channels.length === 0 ? 'Add a notification channel first' : undefined)
+                    }
+                  >
+                    {channels.map((channel) => (
+                      <MenuItem key={channel.id} value={channel.id} disabled={!channel.enabled}>
+                        {channel.enabled ? channel.name : `${channel.name} (disabled)`}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                )}
+              />
+              <IconButton onClick={() => remove(index)} disabled={fields.length === 1} sx={{ mt: 3 }}>
+                <CloseIcon />
+              </IconButton>
+            </Box>
+          ))}
+          {errors.steps?.message && <FormHelperText error>{errors.steps.message}</FormHelperText>}
+          <Button
+            startIcon={<AddIcon />}
+            onClick={() =>
+              append({
+                afterMinutes: (lastStep?.afterMinutes || 0) + 15,
+                target: 'on_call',
+                channelIds: lastStep?.channelIds || [],
+              })
+            }
+          >
+            Add step
+          </Button>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={isSubmitting}>
+            {policy ? 'Update' : 'Create'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
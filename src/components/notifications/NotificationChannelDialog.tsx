@@ -0,0 +1,430 @@
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControlLabel,
+  FormGroup,
+  FormHelperText,
+  MenuItem,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import axios from 'axios';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import api, { handleApiError } from '@/utils/api';
+import { splitList } from '@/schemas/sso';
+import { notificationChannelSchema, NotificationChannelFormData } from '@/schemas/notificationChannel';
+import {
+  CHANNEL_TYPES,
+  ChannelType,
+  DEFAULT_SMS_TEMPLATE,
+  isLocalUrl,
+  NOTIFICATION_EVENT_KEYS,
+  NOTIFICATION_EVENTS,
+  NotificationChannel,
+} from '@/utils/notifications';
+import {
+  generateWebhookSecret,
+  PreparedTestDelivery,
+  sendBrowserTestWebhook,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '@/utils/webhooks';
+
+interface NotificationChannelDialogProps {
+  open: boolean;
+  channel: NotificationChannel | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const DEFAULT_VALUES: NotificationChannelFormData = {
+  name: '',
+  type: 'email',
+  enabled: true,
+  events: ['alert_raised', 'alert_escalated'],
+  recipients: '',
+  url: '',
+  format: 'slack',
+  smtpHost: '',
+  smtpPort: 587,
+  smtpSecurity: 'starttls',
+  smtpUsername: '',
+  fromAddress: '',
+  sender: '',
+  bodyTemplate: DEFAULT_SMS_TEMPLATE,
+  secret: '',
+};
+
+const SECRET_LABELS: Partial<Record<ChannelType, string>> = {
+  email: 'SMTP password',
+  webhook: 'Signing secret',
+  sms: 'Gateway token',
+};
+
+/** Only the settings of the selected type are sent, inside `config` */
+const toPayload = (data: NotificationChannelFormData) => {
+  const { name, type, enabled, events, secret } = data;
+  const config =
+    type === 'email'
+      ? {
+          recipients: splitList(data.recipients),
+          smtpHost: data.smtpHost,
+          smtpPort: data.smtpPort,
+          smtpSecurity: data.smtpSecurity,
+          smtpUsername: data.smtpUsername,
+          fromAddress: data.fromAddress,
+        }
+      : type === 'webhook'
+        ? { url: data.url }
+        : type === 'slack'
+          ? { url: data.url, format: data.format }
+          : {
+              url: data.url,
+              recipients: splitList(data.recipients),
+              sender: data.sender,
+              bodyTemplate: data.bodyTemplate,
+            };
+  return {
+    name,
+    type,
+    enabled,
+    events,
+    config,
+    // Only sent when changed, since the stored secret is never read back
+    ...(secret ? { secret } : {}),
+  };
+};
+
+export default function NotificationChannelDialog({ open, channel, onClose, onSaved }: NotificationChannelDialogProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    watch,
+    getValues,
+    setValue,
+    trigger,
+    setError: setFieldError,
+    formState: { errors, isSubmitting },
+  } = useForm<NotificationChannelFormData>({
+    resolver: zodResolver(notificationChannelSchema),
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    setTestResult(null);
+    if (channel) {
+      const { id, hasSecret, lastTestAt, lastTestOk, recipients, ...values } = channel;
+      reset({ ...DEFAULT_VALUES, ...values, recipients: recipients.join(', '), secret: '' });
+    } else {
+      reset(DEFAULT_VALUES);
+    }
+  }, [open, channel, reset]);
+
+  const type = watch('type');
+  const url = watch('url');
+  const hasStoredSecret = !!channel?.hasSecret && channel.type === type;
+  const testsFromBrowser = (type === 'webhook' || type === 'slack') && isLocalUrl(url);
+
+  // A signing secret is required; SMTP and gateway credentials are optional
+  const checkSecret = (data: NotificationChannelFormData) => {
+    if (data.type === 'webhook' && !data.secret && !hasStoredSecret) {
+      setFieldError('secret', { message: 'Generate or enter a signing secret' });
+      return false;
+    }
+    return true;
+  };
+
+  const handleTest = async () => {
+    if (!(await trigger())) return;
+    const data = getValues();
+    if (!checkSecret(data)) return;
+
+    try {
+      setTesting(true);
+      setTestResult(null);
+      if (testsFromBrowser) {
+        // The API signs the delivery, with the stored secret if none was entered, and the browser sends it
+        const response = await api.post('/notification-channels/test/prepare', {
+          ...toPayload(data),
+          id: channel?.id,
+        });
+        const delivery: PreparedTestDelivery = response.data.data || response.data;
+        const status = await sendBrowserTestWebhook(data.url, delivery);
+        setTestResult({ ok: true, message: `Sent from this browser; the receiver answered ${status}.` });
+      } else {
+        // The channel id lets the API fall back to the stored secret
+        const response = await api.post('/notification-channels/test', { ...toPayload(data), id: channel?.id });
+        const result = response.data.data || response.data;
+        setTestResult({ ok: true, message: result.message || 'Test notification sent.' });
+      }
+    } catch (error) {
+      const message = axios.isAxiosError(error) || !(error instanceof Error) ? handleApiError(error) : error.message;
+      setTestResult({ ok: false, message });
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const onSubmit = async (data: NotificationChannelFormData) => {
+    if (!checkSecret(data)) return;
+    try {
+      setError(null);
+      if (channel) {
+        await api.put(`/notification-channels/${channel.id}`, toPayload(data));
+      } else {
+        await api.post('/notification-channels', toPayload(data));
+      }
+      onSaved();
+      onClose();
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  const textField = (
+    name: 'recipients' | 'url' | 'smtpHost' | 'smtpUsername' | 'fromAddress' | 'sender',
+    label: string,
+    helperText?: string
+  ) => (
+    <TextField
+      {...register(name)}
+      label={label}
+      fullWidth
+      margin="normal"
+      error={!!errors[name]}
+      helperText={errors[name]?.message || helperText}
+    />
+  );
+
+  const secretLabel = SECRET_LABELS[type];
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <DialogTitle>{channel ? 'Edit Notification Channel' : 'Add Notification Channel'}</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Box display="flex" gap={2} alignItems="center">
+            <TextField
+              {...register('name')}
+              label="Name"
+              fullWidth
+              margin="normal"
+              error={!!errors.name}
+              helperText={errors.name?.message}
+            />
+            <Controller
+              name="type"
+              control={control}
+              render={({ field }) => (
+                <TextField
+                  {...field}
+                  select
+                  label="Type"
+                  margin="normal"
+                  sx={{ minWidth: 200 }}
+                  disabled={!!channel}
+                  helperText={channel ? 'Cannot be changed' : undefined}
+                >
+                  {(Object.keys(CHANNEL_TYPES) as ChannelType[]).map((channelType) => (
+                    <MenuItem key={channelType} value={channelType}>
+                      {CHANNEL_TYPES[channelType]}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+            />
+            <Controller
+              name="enabled"
+              control={control}
+              render={({ field }) => (
+                <FormControlLabel
+                  control={<Switch checked={field.value} onChange={(e) => field.onChange(e.target.checked)} />}
+                  label="Enabled"
+                />
+              )}
+            />
+          </Box>
+
+          {type === 'email' && (
+            <>
+              <Box display="flex" gap={2}>
+                {textField('smtpHost', 'SMTP host')}
+                <TextField
+                  {...register('smtpPort', { valueAsNumber: true })}
+                  label="Port"
+                  type="number"
+                  margin="normal"
+                  sx={{ minWidth: 120 }}
+                  error={!!errors.smtpPort}
+                  helperText={errors.smtpPort?.message}
+                />
+                <Controller
+                  name="smtpSecurity"
+                  control={control}
+                  render={({ field }) => (
+                    <TextField {...field} select label="Security" margin="normal" sx={{ minWidth: 160 }}>
+                      <MenuItem value="starttls">STARTTLS</MenuItem>
+                      <MenuItem value="tls">TLS</MenuItem>
+                      <MenuItem value="none">None</MenuItem>
+                    </TextField>
+                  )}
+                />
+              </Box>
+              <Box display="flex" gap={2}>
+                {textField('smtpUsername', 'SMTP username', 'Leave blank if the server needs no login')}
+                {textField('fromAddress', 'From address')}
+              </Box>
+              {textField('recipients', 'Recipients', 'Email addresses, separated by commas')}
+            </>
+          )}
+
+          {type === 'webhook' &&
+            textField(
+              'url',
+              'Webhook URL',
+              `Receives a signed JSON POST. ${WEBHOOK_SIGNATURE_HEADER} is sha256=HMAC-SHA256(secret, ` +
+                `${WEBHOOK_TIMESTAMP_HEADER} + "." + body).`
+            )}
+
+          {type === 'slack' && (
+            <Box display="flex" gap={2}>
+              {textField('url', 'Incoming webhook URL')}
+              <Controller
+                name="format"
+                control={control}
+                render={({ field }) => (
+                  <TextField {...field} select label="Format" margin="normal" sx={{ minWidth: 160 }}>
+                    <MenuItem value="slack">Slack</MenuItem>
+                    <MenuItem value="teams">Microsoft Teams</MenuItem>
+                  </TextField>
+                )}
+              />
+            </Box>
+          )}
+
+          {type === 'sms' && (
+            <>
+              {textField('url', 'Gateway URL', 'The API POSTs the body below once per recipient')}
+              <Box display="flex" gap={2}>
+                {textField('sender', 'Sender', 'Number or alphanumeric sender ID, if the gateway needs one')}
+                {textField('recipients', 'Recipients', 'Phone numbers in international format, separated by commas')}
+              </Box>
+              <TextField
+                {...register('bodyTemplate')}
+                label="Request body"
+                fullWidth
+                multiline
+                minRows={2}
+                margin="normal"
+                InputProps={{ sx: { fontFamily: 'monospace' } }}
+                error={!!errors.bodyTemplate}
+                helperText={errors.bodyTemplate?.message || 'Placeholders: {{to}}, {{from}} and {{message}}'}
+              />
+            </>
+          )}
+
+          {secretLabel && (
+            <Box display="flex" gap={2} alignItems="center">
+              <TextField
+                {...register('secret')}
+                label={secretLabel}
+                type={type === 'webhook' ? 'text' : 'password'}
+                autoComplete="new-password"
+                fullWidth
+                margin="normal"
+                error={!!errors.secret}
+                helperText={
+                  errors.secret?.message ||
+                  (hasStoredSecret
+                    ? 'Leave blank to keep the current value'
+                    : type === 'sms'
+                      ? 'Sent as a Bearer token'
+                      : undefined)
+                }
+              />
+              {type === 'webhook' && (
+                <Button onClick={() => setValue('secret', generateWebhookSecret())}>Generate</Button>
+              )}
+            </Box>
+          )}
+
+          <Divider sx={{ my: 2 }} />
+          <Typography variant="subtitle1">Events</Typography>
+          <Controller
+            name="events"
+            control={control}
+            render={({ field }) => (
+              <FormGroup row>
+                {NOTIFICATION_EVENT_KEYS.map((event) => (
+                  <FormControlLabel
+                    key={event}
+                    control={
+                      <Checkbox
+                        checked={field.value.includes(event)}
+                        onChange={(e) =>
+                          field.onChange(
+                            e.target.checked ? [...field.value, event] : field.value.filter((item) => item !== event)
+                          )
+                        }
+                      />
+                    }
+                    label={NOTIFICATION_EVENTS[event]}
+                  />
+                ))}
+              </FormGroup>
+            )}
+          />
+          {errors.events && <FormHelperText error>{errors.events.message}</FormHelperText>}
+
+          <Divider sx={{ my: 2 }} />
+          <Box display="flex" alignItems="center" gap={2}>
+            <Button variant="outlined" onClick={handleTest} disabled={testing}>
+              {testing ? <CircularProgress size={24} /> : 'Send test'}
+            </Button>
+            <Typography variant="body2" color="textSecondary">
+              {testsFromBrowser
+                ? 'Local receivers are tested from this browser, so they must allow CORS from this panel.'
+                : 'Uses the settings above, even before they are saved.'}
+            </Typography>
+          </Box>
+          {testResult && (
+            <Alert severity={testResult.ok ? 'success' : 'error'} sx={{ mt: 2 }}>
+              {testResult.message}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={isSubmitting}>
+            {channel ? 'Update' : 'Create'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
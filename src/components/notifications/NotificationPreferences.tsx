@@ -0,0 +1,247 @@
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  CircularProgress,
+  FormControlLabel,
+  FormGroup,
+  MenuItem,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import api, { handleApiError } from '@/utils/api';
+import { ALERT_SEVERITIES } from '@/utils/alertRules';
+import { NOTIFICATION_EVENT_KEYS, NOTIFICATION_EVENTS } from '@/utils/notifications';
+import {
+  notificationPreferencesSchema,
+  NotificationPreferencesFormData,
+} from '@/schemas/notificationPreferences';
+
+const getBrowserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const DEFAULT_VALUES: NotificationPreferencesFormData = {
+  events: ['alert_raised', 'alert_escalated'],
+  email: { enabled: true, minSeverity: 'warning' },
+  sms: { enabled: false, minSeverity: 'critical', phone: '' },
+  quietHours: { enabled: false, start: '22:00', end: '07:00', timezone: 'UTC', allowCritical: true },
+};
+
+/** The signed-in user's own deliveries: events, email and SMS, and quiet hours */
+export default function NotificationPreferences() {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<NotificationPreferencesFormData>({
+    resolver: zodResolver(notificationPreferencesSchema),
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        const response = await api.get('/auth/me/notification-preferences');
+        const data = response.data.data || response.data;
+        const quietHours = data.quiet_hours || data.quietHours || {};
+        reset({
+          events: data.events || DEFAULT_VALUES.events,
+          email: {
+            enabled: data.email?.enabled ?? DEFAULT_VALUES.email.enabled,
+            minSeverity: data.email?.min_severity || data.email?.minSeverity || DEFAULT_VALUES.email.minSeverity,
+          },
+          sms: {
+            enabled: !!data.sms?.enabled,
+            minSeverity: data.sms?.min_severity || data.sms?.minSeverity || DEFAULT_VALUES.sms.minSeverity,
+            phone: data.sms?.phone || '',
+          },
+          quietHours: {
+            enabled: !!quietHours.enabled,
+            start: quietHours.start || DEFAULT_VALUES.quietHours.start,
+            end: quietHours.end || DEFAULT_VALUES.quietHours.end,
+            timezone: quietHours.timezone || getBrowserTimezone(),
+            allowCritical: quietHours.allow_critical ?? quietHours.allowCritical ?? true,
+          },
+        });
+      } catch (error) {
+        setError(handleApiError(error));
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchPreferences();
+  }, [reset]);
+
+  const emailEnabled = watch('email.enabled');
+  const smsEnabled = watch('sms.enabled');
+  const quietHoursEnabled = watch('quietHours.enabled');
+
+  const onSubmit = async (data: NotificationPreferencesFormData) => {
+    try {
+      setError(null);
+      await api.put('/auth/me/notification-preferences', data);
+      setSuccess('Notification preferences saved');
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  const severitySelect = (name: 'email.minSeverity' | 'sms.minSeverity', disabled: boolean) => (
+    <Controller
+      name={name}
+      control={control}
+      render={({ field }) => (
+        <TextField {...field} select size="small" label="Minimum severity" disabled={disabled} sx={{ minWidth: 180 }}>
+          {ALERT_SEVERITIES.map((severity) => (
+            <MenuItem key={severity} value={severity} sx={{ textTransform: 'capitalize' }}>
+              {severity}
+            </MenuItem>
+          ))}
+        </TextField>
+      )}
+    />
+  );
+
+  const enabledSwitch = (
+    name: 'email.enabled' | 'sms.enabled' | 'quietHours.enabled' | 'quietHours.allowCritical',
+    label: string,
+    disabled = false
+  ) => (
+    <Controller
+      name={name}
+      control={control}
+      render={({ field }) => (
+        <FormControlLabel
+          control={
+            <Switch checked={field.value} onChange={(e) => field.onChange(e.target.checked)} disabled={disabled} />
+          }
+          label={label}
+        />
+      )}
+    />
+  );
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" py={2}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)}>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }}>
+          {success}
+        </Alert>
+      )}
+
+      <Typography variant="subtitle2">Notify me about</Typography>
+      <Controller
+        name="events"
+        control={control}
+        render={({ field }) => (
+          <FormGroup>
+            {NOTIFICATION_EVENT_KEYS.map((event) => (
+              <FormControlLabel
+                key={event}
+                control={
+                  <Checkbox
+                    checked={field.value.includes(event)}
+                    onChange={(e) =>
+                      field.onChange(
+                        e.target.checked ? [...field.value, event] : field.value.filter((item) => item !== event)
+                      )
+                    }
+                  />
+                }
+                label={NOTIFICATION_EVENTS[event]}
+              />
+            ))}
+          </FormGroup>
+        )}
+      />
+
+      <Box display="flex" alignItems="center" gap={2} mt={2}>
+        <Box minWidth={120}>{enabledSwitch('email.enabled', 'Email')}</Box>
+        {severitySelect('email.minSeverity', !emailEnabled)}
+      </Box>
+      <Box display="flex" alignItems="flex-start" gap={2} mt={2}>
+        <Box minWidth={120}>{enabledSwitch('sms.enabled', 'SMS')}</Box>
+        {severitySelect('sms.minSeverity', !smsEnabled)}
+        <TextField
+          {...register('sms.phone')}
+          size="small"
+          label="Mobile number"
+          placeholder="+4915112345678"
+          disabled={!smsEnabled}
+          error={!!errors.sms?.phone}
+          helperText={errors.sms?.phone?.message}
+        />
+      </Box>
+
+      <Typography variant="subtitle2" mt={3}>
+        Quiet hours
+      </Typography>
+      <Typography variant="body2" color="textSecondary" gutterBottom>
+        No email or SMS is sent to you in this window; the panel and shared channels are not affected.
+      </Typography>
+      {enabledSwitch('quietHours.enabled', 'Enable quiet hours')}
+      <Box display="flex" gap={2} mt={1}>
+        <TextField
+          {...register('quietHours.start')}
+          size="small"
+          type="time"
+          label="From"
+          InputLabelProps={{ shrink: true }}
+          disabled={!quietHoursEnabled}
+          error={!!errors.quietHours?.start}
+          helperText={errors.quietHours?.start?.message}
+        />
+        <TextField
+          {...register('quietHours.end')}
+          size="small"
+          type="time"
+          label="Until"
+          InputLabelProps={{ shrink: true }}
+          disabled={!quietHoursEnabled}
+          error={!!errors.quietHours?.end}
+          helperText={errors.quietHours?.end?.message}
+        />
+        <TextField
+          {...register('quietHours.timezone')}
+          size="small"
+          label="Timezone"
+          disabled={!quietHoursEnabled}
+          error={!!errors.quietHours?.timezone}
+          helperText={errors.quietHours?.timezone?.message}
+        />
+      </Box>
+      {enabledSwitch('quietHours.allowCritical', 'Still send critical alerts', !quietHoursEnabled)}
+
+      <Box mt={2}>
+        <Button type="submit" variant="contained" disabled={isSubmitting}>
+          Save preferences
+        </Button>
+      </Box>
+    </form>
+  );
+}
@@ -0,0 +1,215 @@
+import { ChangeEvent, useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  CheckCircle as CheckCircleIcon,
+  Error as ErrorIcon,
+  RemoveCircleOutline as RemoveCircleOutlineIcon,
+} from '@mui/icons-material';
+import api, { handleApiError } from '@/utils/api';
+import { getPayloadFields, getValueAtPath, JsonSchema } from '@/utils/payloadSchema';
+import { pointerToPath, validatePayload } from '@/utils/schemaValidation';
+
+interface PayloadTesterProps {
+  deviceId: string;
+  // The schema currently being edited, or null when it does not parse
+  schema: JsonSchema | null;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export default function PayloadTester({ deviceId, schema }: PayloadTesterProps) {
+  const [sample, setSample] = useState('');
+  const [loadingLast, setLoadingLast] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const parsedSample = useMemo(() => {
+    if (!sample.trim()) return { value: undefined, error: null };
+    try {
+      return { value: JSON.parse(sample) as unknown, error: null };
+    } catch (error) {
+      return { value: undefined, error: error instanceof Error ? error.message : 'Invalid JSON' };
+    }
+  }, [sample]);
+
+  const result = useMemo(() => {
+    if (!schema || parsedSample.value === undefined) return null;
+    try {
+      return { errors: validatePayload(schema, parsedSample.value), compileError: null };
+    } catch (error) {
+      return { errors: [], compileError: error instanceof Error ? error.message : 'Schema does not compile' };
+    }
+  }, [schema, parsedSample.value]);
+
+  const fields = useMemo(() => getPayloadFields(schema), [schema]);
+
+  const errorsByPath = useMemo(() => {
+    const grouped: Record<string, string[]> = {};
+    result?.errors.forEach((error) => {
+      const path = pointerToPath(error.path);
+      grouped[path] = [...(grouped[path] || []), error.message];
+    });
+    return grouped;
+  }, [result]);
+
+  // Errors on paths the schema doesn't declare as fields (root, array items, extra properties)
+  const otherErrors = useMemo(
+    () => result?.errors.filter((error) => !fields.some((field) => field.path === pointerToPath(error.path))) || [],
+    [result, fields]
+  );
+
+  const loadLastPayload = async () => {
+    try {
+      setLoadingLast(true);
+      setLoadError(null);
+      const response = await api.get(`/devices/${deviceId}/readings/latest`);
+      const payload = response.data?.payload ?? response.data;
+      setSample(JSON.stringify(payload, null, 2));
+    } catch (error) {
+      setLoadError(handleApiError(error));
+    } finally {
+      setLoadingLast(false);
+    }
+  };
+
+  const loadFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => setSample(String(reader.result));
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        Try It
+      </Typography>
+      <Typography variant="body2" color="textSecondary" paragraph>
+        Check a sample payload against the schema as edited, before saving it.
+      </Typography>
+
+      <Box display="flex" gap={1} mb={2} flexWrap="wrap">
+        <Button size="small" variant="outlined" onClick={loadLastPayload} disabled={loadingLast}>
+          {loadingLast ? <CircularProgress size={20} /> : 'Load last received'}
+        </Button>
+        <Button size="small" variant="outlined" onClick={() => fileInputRef.current?.click()}>
+          Load file
+        </Button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" hidden onChange={loadFile} />
+        <Button size="small" onClick={() => setSample('')} disabled={!sample}>
+          Clear
+        </Button>
+      </Box>
+
+      {loadError && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {loadError}
+        </Alert>
+      )}
+
+      <TextField
+        multiline
+        rows={10}
+        fullWidth
+        placeholder='{ "temperature": 4.2 }'
+        value={sample}
+        onChange={(e) => setSample(e.target.value)}
+        error={!!parsedSample.error}
+        helperText={parsedSample.error}
+        sx={{ '& .MuiInputBase-root': { fontFamily: 'monospace' } }}
+      />
+
+      {!schema && sample && (
+        <Alert severity="info" sx={{ mt: 2 }}>
+          Fix the schema JSON to validate the sample.
+        </Alert>
+      )}
+
+      {result?.compileError && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          {result.compileError}
+        </Alert>
+      )}
+
+      {result && !result.compileError && (
+        <>
+          <Alert severity={result.errors.length === 0 ? 'success' : 'error'} sx={{ mt: 2 }}>
+            {result.errors.length === 0
+              ? 'The sample payload matches the schema'
+              : `${result.errors.length} validation error${result.errors.length === 1 ? '' : 's'}`}
+          </Alert>
+
+          {fields.length > 0 && (
+            <Table size="small" sx={{ mt: 2 }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={{ fontWeight: 'bold' }}>Field</TableCell>
+                  <TableCell sx={{ fontWeight: 'bold' }}>Value</TableCell>
+                  <TableCell sx={{ fontWeight: 'bold' }}>Result</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {fields.map((field) => {
+                  const value = getValueAtPath(parsedSample.value, field.path);
+                  const fieldErrors = errorsByPath[field.path];
+                  return (
+                    <TableRow
+                      key={field.path}
+                      sx={fieldErrors ? { backgroundColor: 'rgba(211, 47, 47, 0.08)' } : undefined}
+                    >
+                      <TableCell sx={{ fontFamily: 'monospace' }}>/{field.path.split('.').join('/')}</TableCell>
+                      <TableCell sx={{ fontFamily: 'monospace' }}>{formatValue(value)}</TableCell>
+                      <TableCell>
+                        {fieldErrors ? (
+                          <Box display="flex" alignItems="center" gap={0.5} color="error.main">
+                            <ErrorIcon fontSize="small" />
+                            {fieldErrors.join(', ')}
+                          </Box>
+                        ) : value === undefined ? (
+                          <RemoveCircleOutlineIcon fontSize="small" color="disabled" />
+                        ) : (
+                          <CheckCircleIcon fontSize="small" color="success" />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          {otherErrors.length > 0 && (
+            <Box mt={2}>
+              {otherErrors.map((error, index) => (
+                <Box key={index} display="flex" alignItems="center" gap={1} mb={0.5}>
+                  <Chip label={error.path} size="small" color="error" variant="outlined" sx={{ fontFamily: 'monospace' }} />
+                  <Typography variant="body2">{error.message}</Typography>
+                </Box>
+              ))}
+            </Box>
+          )}
+        </>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,226 @@
+import {
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  FormControlLabel,
+  IconButton,
+  MenuItem,
+  Paper,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import {
+  createSchemaField,
+  hasInvalidRange,
+  JsonSchemaType,
+  SCHEMA_FIELD_TYPES,
+  SchemaFieldDefinition,
+} from '@/utils/payloadSchema';
+
+interface SchemaBuilderProps {
+  fields: SchemaFieldDefinition[];
+  onChange: (fields: SchemaFieldDefinition[]) => void;
+  disabled?: boolean;
+  depth?: number;
+}
+
+const isNumeric = (type: JsonSchemaType) => type === 'number' || type === 'integer';
+
+export default function SchemaBuilder({ fields, onChange, disabled, depth = 0 }: SchemaBuilderProps) {
+  const updateField = (id: string, changes: Partial<SchemaFieldDefinition>) => {
+    onChange(fields.map((field) => (field.id === id ? { ...field, ...changes } : field)));
+  };
+
+  const removeField = (id: string) => {
+    onChange(fields.filter((field) => field.id !== id));
+  };
+
+  const addField = () => {
+    onChange([...fields, createSchemaField()]);
+  };
+
+  const duplicateNames = new Set(
+    fields
+      .map((field) => field.name.trim())
+      .filter((name, index, names) => name && names.indexOf(name) !== index)
+  );
+
+  return (
+    <Box sx={{ pl: depth > 0 ? 3 : 0, borderLeft: depth > 0 ? 2 : 0, borderColor: 'divider' }}>
+      {fields.length === 0 && (
+        <Typography variant="body2" color="textSecondary" sx={{ mb: 1 }}>
+          {depth > 0 ? 'No nested fields yet.' : 'No fields yet. Add the first field of the payload.'}
+        </Typography>
+      )}
+
+      {fields.map((field) => {
+        const nameError = !field.name.trim()
+          ? 'Name is required'
+          : duplicateNames.has(field.name.trim())
+          ? 'Duplicate field name'
+          : undefined;
+        const rangeError = hasInvalidRange(field) ? 'Min is greater than max' : undefined;
+
+        const nameInput = (
+          <TextField
+            size="small"
+            label="Name"
+            value={field.name}
+            onChange={(e) => updateField(field.id, { name: e.target.value })}
+            error={!!nameError}
+            helperText={nameError}
+            disabled={disabled}
+            sx={{ width: 180 }}
+          />
+        );
+        const requiredInput = (
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={field.required}
+                onChange={(e) => updateField(field.id, { required: e.target.checked })}
+                disabled={disabled}
+              />
+            }
+            label="Required"
+          />
+        );
+        const removeButton = (
+          <Tooltip title="Remove field">
+            <span>
+              <IconButton color="error" onClick={() => removeField(field.id)} disabled={disabled}>
+                <DeleteIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+        );
+
+        // Only the name and required flag of raw properties are editable; the rest is kept as loaded
+        if (field.raw) {
+          return (
+            <Paper key={field.id} variant="outlined" sx={{ p: 2, mb: 1 }}>
+              <Box display="flex" gap={1} flexWrap="wrap" alignItems="flex-start">
+                {nameInput}
+                <Tooltip title="Uses keywords the builder can't edit, so it is saved unchanged">
+                  <Chip label="Raw schema" size="small" sx={{ mt: 1 }} />
+                </Tooltip>
+                {requiredInput}
+                <Box flexGrow={1} />
+                {removeButton}
+              </Box>
+              <Typography
+                component="pre"
+                variant="body2"
+                sx={{ mt: 1, mb: 0, fontFamily: 'monospace', whiteSpace: 'pre-wrap', color: 'text.secondary' }}
+              >
+                {JSON.stringify(field.raw, null, 2)}
+              </Typography>
+            </Paper>
+          );
+        }
+
+        return (
+          <Paper key={field.id} variant="outlined" sx={{ p: 2, mb: 1 }}>
+            <Box display="flex" gap={1} flexWrap="wrap" alignItems="flex-start">
+              {nameInput}
+              <TextField
+                size="small"
+                select
+                label="Type"
+                value={field.type}
+                onChange={(e) => updateField(field.id, { type: e.target.value as JsonSchemaType })}
+                disabled={disabled}
+                sx={{ width: 130 }}
+              >
+                {SCHEMA_FIELD_TYPES.map((type) => (
+                  <MenuItem key={type} value={type}>
+                    {type}
+                  </MenuItem>
+                ))}
+              </TextField>
+              {field.type === 'array' && (
+                <TextField
+                  size="small"
+                  select
+                  label="Item type"
+                  value={field.itemType}
+                  onChange={(e) => updateField(field.id, { itemType: e.target.value as JsonSchemaType })}
+                  disabled={disabled}
+                  sx={{ width: 130 }}
+                >
+                  {SCHEMA_FIELD_TYPES.map((type) => (
+                    <MenuItem key={type} value={type}>
+                      {type}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+              {isNumeric(field.type) && (
+                <>
+                  <TextField
+                    size="small"
+                    label="Unit"
+                    value={field.unit}
+                    onChange={(e) => updateField(field.id, { unit: e.target.value })}
+                    disabled={disabled}
+                    sx={{ width: 90 }}
+                  />
+                  <TextField
+                    size="small"
+                    type="number"
+                    label="Min"
+                    value={field.minimum}
+                    onChange={(e) => updateField(field.id, { minimum: e.target.value })}
+                    error={!!rangeError}
+                    helperText={rangeError}
+                    disabled={disabled}
+                    sx={{ width: 100 }}
+                  />
+                  <TextField
+                    size="small"
+                    type="number"
+                    label="Max"
+                    value={field.maximum}
+                    onChange={(e) => updateField(field.id, { maximum: e.target.value })}
+                    error={!!rangeError}
+                    disabled={disabled}
+                    sx={{ width: 100 }}
+                  />
+                </>
+              )}
+              {requiredInput}
+              <Box flexGrow={1} />
+              {removeButton}
+            </Box>
+            <TextField
+              size="small"
+              label="Description"
+              value={field.description}
+              onChange={(e) => updateField(field.id, { description: e.target.value })}
+              disabled={disabled}
+              fullWidth
+              sx={{ mt: 1 }}
+            />
+            {field.type === 'object' && (
+              <Box mt={2}>
+                <SchemaBuilder
+                  fields={field.children}
+                  onChange={(children) => updateField(field.id, { children })}
+                  disabled={disabled}
+                  depth={depth + 1}
+                />
+              </Box>
+            )}
+          </Paper>
+        );
+      })}
+
+      <Button startIcon={<AddIcon />} onClick={addField} disabled={disabled} size="small">
+        {depth > 0 ? 'Add nested field' : 'Add field'}
+      </Button>
+    </Box>
+  );
+}
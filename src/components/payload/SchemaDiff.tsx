@@ -0,0 +1,91 @@
+import {
+  Box,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { SchemaChange } from '@/utils/payloadSchema';
+
+interface SchemaDiffProps {
+  changes: SchemaChange[];
+  beforeLabel?: string;
+  afterLabel?: string;
+}
+
+const KIND_COLORS = {
+  added: 'success',
+  removed: 'error',
+  changed: 'warning',
+} as const;
+
+const ROW_BACKGROUNDS = {
+  added: 'rgba(46, 125, 50, 0.08)',
+  removed: 'rgba(211, 47, 47, 0.08)',
+  changed: 'rgba(237, 108, 2, 0.08)',
+};
+
+const formatKeywordValue = (value: unknown) =>
+  value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value);
+
+const renderKeywords = (keywords: Record<string, unknown> | undefined) => {
+  if (!keywords) return '—';
+  return (
+    <Box sx={{ fontFamily: 'monospace', fontSize: 13 }}>
+      {Object.entries(keywords).map(([keyword, value]) => (
+        <Box key={keyword}>
+          {keyword}: {formatKeywordValue(value)}
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+export default function SchemaDiff({ changes, beforeLabel = 'Before', afterLabel = 'After' }: SchemaDiffProps) {
+  if (changes.length === 0) {
+    return (
+      <Typography variant="body2" color="textSecondary">
+        No structural differences.
+      </Typography>
+    );
+  }
+
+  return (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell sx={{ fontWeight: 'bold' }}>Field</TableCell>
+          <TableCell sx={{ fontWeight: 'bold' }}>Change</TableCell>
+          <TableCell sx={{ fontWeight: 'bold' }}>{beforeLabel}</TableCell>
+          <TableCell sx={{ fontWeight: 'bold' }}>{afterLabel}</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {changes.map((change) => {
+          const changedKeywords = Object.keys(change.changes);
+          return (
+            <TableRow key={change.path} sx={{ backgroundColor: ROW_BACKGROUNDS[change.kind] }}>
+              <TableCell sx={{ fontFamily: 'monospace' }}>{change.path}</TableCell>
+              <TableCell>
+                <Chip label={change.kind} size="small" color={KIND_COLORS[change.kind]} />
+              </TableCell>
+              <TableCell>
+                {change.kind === 'changed'
+                  ? renderKeywords(Object.fromEntries(changedKeywords.map((k) => [k, change.changes[k][0]])))
+                  : renderKeywords(change.before)}
+              </TableCell>
+              <TableCell>
+                {change.kind === 'changed'
+                  ? renderKeywords(Object.fromEntries(changedKeywords.map((k) => [k, change.changes[k][1]])))
+                  : renderKeywords(change.after)}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
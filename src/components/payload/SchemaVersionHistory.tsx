@@ -0,0 +1,198 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Paper,
+  Radio,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Restore as RestoreIcon } from '@mui/icons-material';
+import api, { handleApiError } from '@/utils/api';
+import PermissionGate from '@/components/PermissionGate';
+import { diffSchemas, JsonSchema } from '@/utils/payloadSchema';
+import SchemaDiff from '@/components/payload/SchemaDiff';
+
+interface SchemaVersion {
+  id: string;
+  version: number;
+  schema: JsonSchema;
+  comment: string;
+  author: string;
+  createdAt: string;
+}
+
+interface SchemaVersionHistoryProps {
+  deviceId: string;
+  // Bumped by the parent after each save so the list reloads
+  refreshKey: number;
+  onRolledBack: (schema: JsonSchema) => void;
+}
+
+const formatAuthor = (author: any): string => {
+  if (!author) return 'unknown';
+  if (typeof author === 'string') return author;
+  return author.email || [author.first_name || author.firstName, author.last_name || author.lastName].filter(Boolean).join(' ');
+};
+
+export default function SchemaVersionHistory({ deviceId, refreshKey, onRolledBack }: SchemaVersionHistoryProps) {
+  const [versions, setVersions] = useState<SchemaVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [compareFrom, setCompareFrom] = useState<string | null>(null);
+  const [compareTo, setCompareTo] = useState<string | null>(null);
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [deviceId, refreshKey]);
+
+  const fetchVersions = async () => {
+    try {
+      setLoading(true);
+      const response = await api.get(`/devices/${deviceId}/payload-schema/versions`);
+      const data = Array.isArray(response.data) ? response.data : response.data.data;
+      const mapped: SchemaVersion[] = (data || [])
+        .map((version: any) => ({
+          id: version.id,
+          version: version.version,
+          schema: version.schema,
+          comment: version.comment || '',
+          author: formatAuthor(version.created_by || version.createdBy || version.author),
+          createdAt: version.created_at || version.createdAt,
+        }))
+        .sort((a: SchemaVersion, b: SchemaVersion) => b.version - a.version);
+      setVersions(mapped);
+      // Compare the latest version with its predecessor by default
+      setCompareTo(mapped[0]?.id ?? null);
+      setCompareFrom(mapped[1]?.id ?? null);
+      setError(null);
+    } catch (error) {
+      setError(handleApiError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRollback = async (version: SchemaVersion) => {
+    if (!window.confirm(`Roll back the payload schema to version ${version.version}?`)) return;
+
+    try {
+      setRollingBack(version.id);
+      // A rollback is a regular update, so it is recorded as a new version
+      await api.patch(`/devices/${deviceId}/payload-schema`, {
+        schema: version.schema,
+        comment: `Rolled back to version ${version.version}`,
+      });
+      onRolledBack(version.schema);
+    } catch (error) {
+      setError(handleApiError(error));
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  const fromVersion = versions.find((version) => version.id === compareFrom);
+  const toVersion = versions.find((version) => version.id === compareTo);
+  const changes = useMemo(
+    () => (fromVersion && toVersion ? diffSchemas(fromVersion.schema, toVersion.schema) : []),
+    [fromVersion, toVersion]
+  );
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        Version History
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" p={2}>
+          <CircularProgress />
+        </Box>
+      ) : versions.length === 0 ? (
+        <Typography variant="body2" color="textSecondary">
+          No previous versions of this schema.
+        </Typography>
+      ) : (
+        <>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 'bold' }}>From</TableCell>
+                <TableCell sx={{ fontWeight: 'bold' }}>To</TableCell>
+                <TableCell sx={{ fontWeight: 'bold' }}>Version</TableCell>
+                <TableCell sx={{ fontWeight: 'bold' }}>Author</TableCell>
+                <TableCell sx={{ fontWeight: 'bold' }}>Date</TableCell>
+                <TableCell sx={{ fontWeight: 'bold' }}>Comment</TableCell>
+                <TableCell align="right" sx={{ fontWeight: 'bold' }}>Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {versions.map((version, index) => (
+                <TableRow key={version.id} hover>
+                  <TableCell padding="checkbox">
+                    <Radio
+                      size="small"
+                      checked={compareFrom === version.id}
+                      onChange={() => setCompareFrom(version.id)}
+                    />
+                  </TableCell>
+                  <TableCell padding="checkbox">
+                    <Radio
+                      size="small"
+                      checked={compareTo === version.id}
+                      onChange={() => setCompareTo(version.id)}
+                    />
+                  </TableCell>
+                  <TableCell>v{version.version}{index === 0 && ' (current)'}</TableCell>
+                  <TableCell>{version.author}</TableCell>
+                  <TableCell>{version.createdAt ? new Date(version.createdAt).toLocaleString() : '-'}</TableCell>
+                  <TableCell>{version.comment || '-'}</TableCell>
+                  <TableCell align="right">
+                    {index > 0 && (
+                      <PermissionGate resource="payload_schemas" action="edit" disable>
+                        <Button
+                          size="small"
+                          startIcon={rollingBack === version.id ? <CircularProgress size={16} /> : <RestoreIcon />}
+                          onClick={() => handleRollback(version)}
+                          disabled={!!rollingBack}
+                        >
+                          Rollback
+                        </Button>
+                      </PermissionGate>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {fromVersion && toVersion && (
+            <Box mt={3}>
+              <Typography variant="subtitle1" gutterBottom>
+                Changes from v{fromVersion.version} to v{toVersion.version}
+              </Typography>
+              <SchemaDiff
+                changes={changes}
+                beforeLabel={`v${fromVersion.version}`}
+                afterLabel={`v${toVersion.version}`}
+              />
+            </Box>
+          )}
+        </>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,113 @@
+import {
+  Box,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Check as CheckIcon } from '@mui/icons-material';
+import {
+  ALL_PERMISSION_ACTIONS,
+  isActionSupported,
+  mergePermissions,
+  PERMISSION_ACTIONS,
+  PERMISSION_REGISTRY,
+  PERMISSION_RESOURCES,
+} from '@/utils/permissions';
+import { RoleAssignment } from '@/utils/roleAssignments';
+
+interface PreviewRole {
+  id: string;
+  name: string;
+  permissions: unknown;
+}
+
+interface PreviewCompany {
+  id: string;
+  name: string;
+}
+
+interface MergedPermissionsPreviewProps {
+  assignments: RoleAssignment[];
+  roles: PreviewRole[];
+  companies: PreviewCompany[];
+}
+
+/** What a user would be allowed to do with the given roles, split by company scope */
+export default function MergedPermissionsPreview({ assignments, roles, companies }: MergedPermissionsPreviewProps) {
+  const permissionsOf = (list: RoleAssignment[]) =>
+    mergePermissions(list.map((assignment) => roles.find((role) => role.id === assignment.roleId)?.permissions));
+
+  const global = permissionsOf(assignments.filter((assignment) => !assignment.companyId));
+  const scopedCompanyIds = Array.from(
+    new Set(assignments.map((assignment) => assignment.companyId).filter((id): id is string => !!id))
+  );
+  const scoped = scopedCompanyIds.map((companyId) => ({
+    company: companies.find((company) => company.id === companyId)?.name || companyId,
+    permissions: permissionsOf(assignments.filter((assignment) => assignment.companyId === companyId)),
+  }));
+
+  if (assignments.length === 0) {
+    return (
+      <Typography variant="body2" color="textSecondary">
+        Assign a role to see the resulting permissions.
+      </Typography>
+    );
+  }
+
+  return (
+    <TableContainer>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell sx={{ fontWeight: 'bold' }}>Resource</TableCell>
+            {ALL_PERMISSION_ACTIONS.map((action) => (
+              <TableCell key={action} sx={{ fontWeight: 'bold' }}>
+                {PERMISSION_ACTIONS[action]}
+              </TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {PERMISSION_RESOURCES.map((resource) => (
+            <TableRow key={resource}>
+              <TableCell>{PERMISSION_REGISTRY[resource].label}</TableCell>
+              {ALL_PERMISSION_ACTIONS.map((action) => {
+                if (!isActionSupported(resource, action)) {
+                  return <TableCell key={action} />;
+                }
+                if (global[resource][action]) {
+                  return (
+                    <TableCell key={action}>
+                      <CheckIcon fontSize="small" color="success" titleAccess="All companies" />
+                    </TableCell>
+                  );
+                }
+                const grantedIn = scoped.filter((entry) => entry.permissions[resource][action]);
+                return (
+                  <TableCell key={action}>
+                    {grantedIn.length === 0 ? (
+                      <Typography variant="body2" color="textSecondary">
+                        —
+                      </Typography>
+                    ) : (
+                      <Box display="flex" gap={0.5} flexWrap="wrap">
+                        {grantedIn.map((entry) => (
+                          <Chip key={entry.company} label={entry.company} size="small" variant="outlined" />
+                        ))}
+                      </Box>
+                    )}
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+}
@@ -0,0 +1,120 @@
+import {
+  Checkbox,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import {
+  ALL_PERMISSION_ACTIONS,
+  getResourceActions,
+  isActionSupported,
+  PERMISSION_ACTIONS,
+  PERMISSION_REGISTRY,
+  PERMISSION_RESOURCES,
+  PermissionAction,
+  PermissionResource,
+  Permissions,
+} from '@/utils/permissions';
+
+interface PermissionMatrixProps {
+  value: Permissions;
+  onChange: (value: Permissions) => void;
+  disabled?: boolean;
+}
+
+type Cell = [PermissionResource, PermissionAction];
+
+/** Resources as rows, actions as columns, with select-all per row, per column and overall */
+export default function PermissionMatrix({ value, onChange, disabled }: PermissionMatrixProps) {
+  const isChecked = ([resource, action]: Cell) => !!value[resource]?.[action];
+
+  const rowCells = (resource: PermissionResource): Cell[] =>
+    getResourceActions(resource).map((action) => [resource, action]);
+  const columnCells = (action: PermissionAction): Cell[] =>
+    PERMISSION_RESOURCES.filter((resource) => isActionSupported(resource, action)).map((resource) => [
+      resource,
+      action,
+    ]);
+  const allCells = PERMISSION_RESOURCES.reduce<Cell[]>((cells, resource) => cells.concat(rowCells(resource)), []);
+
+  const setCells = (cells: Cell[], checked: boolean) => {
+    const next = { ...value };
+    cells.forEach(([resource, action]) => {
+      next[resource] = { ...next[resource], [action]: checked };
+    });
+    onChange(next);
+  };
+
+  const renderGroupCheckbox = (cells: Cell[], label: string) => {
+    const checkedCount = cells.filter(isChecked).length;
+    return (
+      <Checkbox
+        size="small"
+        disabled={disabled || cells.length === 0}
+        checked={cells.length > 0 && checkedCount === cells.length}
+        indeterminate={checkedCount > 0 && checkedCount < cells.length}
+        onChange={(e) => setCells(cells, e.target.checked)}
+        inputProps={{ 'aria-label': label }}
+      />
+    );
+  };
+
+  return (
+    <TableContainer>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell sx={{ fontWeight: 'bold' }}>Resource</TableCell>
+            {ALL_PERMISSION_ACTIONS.map((action) => (
+              <TableCell key={action} align="center" sx={{ fontWeight: 'bold' }}>
+                {PERMISSION_ACTIONS[action]}
+              </TableCell>
+            ))}
+            <TableCell align="center" sx={{ fontWeight: 'bold' }}>
+              All
+            </TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>
+              <em>Select all</em>
+            </TableCell>
+            {ALL_PERMISSION_ACTIONS.map((action) => (
+              <TableCell key={action} align="center">
+                {renderGroupCheckbox(columnCells(action), `${PERMISSION_ACTIONS[action]} on every resource`)}
+              </TableCell>
+            ))}
+            <TableCell align="center">{renderGroupCheckbox(allCells, 'Every permission')}</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {PERMISSION_RESOURCES.map((resource) => (
+            <TableRow key={resource} hover>
+              <TableCell>{PERMISSION_REGISTRY[resource].label}</TableCell>
+              {ALL_PERMISSION_ACTIONS.map((action) => (
+                <TableCell key={action} align="center">
+                  {isActionSupported(resource, action) && (
+                    <Checkbox
+                      size="small"
+                      disabled={disabled}
+                      checked={isChecked([resource, action])}
+                      onChange={(e) => setCells([[resource, action]], e.target.checked)}
+                      inputProps={{
+                        'aria-label': `${PERMISSION_ACTIONS[action]} ${PERMISSION_REGISTRY[resource].label}`,
+                      }}
+                    />
+                  )}
+                </TableCell>
+              ))}
+              <TableCell align="center">
+                {renderGroupCheckbox(rowCells(resource), `Every action on ${PERMISSION_REGISTRY[resource].label}`)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+}
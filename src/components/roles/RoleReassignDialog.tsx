@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import api, { createCorrelationId, handleApiError, withCorrelationId } from '@/utils/api';
+import { replaceRole, RoleAssignment } from '@/utils/roleAssignments';
+
+interface ReassignRole {
+  id: string;
+  name: string;
+}
+
+export interface AssignedUser {
+  id: string;
+  email: string;
+  roleAssignments: RoleAssignment[];
+}
+
+interface RoleReassignDialogProps {
+  role: ReassignRole | null;
+  roles: ReassignRole[];
+  users: AssignedUser[];
+  onClose: () => void;
+  onCompleted: () => void;
+}
+
+/** Moves every user off a role onto another one, then deletes the role */
+export default function RoleReassignDialog({ role, roles, users, onClose, onCompleted }: RoleReassignDialogProps) {
+  const [replacementId, setReplacementId] = useState('');
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (role) {
+      setReplacementId('');
+      setProgress(0);
+      setError(null);
+    }
+  }, [role]);
+
+  const handleApply = async () => {
+    if (!role || !replacementId) return;
+    setRunning(true);
+    const failed: string[] = [];
+    const correlation = withCorrelationId(createCorrelationId());
+
+    for (let i = 0; i < users.length; i++) {
+      const user = users[i];
+      try {
+        await api.patch(
+          `/users/${user.id}`,
+          { roles: replaceRole(user.roleAssignments, role.id, replacementId) },
+          correlation
+        );
+      } catch (error) {
+        failed.push(`${user.email}: ${handleApiError(error)}`);
+      }
+      setProgress(((i + 1) / (users.length + 1)) * 100);
+    }
+
+    // Deleting while some users still hold the role would leave them with a dangling reference
+    if (failed.length === 0) {
+      try {
+        await api.delete(`/roles/${role.id}`, correlation);
+      } catch (error) {
+        failed.push(handleApiError(error));
+      }
+    }
+
+    setRunning(false);
+    if (failed.length > 0) {
+      setError(failed.join('\n'));
+      return;
+    }
+    onCompleted();
+  };
+
+  return (
+    <Dialog open={!!role} onClose={running ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Delete role {role?.name}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" gutterBottom>
+          {users.length} user(s) still have this role. Choose a role to give them instead before it is deleted.
+        </Typography>
+        <List dense sx={{ maxHeight: 200, overflow: 'auto' }}>
+          {users.map((user) => (
+            <ListItem key={user.id}>
+              <ListItemText primary={user.email} />
+            </ListItem>
+          ))}
+        </List>
+        <TextField
+          select
+          fullWidth
+          label="Replacement role"
+          value={replacementId}
+          onChange={(e) => setReplacementId(e.target.value)}
+          margin="normal"
+          disabled={running}
+        >
+          {roles
+            .filter((r) => r.id !== role?.id)
+            .map((r) => (
+              <MenuItem key={r.id} value={r.id}>
+                {r.name}
+              </MenuItem>
+            ))}
+        </TextField>
+        {running && (
+          <Box py={1}>
+            <LinearProgress variant="determinate" value={progress} />
+          </Box>
+        )}
+        {error && (
+          <Alert severity="error" sx={{ mt: 2, whiteSpace: 'pre-line' }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={running}>
+          Cancel
+        </Button>
+        <Button variant="contained" color="error" onClick={handleApply} disabled={!replacementId || running}>
+          Reassign and delete
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
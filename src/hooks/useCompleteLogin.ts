@@ -0,0 +1,44 @@
+import { useCallback } from 'react';
+import { useRouter } from 'next/router';
+import api from '@/utils/api';
+import { usePermissions } from '@/hooks/usePermissions';
+import { getSafeNextPath } from '@/utils/jwt';
+import { setSessionTokens } from '@/utils/session';
+
+/**
+ * Stores the tokens from a successful login (password, MFA or SSO), loads the
+ * user's permissions and navigates to where the user was headed.
+ */
+export function useCompleteLogin() {
+  const router = useRouter();
+  const { refresh: refreshPermissions } = usePermissions();
+
+  return useCallback(
+    async (data: any, next: unknown) => {
+      const { accessToken, refreshToken } = data;
+
+      // Store tokens in cookies
+      setSessionTokens({ accessToken, refreshToken });
+
+      // Update API client headers
+      api.defaults.headers.common['Authorization'] = `Bearer ${accessToken}`;
+
+      // Load permissions before navigating so middleware can already check routes
+      await refreshPermissions();
+
+      // A role that requires MFA sends users without it to enrollment first
+      if (data.mfa_enrollment_required || data.mfaEnrollmentRequired) {
+        router.replace('/profile?setup=mfa');
+        return;
+      }
+
+      // Send the user back to the page middleware redirected them away from
+      const destination = getSafeNextPath(next) || '/dashboard';
+      console.log(`Tokens stored and API client configured, navigating to ${destination}...`);
+
+      // Use replace instead of push to prevent going back to login page
+      router.replace(destination);
+    },
+    [refreshPermissions, router]
+  );
+}
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import axios from 'axios';
+import api from '@/utils/api';
+
+export type LinkTokenStatus = 'loading' | 'valid' | 'expired' | 'invalid';
+
+interface LinkTokenState<T> {
+  token: string | null;
+  status: LinkTokenStatus;
+  details: T | null;
+}
+
+/**
+ * Reads the one-time `token` from an emailed link (invite or password reset)
+ * and checks it with the backend before the user types a new password.
+ */
+export function useLinkToken<T = Record<string, any>>(endpoint: string): LinkTokenState<T> {
+  const router = useRouter();
+  const token = typeof router.query.token === 'string' ? router.query.token : null;
+  const [state, setState] = useState<LinkTokenState<T>>({ token: null, status: 'loading', details: null });
+
+  useEffect(() => {
+    if (!router.isReady) return;
+    if (!token) {
+      setState({ token: null, status: 'invalid', details: null });
+      return;
+    }
+
+    const checkToken = async () => {
+      try {
+        const response = await api.get(`${endpoint}/${encodeURIComponent(token)}`);
+        const details = response.data.data || response.data;
+        const expiresAt = details.expires_at || details.expiresAt;
+        const expired = !!expiresAt && new Date(expiresAt).getTime() <= Date.now();
+        setState({ token, status: expired ? 'expired' : 'valid', details });
+      } catch (error) {
+        // 410 Gone is what the backend answers for used or expired tokens
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        setState({ token, status: status === 410 ? 'expired' : 'invalid', details: null });
+      }
+    };
+    checkToken();
+  }, [router.isReady, token, endpoint]);
+
+  return state;
+}
@@ -0,0 +1,107 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import Cookies from 'js-cookie';
+import api from '@/utils/api';
+import {
+  hasPermission,
+  normalizePermissions,
+  PermissionAction,
+  parsePermissions,
+  PermissionResource,
+  Permissions,
+  PERMISSIONS_COOKIE,
+  serializePermissions,
+} from '@/utils/permissions';
+
+interface PermissionsContextValue {
+  permissions: Permissions | null;
+  loading: boolean;
+  can: (resource: PermissionResource, action: PermissionAction) => boolean;
+  refresh: () => Promise<void>;
+  clear: () => void;
+}
+
+const PermissionsContext = createContext<PermissionsContextValue | null>(null);
+
+const RETRY_DELAY_MS = 10000;
+
+/**
+ * Fetches the logged-in user's effective permissions and mirrors them into a
+ * cookie for middleware.ts. The backend still enforces every request; this
+ * only keeps the UI from offering actions that would be rejected.
+ */
+export const loadPermissions = async (): Promise<Permissions> => {
+  const response = await api.get('/auth/me');
+  const data = response.data.data || response.data;
+  const permissions = normalizePermissions(data.permissions || data.user?.permissions);
+  Cookies.set(PERMISSIONS_COOKIE, serializePermissions(permissions), { expires: 1 });
+  return permissions;
+};
+
+export const clearPermissions = () => {
+  Cookies.remove(PERMISSIONS_COOKIE);
+};
+
+interface PermissionsProviderProps {
+  /** Skips loading, e.g. on the login page */
+  enabled: boolean;
+  children: ReactNode;
+}
+
+export function PermissionsProvider({ enabled, children }: PermissionsProviderProps) {
+  const [permissions, setPermissions] = useState<Permissions | null>(null);
+  const [loading, setLoading] = useState(false);
+  const retryTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  const refresh = useCallback(async () => {
+    clearTimeout(retryTimer.current);
+    try {
+      setLoading(true);
+      setPermissions(await loadPermissions());
+    } catch (error) {
+      console.error('Failed to load permissions:', error);
+      // A failed request is not a user without permissions: use the last known
+      // set if there is one, and keep trying until /auth/me answers
+      const cached = Cookies.get(PERMISSIONS_COOKIE);
+      if (cached !== undefined) {
+        setPermissions(parsePermissions(cached));
+      }
+      retryTimer.current = setTimeout(refresh, RETRY_DELAY_MS);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const clear = useCallback(() => {
+    clearTimeout(retryTimer.current);
+    clearPermissions();
+    setPermissions(null);
+  }, []);
+
+  // Stop retrying once loading is switched off, e.g. after logging out
+  useEffect(() => () => clearTimeout(retryTimer.current), [enabled]);
+
+  useEffect(() => {
+    if (enabled && !permissions) {
+      refresh();
+    }
+  }, [enabled, permissions, refresh]);
+
+  const can = useCallback(
+    (resource: PermissionResource, action: PermissionAction) => hasPermission(permissions, resource, action),
+    [permissions]
+  );
+
+  return (
+    <PermissionsContext.Provider value={{ permissions, loading, can, refresh, clear }}>
+      {children}
+    </PermissionsContext.Provider>
+  );
+}
+
+export function usePermissions(): PermissionsContextValue {
+  const context = useContext(PermissionsContext);
+  if (!context) {
+    throw new Error('usePermissions must be used inside a PermissionsProvider');
+  }
+  return context;
+}
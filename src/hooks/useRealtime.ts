@@ -0,0 +1,62 @@
+import { useEffect, useRef, useState } from 'react';
+import { getRealtimeClient, RealtimeMessage, RealtimeStatus } from '@/utils/realtime';
+
+export function useRealtimeStatus(): RealtimeStatus {
+  const [status, setStatus] = useState<RealtimeStatus>(() => getRealtimeClient().getStatus());
+
+  useEffect(() => {
+    const client = getRealtimeClient();
+    setStatus(client.getStatus());
+    return client.onStatusChange(setStatus);
+  }, []);
+
+  return status;
+}
+
+export function useRealtimeSubscription<T = unknown>(
+  topic: string | null,
+  handler: (message: RealtimeMessage<T>) => void
+) {
+  // Keep the latest handler without re-subscribing on every render
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!topic) return;
+    return getRealtimeClient().subscribe<T>(topic, (message) => handlerRef.current(message));
+  }, [topic]);
+}
+
+/**
+ * Runs `callback` every `intervalMs` only while the realtime socket is not open,
+ * so pages fall back to polling when live updates are unavailable.
+ */
+export function usePollingFallback(callback: () => void, intervalMs: number) {
+  const status = useRealtimeStatus();
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+
+  useEffect(() => {
+    if (status === 'open') return;
+    const interval = setInterval(() => callbackRef.current(), intervalMs);
+    return () => clearInterval(interval);
+  }, [status, intervalMs]);
+}
+
+/**
+ * Runs `callback` every time the socket (re)opens. Events sent while it was
+ * down are not replayed, so state built from deltas must be reloaded here.
+ */
+export function useRealtimeResync(callback: () => void) {
+  const status = useRealtimeStatus();
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+  const previousStatus = useRef(status);
+
+  useEffect(() => {
+    if (status === 'open' && previousStatus.current !== 'open') {
+      callbackRef.current();
+    }
+    previousStatus.current = status;
+  }, [status]);
+}
@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/router';
+import { usePermissions } from '@/hooks/usePermissions';
+import {
+  broadcastActivity,
+  getAccessTokenExpiry,
+  IDLE_TIMEOUT_MS,
+  IDLE_WARNING_MS,
+  logout,
+  REFRESH_LEEWAY_MS,
+  refreshSession,
+  subscribeToSessionSignals,
+} from '@/utils/session';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
+
+// Activity is recorded and broadcast at most this often
+const ACTIVITY_THROTTLE_MS = 5000;
+
+interface SessionState {
+  /** Seconds until an idle sign-out, or null while the warning is not shown */
+  idleSecondsLeft: number | null;
+  staySignedIn: () => void;
+  signOut: () => Promise<void>;
+}
+
+/**
+ * Keeps the logged-in session alive while the user works: refreshes the access
+ * token shortly before it expires, signs out after a period of inactivity
+ * (with a warning first), and follows logouts made in other tabs.
+ */
+export function useSession(): SessionState {
+  const router = useRouter();
+  const { clear: clearPermissions } = usePermissions();
+  const [idleSecondsLeft, setIdleSecondsLeft] = useState<number | null>(null);
+  const lastActivityRef = useRef(Date.now());
+  const warningRef = useRef(false);
+  const signedOutRef = useRef(false);
+
+  const goToLogin = useCallback(
+    (next?: string) => {
+      clearPermissions();
+      router.replace(next ? `/login?next=${encodeURIComponent(next)}` : '/login');
+    },
+    [clearPermissions, router]
+  );
+
+  const signOut = useCallback(async () => {
+    await logout();
+    goToLogin();
+  }, [goToLogin]);
+
+  const staySignedIn = useCallback(() => {
+    lastActivityRef.current = Date.now();
+    warningRef.current = false;
+    setIdleSecondsLeft(null);
+    broadcastActivity();
+  }, []);
+
+  // Proactive refresh, rescheduled from whatever token is current when the timer fires
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let cancelled = false;
+
+    const schedule = () => {
+      const expiry = getAccessTokenExpiry();
+      if (!expiry || cancelled) return;
+      timer = setTimeout(async () => {
+        const current = getAccessTokenExpiry();
+        // Another refresh (e.g. after a 401 or in another tab) may already have extended the token
+        if (current && current - Date.now() > REFRESH_LEEWAY_MS) {
+          schedule();
+          return;
+        }
+        try {
+          await refreshSession();
+          schedule();
+        } catch (error) {
+          // The next request's 401 handling takes care of sending the user to the login page
+          console.error('Proactive token refresh failed:', error);
+        }
+      }, Math.max(expiry - REFRESH_LEEWAY_MS - Date.now(), 0));
+    };
+
+    schedule();
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, []);
+
+  // Idle tracking; once the warning is up only "Stay signed in" counts as activity
+  useEffect(() => {
+    const recordActivity = () => {
+      const now = Date.now();
+      if (warningRef.current || now - lastActivityRef.current < ACTIVITY_THROTTLE_MS) return;
+      lastActivityRef.current = now;
+      broadcastActivity();
+    };
+
+    const check = () => {
+      if (signedOutRef.current) return;
+      const remaining = lastActivityRef.current + IDLE_TIMEOUT_MS - Date.now();
+      if (remaining <= 0) {
+        signedOutRef.current = true;
+        warningRef.current = false;
+        setIdleSecondsLeft(null);
+        logout().then(() => goToLogin(router.asPath));
+      } else if (remaining <= IDLE_WARNING_MS) {
+        warningRef.current = true;
+        setIdleSecondsLeft(Math.ceil(remaining / 1000));
+      } else if (warningRef.current) {
+        warningRef.current = false;
+        setIdleSecondsLeft(null);
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, recordActivity, { passive: true }));
+    const interval = setInterval(check, 1000);
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, recordActivity));
+      clearInterval(interval);
+    };
+  }, [goToLogin, router.asPath]);
+
+  // Cross-tab sync
+  useEffect(
+    () =>
+      subscribeToSessionSignals({
+        onLogout: () => goToLogin(),
+        onActivity: () => {
+          lastActivityRef.current = Date.now();
+        },
+      }),
+    [goToLogin]
+  );
+
+  return { idleSecondsLeft, staySignedIn, signOut };
+}
@@ -1,13 +1,74 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { getRoutePermission, hasPermission, parsePermissions, PERMISSIONS_COOKIE } from '@/utils/permissions';
+import { CLAIM_HEADERS, SessionClaims, verifyAccessToken } from '@/utils/jwt';
+import { isPublicRoute } from '@/utils/publicRoutes';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api/v1';
+
+// Same lifetimes as the cookies set by the login page and the api client
+const ACCESS_TOKEN_MAX_AGE = 60 * 60 * 24;
+const REFRESH_TOKEN_MAX_AGE = 60 * 60 * 24 * 7;
+
+interface RefreshedTokens {
+  accessToken: string;
+  refreshToken: string;
+  claims: SessionClaims;
+}
+
+const refreshTokens = async (refreshToken: string): Promise<RefreshedTokens | null> => {
+  try {
+    const response = await fetch(`${API_URL}/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken }),
+    });
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    // Never trust a refreshed token that does not verify either
+    const result = await verifyAccessToken(data.accessToken);
+    if (result.status !== 'valid') return null;
+    return { accessToken: data.accessToken, refreshToken: data.refreshToken || refreshToken, claims: result.claims };
+  } catch (error) {
+    console.error('Token refresh failed in middleware:', error);
+    return null;
+  }
+};
+
+const redirectToLogin = (request: NextRequest) => {
+  const loginUrl = new URL('/login', request.url);
+  const next = `${request.nextUrl.pathname}${request.nextUrl.search}`;
+  if (next !== '/') {
+    loginUrl.searchParams.set('next', next);
+  }
+  const response = NextResponse.redirect(loginUrl);
+  response.cookies.delete('accessToken');
+  response.cookies.delete('refreshToken');
+  response.cookies.delete(PERMISSIONS_COOKIE);
+  return response;
+};
+
+// Claim headers must only ever come from this middleware, never from the client
+const nextWithClaims = (request: NextRequest, claims: SessionClaims | null) => {
+  const requestHeaders = new Headers(request.headers);
+  (Object.keys(CLAIM_HEADERS) as (keyof SessionClaims)[]).forEach((claim) => {
+    if (claims) {
+      requestHeaders.set(CLAIM_HEADERS[claim], claims[claim]);
+    } else {
+      requestHeaders.delete(CLAIM_HEADERS[claim]);
+    }
+  });
+  return NextResponse.next({ request: { headers: requestHeaders } });
+};
 
 export async function middleware(request: NextRequest) {
-  // Allow access to login page and API routes
+  // Allow access to public pages (login, password reset, invites) and API routes
   if (
-    request.nextUrl.pathname === '/login' ||
+    isPublicRoute(request.nextUrl.pathname) ||
     request.nextUrl.pathname.startsWith('/api/')
   ) {
-    return NextResponse.next();
+    return nextWithClaims(request, null);
   }
 
   // For client-side routes, let the client handle authentication
@@ -15,13 +76,42 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
-  // For all other routes, redirect to login if not authenticated
+  // For all other routes, require a valid, unexpired access token
   const token = request.cookies.get('accessToken')?.value;
-  if (!token) {
-    return NextResponse.redirect(new URL('/login', request.url));
+  const refreshToken = request.cookies.get('refreshToken')?.value;
+  let result = token ? await verifyAccessToken(token) : ({ status: 'expired' } as const);
+  let refreshed: RefreshedTokens | null = null;
+
+  if (result.status === 'expired' && refreshToken) {
+    refreshed = await refreshTokens(refreshToken);
+    if (refreshed) {
+      result = { status: 'valid', claims: refreshed.claims };
+    }
+  }
+
+  if (result.status !== 'valid') {
+    return redirectToLogin(request);
+  }
+
+  // Without the cookie the permissions are not loaded yet; the client-side gate covers that case
+  const required = getRoutePermission(request.nextUrl.pathname);
+  const grantedPermissions = request.cookies.get(PERMISSIONS_COOKIE)?.value;
+  if (required && grantedPermissions !== undefined) {
+    const permissions = parsePermissions(grantedPermissions);
+    if (!hasPermission(permissions, required.resource, required.action)) {
+      return NextResponse.redirect(new URL('/forbidden', request.url));
+    }
+  }
+
+  // Pages read the verified claims from these headers instead of decoding the token again
+  const response = nextWithClaims(request, result.claims);
+
+  if (refreshed) {
+    response.cookies.set('accessToken', refreshed.accessToken, { maxAge: ACCESS_TOKEN_MAX_AGE, path: '/' });
+    response.cookies.set('refreshToken', refreshed.refreshToken, { maxAge: REFRESH_TOKEN_MAX_AGE, path: '/' });
   }
 
-  return NextResponse.next();
+  return response;
 }
 
 export const config = {
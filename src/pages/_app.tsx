@@ -4,22 +4,26 @@ import { ThemeProvider } from '@mui/material/styles';
 import CssBaseline from '@mui/material/CssBaseline';
 import theme from '@/theme';
 import Layout from '@/components/Layout';
+import { PermissionsProvider } from '@/hooks/usePermissions';
 import { useRouter } from 'next/router';
+import { isPublicRoute } from '@/utils/publicRoutes';
 
 export default function App({ Component, pageProps }: AppProps) {
   const router = useRouter();
-  const isLoginPage = router.pathname === '/login';
+  const isPublicPage = isPublicRoute(router.pathname);
 
   return (
     <ThemeProvider theme={theme}>
       <CssBaseline />
-      {isLoginPage ? (
-        <Component {...pageProps} />
-      ) : (
-        <Layout>
+      <PermissionsProvider enabled={!isPublicPage}>
+        {isPublicPage ? (
           <Component {...pageProps} />
-        </Layout>
-      )}
+        ) : (
+          <Layout>
+            <Component {...pageProps} />
+          </Layout>
+        )}
+      </PermissionsProvider>
     </ThemeProvider>
   );
 } 
\ No newline at end of file
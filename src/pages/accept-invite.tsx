@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { useRouter } from 'next/router';
+import NextLink from 'next/link';
+import { Alert, Box, CircularProgress, Link, Typography } from '@mui/material';
+import type { NextPage } from 'next';
+import api, { handleApiError } from '@/utils/api';
+import { useLinkToken } from '@/hooks/useLinkToken';
+import AuthCard from '@/components/auth/AuthCard';
+import SetPasswordForm from '@/components/auth/SetPasswordForm';
+
+const AcceptInvite: NextPage = () => {
+  const router = useRouter();
+  const { token, status, details } = useLinkToken('/auth/invites');
+  const [error, setError] = useState<string | null>(null);
+
+  const companyName = details?.company_name || details?.companyName;
+
+  const handleSubmit = async (password: string) => {
+    setError(null);
+    try {
+      await api.post(`/auth/invites/${encodeURIComponent(token || '')}/accept`, { password });
+      router.replace('/login?notice=invite-accepted');
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  return (
+    <AuthCard title="Welcome">
+      {status === 'loading' && (
+        <Box display="flex" justifyContent="center" py={3}>
+          <CircularProgress />
+        </Box>
+      )}
+
+      {(status === 'expired' || status === 'invalid') && (
+        <Alert severity="warning">
+          {status === 'expired'
+            ? 'This invitation has expired or was already used.'
+            : 'This invitation link is not valid.'}{' '}
+          Ask your administrator to send you a new one.
+        </Alert>
+      )}
+
+      {status === 'valid' && (
+        <>
+          <Typography variant="body2" color="textSecondary" align="center">
+            {companyName ? `You have been invited to ${companyName}. ` : ''}
+            Choose a password for {details?.email} to finish setting up your account.
+          </Typography>
+          {error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {error}
+            </Alert>
+          )}
+          <SetPasswordForm submitLabel="Create account" onSubmit={handleSubmit} />
+        </>
+      )}
+
+      <Typography variant="body2" align="center" sx={{ mt: 3 }}>
+        <Link component={NextLink} href="/login">
+          Back to login
+        </Link>
+      </Typography>
+    </AuthCard>
+  );
+};
+
+export default AcceptInvite;
@@ -0,0 +1,364 @@
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/router';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  IconButton,
+  MenuItem,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Check as AcknowledgeIcon, DoneAll as ResolveIcon } from '@mui/icons-material';
+import api, { handleApiError } from '@/utils/api';
+import { usePermissions } from '@/hooks/usePermissions';
+import { usePollingFallback, useRealtimeResync, useRealtimeSubscription } from '@/hooks/useRealtime';
+import { AlertEvent, TOPICS } from '@/utils/realtime';
+import { ALERT_SEVERITIES } from '@/utils/alertRules';
+import {
+  ALERT_STATUS_COLORS,
+  ALERT_STATUSES,
+  AlertItem,
+  AlertStatus,
+  formatAlertDuration,
+  normalizeAlert,
+} from '@/utils/alerts';
+import { getDescendantIds } from '@/utils/companyTree';
+import { renderCompanyOptions } from '@/components/companies/companyOptions';
+import SeverityChip from '@/components/alerts/SeverityChip';
+import AlertDetailDialog, { AlertAssignee } from '@/components/alerts/AlertDetailDialog';
+
+interface Company {
+  id: string;
+  name: string;
+  parentId?: string | null;
+}
+
+type StatusFilter = 'active' | AlertStatus | 'all';
+
+const STATUS_FILTERS: Record<StatusFilter, string> = {
+  active: 'All unresolved',
+  ...ALERT_STATUSES,
+  all: 'Everything',
+};
+
+export default function Alerts() {
+  const router = useRouter();
+  const { can } = usePermissions();
+  const [alerts, setAlerts] = useState<AlertItem[]>([]);
+  const [users, setUsers] = useState<AlertAssignee[]>([]);
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const [severityFilter, setSeverityFilter] = useState('');
+  const [companyFilter, setCompanyFilter] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [linkedAlert, setLinkedAlert] = useState<AlertItem | null>(null);
+  const [now, setNow] = useState(Date.now());
+  // Only the latest list request may update the inbox, whatever order responses arrive in
+  const requestIdRef = useRef(0);
+
+  const fetchAlerts = async () => {
+    const requestId = ++requestIdRef.current;
+    try {
+      const response = await api.get('/alerts', {
+        params: {
+          status:
+            statusFilter === 'all'
+              ? undefined
+              : statusFilter === 'active'
+                ? 'open,acknowledged,snoozed'
+                : statusFilter,
+          severity: severityFilter || undefined,
+          companyId: companyFilter || undefined,
+          // Sub-companies inherit visibility, as in matchesFilters for live events
+          includeDescendants: companyFilter ? 'true' : undefined,
+        },
+      });
+      if (requestId !== requestIdRef.current) return;
+      const data = Array.isArray(response.data) ? response.data : response.data.data;
+      setAlerts((data || []).map(normalizeAlert));
+      setError(null);
+    } catch (error) {
+      if (requestId !== requestIdRef.current) return;
+      setError(handleApiError(error));
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  // Assignees and the company filter; the inbox still works without them
+  const fetchLookups = async () => {
+    try {
+      const [usersResponse, companiesResponse] = await Promise.all([api.get('/users'), api.get('/companies')]);
+      const userList = Array.isArray(usersResponse.data) ? usersResponse.data : usersResponse.data.data;
+      const companyList = Array.isArray(companiesResponse.data) ? companiesResponse.data : companiesResponse.data.data;
+      setUsers(
+        (userList || []).map((user: any) => ({
+          id: user.id || user._id,
+          name:
+            `${user.first_name || user.firstName || ''} ${user.last_name || user.lastName || ''}`.trim() ||
+            user.email,
+        }))
+      );
+      setCompanies(
+        (companyList || []).map((company: any) => ({
+          id: company.id,
+          name: company.name,
+          parentId: company.parent_id || company.parentId || null,
+        }))
+      );
+    } catch (error) {
+      console.error('Failed to load assignees and companies:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchLookups();
+  }, []);
+
+  useEffect(() => {
+    fetchAlerts();
+  }, [statusFilter, severityFilter, companyFilter]);
+
+  // Keeps the duration column ticking
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Opened from the AppBar dropdown
+  useEffect(() => {
+    if (typeof router.query.alert === 'string') {
+      setSelectedId(router.query.alert);
+    }
+  }, [router.query.alert]);
+
+  usePollingFallback(fetchAlerts, 30000);
+  // Alerts raised or changed while the socket was down never reach the subscription below
+  useRealtimeResync(fetchAlerts);
+
+  const matchesFilters = (alert: AlertItem) => {
+    if (statusFilter === 'active' && alert.status === 'resolved') return false;
+    if (statusFilter !== 'active' && statusFilter !== 'all' && alert.status !== statusFilter) return false;
+    if (severityFilter && alert.severity !== severityFilter) return false;
+    if (companyFilter && ![companyFilter, ...getDescendantIds(companies, companyFilter)].includes(alert.companyId)) {
+      return false;
+    }
+    return true;
+  };
+
+  useRealtimeSubscription<AlertEvent>(TOPICS.alerts, ({ data }) => {
+    const alert = normalizeAlert(data);
+    setAlerts((prev) => {
+      const rest = prev.filter((item) => item.id !== alert.id);
+      if (!matchesFilters(alert)) return rest;
+      return [alert, ...rest].sort((a, b) => new Date(b.raisedAt).getTime() - new Date(a.raisedAt).getTime());
+    });
+  });
+
+  // A linked or just-resolved alert may fall outside the current filters, so it is kept separately
+  const fetchSelectedAlert = async (alertId: string) => {
+    try {
+      const response = await api.get(`/alerts/${alertId}`);
+      setLinkedAlert(normalizeAlert(response.data.data || response.data));
+    } catch (error) {
+      setError(handleApiError(error));
+      setSelectedId(null);
+    }
+  };
+
+  const selectedAlert =
+    alerts.find((alert) => alert.id === selectedId) || (linkedAlert?.id === selectedId ? linkedAlert : null);
+
+  useEffect(() => {
+    if (!selectedId || loading || selectedAlert) return;
+    fetchSelectedAlert(selectedId);
+  }, [selectedId, loading, selectedAlert]);
+
+  const handleAlertChanged = () => {
+    fetchAlerts();
+    if (selectedId) fetchSelectedAlert(selectedId);
+  };
+
+  const handleQuickAction = async (alert: AlertItem, action: 'acknowledge' | 'resolve') => {
+    try {
+      await api.post(`/alerts/${alert.id}/${action}`);
+      fetchAlerts();
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  const handleCloseDetail = () => {
+    setSelectedId(null);
+    if (router.query.alert) {
+      router.replace('/alerts', undefined, { shallow: true });
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box p={3}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Typography variant="h4">Alerts</Typography>
+        <Button variant="outlined" onClick={() => router.push('/alerts/rules')}>
+          Alert Rules
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box display="flex" gap={2} mb={2}>
+        <TextField
+          select
+          size="small"
+          label="Status"
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+          sx={{ minWidth: 180 }}
+        >
+          {(Object.keys(STATUS_FILTERS) as StatusFilter[]).map((status) => (
+            <MenuItem key={status} value={status}>
+              {STATUS_FILTERS[status]}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          size="small"
+          label="Severity"
+          value={severityFilter}
+          onChange={(e) => setSeverityFilter(e.target.value)}
+          sx={{ minWidth: 160 }}
+        >
+          <MenuItem value="">All severities</MenuItem>
+          {ALERT_SEVERITIES.map((severity) => (
+            <MenuItem key={severity} value={severity} sx={{ textTransform: 'capitalize' }}>
+              {severity}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          size="small"
+          label="Company"
+          value={companyFilter}
+          onChange={(e) => setCompanyFilter(e.target.value)}
+          sx={{ minWidth: 220 }}
+        >
+          <MenuItem value="">All companies</MenuItem>
+          {renderCompanyOptions(companies)}
+        </TextField>
+      </Box>
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Severity</TableCell>
+              <TableCell>Alert</TableCell>
+              <TableCell>Device</TableCell>
+              <TableCell>Company</TableCell>
+              <TableCell>Duration</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Assignee</TableCell>
+              <TableCell>Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {alerts.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8}>
+                  <Typography color="textSecondary">No alerts match these filters.</Typography>
+                </TableCell>
+              </TableRow>
+            ) : (
+              alerts.map((alert) => (
+                <TableRow key={alert.id} hover onClick={() => setSelectedId(alert.id)} sx={{ cursor: 'pointer' }}>
+                  <TableCell>
+                    <SeverityChip severity={alert.severity} />
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">{alert.message || alert.ruleName}</Typography>
+                    {alert.message && alert.ruleName && (
+                      <Typography variant="caption" color="textSecondary">
+                        {alert.ruleName}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>{alert.deviceName || alert.deviceId}</TableCell>
+                  <TableCell>
+                    {alert.companyName || companies.find((company) => company.id === alert.companyId)?.name || '-'}
+                  </TableCell>
+                  <TableCell>{formatAlertDuration(alert, now)}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={
+                        alert.status === 'snoozed' && alert.snoozedUntil
+                          ? `Snoozed until ${new Date(alert.snoozedUntil).toLocaleTimeString()}`
+                          : ALERT_STATUSES[alert.status]
+                      }
+                      color={ALERT_STATUS_COLORS[alert.status]}
+                      size="small"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {alert.assigneeName || users.find((user) => user.id === alert.assigneeId)?.name || '-'}
+                  </TableCell>
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    {alert.status === 'open' && (
+                      <IconButton
+                        size="small"
+                        onClick={() => handleQuickAction(alert, 'acknowledge')}
+                        disabled={!can('alerts', 'acknowledge')}
+                        title="Acknowledge"
+                      >
+                        <AcknowledgeIcon />
+                      </IconButton>
+                    )}
+                    {alert.status !== 'resolved' && (
+                      <IconButton
+                        size="small"
+                        onClick={() => handleQuickAction(alert, 'resolve')}
+                        disabled={!can('alerts', 'acknowledge')}
+                        title="Resolve"
+                      >
+                        <ResolveIcon />
+                      </IconButton>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <AlertDetailDialog alert={selectedAlert} users={users} onClose={handleCloseDetail} onChanged={handleAlertChanged} />
+    </Box>
+  );
+}
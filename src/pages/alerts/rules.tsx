@@ -0,0 +1,245 @@
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  IconButton,
+  Paper,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Delete as DeleteIcon, Edit as EditIcon } from '@mui/icons-material';
+import api, { fetchAllPages, handleApiError } from '@/utils/api';
+import PermissionGate from '@/components/PermissionGate';
+import { usePermissions } from '@/hooks/usePermissions';
+import SeverityChip from '@/components/alerts/SeverityChip';
+import AlertRuleDialog, { AlertRuleDevice, AlertRuleDeviceType } from '@/components/alerts/AlertRuleDialog';
+import { ALERT_SCOPE_TYPES, AlertRule, describeRule } from '@/utils/alertRules';
+
+interface Company {
+  id: string;
+  name: string;
+  parentId?: string | null;
+}
+
+const mapRule = (rule: any): AlertRule => ({
+  id: rule.id,
+  name: rule.name,
+  enabled: rule.enabled !== false,
+  severity: rule.severity || 'warning',
+  scopeType: rule.scope_type || rule.scopeType || 'device',
+  scopeId: rule.scope_id || rule.scopeId || '',
+  type: rule.type,
+  field: rule.field || '',
+  operator: rule.operator || '>',
+  threshold: Number(rule.threshold ?? 0),
+  direction: rule.direction || 'either',
+  windowMinutes: Number(rule.window_minutes ?? rule.windowMinutes ?? 15),
+  durationMinutes: Number(rule.duration_minutes ?? rule.durationMinutes ?? 0),
+  hysteresis: Number(rule.hysteresis ?? 0),
+  missedIntervals: Number(rule.missed_intervals ?? rule.missedIntervals ?? 3),
+});
+
+export default function AlertRules() {
+  const { can } = usePermissions();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [devices, setDevices] = useState<AlertRuleDevice[]>([]);
+  const [deviceTypes, setDeviceTypes] = useState<AlertRuleDeviceType[]>([]);
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null);
+
+  const fetchRules = async () => {
+    try {
+      const response = await api.get('/alert-rules');
+      const data = Array.isArray(response.data) ? response.data : response.data.data;
+      setRules((data || []).map(mapRule));
+      setError(null);
+    } catch (error) {
+      setError(handleApiError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Scope pickers and the preview need every device, type and company
+  const fetchScopes = async () => {
+    try {
+      const [deviceList, typesResponse, companiesResponse] = await Promise.all([
+        fetchAllPages('/devices'),
+        api.get('/device-types'),
+        api.get('/companies'),
+      ]);
+      const typeList = Array.isArray(typesResponse.data) ? typesResponse.data : typesResponse.data.data;
+      const companyList = Array.isArray(companiesResponse.data) ? companiesResponse.data : companiesResponse.data.data;
+
+      setDeviceTypes(
+        (typeList || []).map((deviceType: any) => ({
+          id: deviceType.id,
+          name: deviceType.name,
+          payloadSchema: deviceType.payload_schema || deviceType.payloadSchema || {},
+        }))
+      );
+      setDevices(
+        deviceList.map((device: any) => {
+          const deviceTypeId =
+            device.device_type_id ||
+            device.deviceTypeId ||
+            (typeList || []).find((deviceType: any) => deviceType.name === device.type)?.id ||
+            '';
+          return {
+            id: device.id,
+            name: device.location ? `${device.type} (${device.location})` : device.type,
+            pushInterval: device.push_interval || device.pushInterval || 0,
+            deviceTypeId,
+            companyId: device.company_id || device.companyId,
+          };
+        })
+      );
+      setCompanies(
+        (companyList || []).map((company: any) => ({
+          id: company.id,
+          name: company.name,
+          parentId: company.parent_id || company.parentId || null,
+        }))
+      );
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+    fetchScopes();
+  }, []);
+
+  const getScopeName = (rule: AlertRule) => {
+    const source: { id: string; name: string }[] =
+      rule.scopeType === 'device' ? devices : rule.scopeType === 'device_type' ? deviceTypes : companies;
+    return source.find((item) => item.id === rule.scopeId)?.name || rule.scopeId;
+  };
+
+  const handleOpen = (rule?: AlertRule) => {
+    setEditingRule(rule || null);
+    setOpen(true);
+  };
+
+  const handleToggle = async (rule: AlertRule) => {
+    try {
+      await api.patch(`/alert-rules/${rule.id}`, { enabled: !rule.enabled });
+      fetchRules();
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (window.confirm(`Delete the alert rule "${rule.name}"? Its open alerts will be closed.`)) {
+      try {
+        await api.delete(`/alert-rules/${rule.id}`);
+        fetchRules();
+      } catch (error) {
+        setError(handleApiError(error));
+      }
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box p={3}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Typography variant="h4">Alert Rules</Typography>
+        <PermissionGate resource="alerts" action="create" disable>
+          <Button variant="contained" color="primary" onClick={() => handleOpen()}>
+            Add Rule
+          </Button>
+        </PermissionGate>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Name</TableCell>
+              <TableCell>Applies to</TableCell>
+              <TableCell>Condition</TableCell>
+              <TableCell>Severity</TableCell>
+              <TableCell>Enabled</TableCell>
+              <TableCell>Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rules.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6}>
+                  <Typography color="textSecondary">No alert rules yet.</Typography>
+                </TableCell>
+              </TableRow>
+            ) : (
+              rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell>{rule.name}</TableCell>
+                  <TableCell>
+                    {ALERT_SCOPE_TYPES[rule.scopeType]}: {getScopeName(rule)}
+                  </TableCell>
+                  <TableCell>{describeRule(rule)}</TableCell>
+                  <TableCell>
+                    <SeverityChip severity={rule.severity} />
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      size="small"
+                      checked={rule.enabled}
+                      onChange={() => handleToggle(rule)}
+                      disabled={!can('alerts', 'edit')}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <IconButton size="small" onClick={() => handleOpen(rule)} disabled={!can('alerts', 'edit')}>
+                      <EditIcon />
+                    </IconButton>
+                    <IconButton size="small" onClick={() => handleDelete(rule)} disabled={!can('alerts', 'delete')}>
+                      <DeleteIcon />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <AlertRuleDialog
+        open={open}
+        rule={editingRule}
+        devices={devices}
+        deviceTypes={deviceTypes}
+        companies={companies}
+        onClose={() => setOpen(false)}
+        onSaved={fetchRules}
+      />
+    </Box>
+  );
+}
@@ -0,0 +1,444 @@
+import { Fragment, useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  TextField,
+  MenuItem,
+  IconButton,
+  Chip,
+  Alert,
+  CircularProgress,
+  LinearProgress,
+} from '@mui/material';
+import {
+  KeyboardArrowDown as KeyboardArrowDownIcon,
+  KeyboardArrowRight as KeyboardArrowRightIcon,
+} from '@mui/icons-material';
+import api, { fetchAllPages, handleApiError } from '@/utils/api';
+import ExportMenu from '@/components/ExportMenu';
+import { renderCompanyOptions } from '@/components/companies/companyOptions';
+import { usePermissions } from '@/hooks/usePermissions';
+import { ExportFormat, exportRows } from '@/utils/spreadsheet';
+import { AUDIT_ENTITY_TYPE_KEYS, AUDIT_ENTITY_TYPES, AuditEntityType } from '@/utils/audit';
+
+type AuditAction = 'create' | 'update' | 'delete';
+
+interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+interface AuditEntry {
+  id: string;
+  actorId: string;
+  actorEmail: string;
+  action: AuditAction;
+  entityType: string;
+  entityId: string;
+  entityName: string;
+  companyId: string | null;
+  correlationId: string | null;
+  changes: FieldChange[];
+  createdAt: string;
+}
+
+interface AuditFilters {
+  actorId: string;
+  entityType: string;
+  companyId: string;
+  from: string;
+  to: string;
+  correlationId: string;
+}
+
+interface Company {
+  id: string;
+  name: string;
+  parentId?: string | null;
+}
+
+interface Actor {
+  id: string;
+  email: string;
+}
+
+const ACTION_COLORS: Record<AuditAction, 'success' | 'info' | 'error'> = {
+  create: 'success',
+  update: 'info',
+  delete: 'error',
+};
+
+const EMPTY_FILTERS: AuditFilters = { actorId: '', entityType: '', companyId: '', from: '', to: '', correlationId: '' };
+const PAGE_SIZES = [10, 25, 50, 100];
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// Entries carry either a `changes` map or full before/after snapshots
+const getFieldChanges = (entry: any): FieldChange[] => {
+  if (entry.changes && typeof entry.changes === 'object' && !Array.isArray(entry.changes)) {
+    return Object.keys(entry.changes).map((field) => ({
+      field,
+      before: entry.changes[field]?.before,
+      after: entry.changes[field]?.after,
+    }));
+  }
+
+  const before = entry.before || {};
+  const after = entry.after || {};
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+};
+
+const normalizeEntry = (entry: any): AuditEntry => ({
+  id: entry.id,
+  actorId: entry.actor_id || entry.actorId || entry.actor?.id || '',
+  actorEmail: entry.actor_email || entry.actorEmail || entry.actor?.email || 'system',
+  action: entry.action,
+  entityType: entry.entity_type || entry.entityType,
+  entityId: entry.entity_id || entry.entityId,
+  entityName: entry.entity_name || entry.entityName || '',
+  companyId: entry.company_id || entry.companyId || null,
+  correlationId: entry.correlation_id || entry.correlationId || null,
+  changes: getFieldChanges(entry),
+  createdAt: entry.created_at || entry.createdAt,
+});
+
+// Dates are local in the inputs and sent to the API as ISO timestamps
+const toParams = (filters: AuditFilters) => {
+  const params: Record<string, string> = {};
+  if (filters.actorId) params.actorId = filters.actorId;
+  if (filters.entityType) params.entityType = filters.entityType;
+  if (filters.companyId) params.companyId = filters.companyId;
+  if (filters.correlationId) params.correlationId = filters.correlationId;
+  if (filters.from) params.from = new Date(`${filters.from}T00:00:00`).toISOString();
+  if (filters.to) params.to = new Date(`${filters.to}T23:59:59.999`).toISOString();
+  return params;
+};
+
+export default function AuditLog() {
+  const { can } = usePermissions();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(25);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [actors, setActors] = useState<Actor[]>([]);
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [loading, setLoading] = useState(true);
+  const [fetching, setFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [correlationInput, setCorrelationInput] = useState('');
+  // Only the latest request may update the table, whatever order responses arrive in
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    fetchCompanies();
+    fetchActors();
+  }, []);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [filters, page, pageSize]);
+
+  useEffect(() => {
+    setCorrelationInput(filters.correlationId);
+  }, [filters.correlationId]);
+
+  // Debounce typing before it hits the API
+  useEffect(() => {
+    const correlationId = correlationInput.trim();
+    if (correlationId === filters.correlationId) return;
+    const timeout = setTimeout(() => updateFilters({ correlationId }), 300);
+    return () => clearTimeout(timeout);
+  }, [correlationInput]);
+
+  const fetchEntries = async () => {
+    const requestId = ++requestIdRef.current;
+    try {
+      setFetching(true);
+      const response = await api.get('/audit-logs', {
+        params: { ...toParams(filters), page: page + 1, pageSize },
+      });
+      if (requestId !== requestIdRef.current) return;
+      const list = Array.isArray(response.data) ? response.data : response.data.data;
+      setEntries((list || []).map(normalizeEntry));
+      setTotal(Array.isArray(response.data) ? response.data.length : response.data.total);
+      setError(null);
+    } catch (error) {
+      if (requestId !== requestIdRef.current) return;
+      setError(handleApiError(error));
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+        setFetching(false);
+      }
+    }
+  };
+
+  const fetchCompanies = async () => {
+    try {
+      const response = await api.get('/companies');
+      setCompanies(response.data);
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  const fetchActors = async () => {
+    try {
+      const response = await api.get('/users');
+      const list = Array.isArray(response.data) ? response.data : response.data.data;
+      setActors((list || []).map((user: any) => ({ id: user.id || user._id, email: user.email })));
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  const updateFilters = (changes: Partial<AuditFilters>) => {
+    setFilters((prev) => ({ ...prev, ...changes }));
+    setPage(0);
+  };
+
+  const getCompanyName = (companyId: string | null) =>
+    (companyId && companies.find((company) => company.id === companyId)?.name) || '';
+
+  const getEntityLabel = (entityType: string) => AUDIT_ENTITY_TYPES[entityType as AuditEntityType] || entityType;
+
+  // Export every entry matching the filters, not only the visible page
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      const list: AuditEntry[] = (await fetchAllPages('/audit-logs', toParams(filters))).map(normalizeEntry);
+      const rows = list.map((entry) => ({
+        Time: entry.createdAt,
+        Actor: entry.actorEmail,
+        Action: entry.action,
+        'Entity Type': getEntityLabel(entry.entityType),
+        Entity: entry.entityName || entry.entityId,
+        Company: getCompanyName(entry.companyId),
+        Changes: entry.changes
+          .map((change) => `${change.field}: ${formatValue(change.before)} → ${formatValue(change.after)}`)
+          .join('; '),
+        'Correlation ID': entry.correlationId || '',
+      }));
+      exportRows(rows, 'audit-log', format);
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box p={3}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Typography variant="h4">Audit Log</Typography>
+        <ExportMenu onExport={handleExport} disabled={!can('audit_logs', 'export')} />
+      </Box>
+
+      <Box display="flex" gap={2} alignItems="center" mb={2} flexWrap="wrap">
+        <TextField
+          size="small"
+          select
+          label="Actor"
+          value={filters.actorId}
+          onChange={(e) => updateFilters({ actorId: e.target.value })}
+          sx={{ width: '220px' }}
+        >
+          <MenuItem value="">All actors</MenuItem>
+          {actors.map((actor) => (
+            <MenuItem key={actor.id} value={actor.id}>
+              {actor.email}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          size="small"
+          select
+          label="Entity type"
+          value={filters.entityType}
+          onChange={(e) => updateFilters({ entityType: e.target.value })}
+          sx={{ width: '180px' }}
+        >
+          <MenuItem value="">All types</MenuItem>
+          {AUDIT_ENTITY_TYPE_KEYS.map((type) => (
+            <MenuItem key={type} value={type}>
+              {AUDIT_ENTITY_TYPES[type]}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          size="small"
+          select
+          label="Company"
+          value={filters.companyId}
+          onChange={(e) => updateFilters({ companyId: e.target.value })}
+          sx={{ width: '200px' }}
+        >
+          <MenuItem value="">All companies</MenuItem>
+          {renderCompanyOptions(companies)}
+        </TextField>
+        <TextField
+          size="small"
+          type="date"
+          label="From"
+          value={filters.from}
+          onChange={(e) => updateFilters({ from: e.target.value })}
+          InputLabelProps={{ shrink: true }}
+        />
+        <TextField
+          size="small"
+          type="date"
+          label="To"
+          value={filters.to}
+          onChange={(e) => updateFilters({ to: e.target.value })}
+          InputLabelProps={{ shrink: true }}
+        />
+        <TextField
+          size="small"
+          label="Correlation ID"
+          value={correlationInput}
+          onChange={(e) => setCorrelationInput(e.target.value)}
+          sx={{ width: '220px' }}
+        />
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Paper sx={{ width: '100%', overflow: 'hidden' }}>
+        {fetching && <LinearProgress />}
+        <TableContainer sx={{ maxHeight: 'calc(100vh - 320px)' }}>
+          <Table stickyHeader size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox" />
+                <TableCell sx={{ fontWeight: 'bold' }}>Time</TableCell>
+                <TableCell sx={{ fontWeight: 'bold' }}>Actor</TableCell>
+                <TableCell sx={{ fontWeight: 'bold' }}>Action</TableCell>
+                <TableCell sx={{ fontWeight: 'bold' }}>Entity</TableCell>
+                <TableCell sx={{ fontWeight: 'bold' }}>Company</TableCell>
+                <TableCell sx={{ fontWeight: 'bold' }}>Correlation</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {entries.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7}>
+                    <Typography variant="body2" color="textSecondary">
+                      No audit entries match the filters
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              )}
+              {entries.map((entry) => (
+                <Fragment key={entry.id}>
+                  <TableRow hover>
+                    <TableCell padding="checkbox">
+                      <IconButton
+                        size="small"
+                        onClick={() => setExpanded((prev) => ({ ...prev, [entry.id]: !prev[entry.id] }))}
+                        disabled={entry.changes.length === 0}
+                      >
+                        {expanded[entry.id] ? <KeyboardArrowDownIcon /> : <KeyboardArrowRightIcon />}
+                      </IconButton>
+                    </TableCell>
+                    <TableCell>{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>{entry.actorEmail}</TableCell>
+                    <TableCell>
+                      <Chip label={entry.action} color={ACTION_COLORS[entry.action] || 'default'} size="small" />
+                    </TableCell>
+                    <TableCell>
+                      {getEntityLabel(entry.entityType)}
+                      <Typography variant="body2" color="textSecondary" component="span">
+                        {' '}
+                        {entry.entityName || entry.entityId}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{getCompanyName(entry.companyId) || '—'}</TableCell>
+                    <TableCell>
+                      {entry.correlationId && (
+                        <Chip
+                          label={entry.correlationId.slice(0, 8)}
+                          size="small"
+                          variant="outlined"
+                          title="Show every change from this UI action"
+                          onClick={() => updateFilters({ correlationId: entry.correlationId || '' })}
+                          sx={{ fontFamily: 'monospace' }}
+                        />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                  {expanded[entry.id] && (
+                    <TableRow>
+                      <TableCell />
+                      <TableCell colSpan={6} sx={{ bgcolor: 'action.hover' }}>
+                        <Table size="small">
+                          <TableHead>
+                            <TableRow>
+                              <TableCell sx={{ fontWeight: 'bold' }}>Field</TableCell>
+                              <TableCell sx={{ fontWeight: 'bold' }}>Before</TableCell>
+                              <TableCell sx={{ fontWeight: 'bold' }}>After</TableCell>
+                            </TableRow>
+                          </TableHead>
+                          <TableBody>
+                            {entry.changes.map((change) => (
+                              <TableRow key={change.field}>
+                                <TableCell sx={{ fontFamily: 'monospace' }}>{change.field}</TableCell>
+                                <TableCell sx={{ fontFamily: 'monospace', color: 'error.main' }}>
+                                  {formatValue(change.before)}
+                                </TableCell>
+                                <TableCell sx={{ fontFamily: 'monospace', color: 'success.main' }}>
+                                  {formatValue(change.after)}
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        <TablePagination
+          rowsPerPageOptions={PAGE_SIZES}
+          component="div"
+          count={total}
+          rowsPerPage={pageSize}
+          page={page}
+          onPageChange={(_, newPage) => setPage(newPage)}
+          onRowsPerPageChange={(e) => {
+            setPageSize(parseInt(e.target.value, 10));
+            setPage(0);
+          }}
+          sx={{ py: 1 }}
+        />
+      </Paper>
+    </Box>
+  );
+}
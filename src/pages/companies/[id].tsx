@@ -0,0 +1,437 @@
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  Grid,
+  Chip,
+  Alert,
+  CircularProgress,
+  List,
+  ListItem,
+  ListItemText,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import api, { fetchAllPages, handleApiError } from '@/utils/api';
+import DeviceTable from '@/components/devices/DeviceTable';
+import PermissionGate from '@/components/PermissionGate';
+import SsoConfigDialog from '@/components/companies/SsoConfigDialog';
+import DeviceStatusChip, { DeviceStatus } from '@/components/devices/DeviceStatusChip';
+import { normalizeRoleAssignments } from '@/utils/roleAssignments';
+
+interface Company {
+  id: string;
+  name: string;
+  parentId?: string | null;
+  status: 'active' | 'inactive';
+  address: string;
+  contactPerson: string;
+  createdAt: string;
+}
+
+interface Device {
+  id: string;
+  type: string;
+  status: DeviceStatus;
+  location: string;
+  company_id: string;
+  enabled: boolean;
+  updated_at: string;
+}
+
+interface CompanyUser {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  roleNames: string[];
+  status: 'active' | 'inactive';
+}
+
+interface CompanyAlert {
+  id: string;
+  severity: 'info' | 'warning' | 'critical';
+  message: string;
+  deviceId?: string;
+  createdAt: string;
+}
+
+interface DataVolume {
+  readingsLast24h: number;
+  readingsLast7d: number;
+  bytesLast7d: number;
+}
+
+const DEVICE_STATUSES: DeviceStatus[] = ['online', 'offline', 'maintenance'];
+const RECENT_ALERTS_LIMIT = 10;
+const ALERT_COLORS: Record<CompanyAlert['severity'], 'info' | 'warning' | 'error'> = {
+  info: 'info',
+  warning: 'warning',
+  critical: 'error',
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+};
+
+export default function CompanyDetail() {
+  const router = useRouter();
+  const { id } = router.query;
+  const [company, setCompany] = useState<Company | null>(null);
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [users, setUsers] = useState<CompanyUser[]>([]);
+  const [alerts, setAlerts] = useState<CompanyAlert[]>([]);
+  const [volume, setVolume] = useState<DataVolume | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [ssoOpen, setSsoOpen] = useState(false);
+
+  useEffect(() => {
+    if (typeof id === 'string') {
+      fetchCompany(id);
+    }
+  }, [id]);
+
+  const fetchCompany = async (companyId: string) => {
+    try {
+      setLoading(true);
+      const [companyResponse, deviceList] = await Promise.all([
+        api.get(`/companies/${companyId}`),
+        fetchAllPages<Device>('/devices', { companyId }),
+      ]);
+
+      const data = companyResponse.data.data || companyResponse.data;
+      setCompany({
+        id: data.id,
+        name: data.name,
+        parentId: data.parent_id || data.parentId || null,
+        status: data.status,
+        address: data.address,
+        contactPerson: data.contact_person || data.contactPerson,
+        createdAt: data.created_at || data.createdAt,
+      });
+
+      setDevices(deviceList.filter((device: Device) => device.company_id === companyId));
+      setError(null);
+    } catch (error) {
+      setError(handleApiError(error));
+    } finally {
+      setLoading(false);
+    }
+
+    // Users, alerts and usage are secondary; the page stays useful without them
+    fetchUsers(companyId);
+    fetchAlerts(companyId);
+    fetchVolume(companyId);
+  };
+
+  const fetchRoles = async (): Promise<{ id: string; name: string }[]> => {
+    try {
+      const response = await api.get('/roles');
+      return (Array.isArray(response.data) ? response.data : response.data.data) || [];
+    } catch (error) {
+      // Without roles the users are still listed, with role ids instead of names
+      return [];
+    }
+  };
+
+  const fetchUsers = async (companyId: string) => {
+    try {
+      const [usersResponse, roles] = await Promise.all([api.get('/users'), fetchRoles()]);
+      const userList = Array.isArray(usersResponse.data) ? usersResponse.data : usersResponse.data.data;
+      setUsers(
+        (userList || [])
+          .filter((user: any) => (user.company_id || user.companyId) === companyId)
+          .map((user: any) => ({
+            id: user.id || user._id,
+            email: user.email,
+            firstName: user.first_name || user.firstName,
+            lastName: user.last_name || user.lastName,
+            // Company-scoped roles for other companies do not apply here
+            roleNames: normalizeRoleAssignments(user, roles)
+              .filter((assignment) => !assignment.companyId || assignment.companyId === companyId)
+              .map((assignment) => roles.find((role) => role.id === assignment.roleId)?.name || assignment.roleId),
+            status: user.status,
+          }))
+      );
+    } catch (error) {
+      setUsers([]);
+    }
+  };
+
+  const fetchAlerts = async (companyId: string) => {
+    try {
+      const response = await api.get('/alerts', { params: { companyId, limit: RECENT_ALERTS_LIMIT } });
+      const alertList = Array.isArray(response.data) ? response.data : response.data.data;
+      setAlerts(
+        (alertList || []).slice(0, RECENT_ALERTS_LIMIT).map((alert: any) => ({
+          id: alert.id,
+          severity: alert.severity,
+          message: alert.message,
+          deviceId: alert.device_id || alert.deviceId,
+          createdAt: alert.created_at || alert.createdAt,
+        }))
+      );
+    } catch (error) {
+      setAlerts([]);
+    }
+  };
+
+  const fetchVolume = async (companyId: string) => {
+    try {
+      const response = await api.get(`/companies/${companyId}/data-volume`);
+      const data = response.data.data || response.data;
+      setVolume({
+        readingsLast24h: data.readings_last_24h ?? data.readingsLast24h ?? 0,
+        readingsLast7d: data.readings_last_7d ?? data.readingsLast7d ?? 0,
+        bytesLast7d: data.bytes_last_7d ?? data.bytesLast7d ?? 0,
+      });
+    } catch (error) {
+      setVolume(null);
+    }
+  };
+
+  const getDeviceLabel = (deviceId?: string) => {
+    const device = devices.find((d) => d.id === deviceId);
+    return device ? `${device.type} — ${device.location}` : deviceId;
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="100vh">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!company) {
+    return (
+      <Box p={3}>
+        <Alert severity="error">{error || 'Company not found'}</Alert>
+      </Box>
+    );
+  }
+
+  const statusCounts = DEVICE_STATUSES.map((status) => ({
+    status,
+    count: devices.filter((device) => device.status === status).length,
+  }));
+  const disabledCount = devices.filter((device) => !device.enabled).length;
+
+  return (
+    <Box p={3}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Box display="flex" alignItems="center" gap={2}>
+          <Typography variant="h4">{company.name}</Typography>
+          <Chip
+            label={company.status}
+            color={company.status === 'active' ? 'success' : 'default'}
+            size="small"
+          />
+        </Box>
+        <Box display="flex" gap={2}>
+          <PermissionGate resource="companies" action="configure">
+            <Button variant="outlined" onClick={() => setSsoOpen(true)}>
+              Single sign-on
+            </Button>
+          </PermissionGate>
+          <Button variant="outlined" onClick={() => router.push(`/devices?companyId=${company.id}`)}>
+            Open in Devices
+          </Button>
+          <Button variant="outlined" onClick={() => router.push('/companies')}>
+            Back
+          </Button>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Grid container spacing={3}>
+        <Grid item xs={12} md={4}>
+          <Paper sx={{ p: 2, height: '100%' }}>
+            <Typography variant="h6" gutterBottom>
+              Profile
+            </Typography>
+            <Typography color="textSecondary" variant="body2">
+              Address
+            </Typography>
+            <Typography gutterBottom>{company.address || '-'}</Typography>
+            <Typography color="textSecondary" variant="body2">
+              Contact Person
+            </Typography>
+            <Typography gutterBottom>{company.contactPerson || '-'}</Typography>
+            <Typography color="textSecondary" variant="body2">
+              Customer Since
+            </Typography>
+            <Typography>{company.createdAt ? new Date(company.createdAt).toLocaleDateString() : '-'}</Typography>
+          </Paper>
+        </Grid>
+
+        <Grid item xs={12} md={8}>
+          <Grid container spacing={3}>
+            <Grid item xs={12} sm={6} md={3}>
+              <Card>
+                <CardContent>
+                  <Typography color="textSecondary" gutterBottom>
+                    Devices
+                  </Typography>
+                  <Typography variant="h5">{devices.length}</Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            {statusCounts.map(({ status, count }) => (
+              <Grid item xs={12} sm={6} md={3} key={status}>
+                <Card>
+                  <CardContent>
+                    <Box mb={1}>
+                      <DeviceStatusChip status={status} />
+                    </Box>
+                    <Typography variant="h5">{count}</Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+            ))}
+            <Grid item xs={12}>
+              <Paper sx={{ p: 2 }}>
+                <Typography variant="h6" gutterBottom>
+                  Data Volume
+                </Typography>
+                {volume ? (
+                  <Box display="flex" gap={4}>
+                    <Box>
+                      <Typography color="textSecondary" variant="body2">
+                        Readings (24h)
+                      </Typography>
+                      <Typography variant="h6">{volume.readingsLast24h.toLocaleString()}</Typography>
+                    </Box>
+                    <Box>
+                      <Typography color="textSecondary" variant="body2">
+                        Readings (7 days)
+                      </Typography>
+                      <Typography variant="h6">{volume.readingsLast7d.toLocaleString()}</Typography>
+                    </Box>
+                    <Box>
+                      <Typography color="textSecondary" variant="body2">
+                        Ingested (7 days)
+                      </Typography>
+                      <Typography variant="h6">{formatBytes(volume.bytesLast7d)}</Typography>
+                    </Box>
+                  </Box>
+                ) : (
+                  <Typography color="textSecondary">No usage data available</Typography>
+                )}
+                {disabledCount > 0 && (
+                  <Typography variant="body2" color="textSecondary" sx={{ mt: 1 }}>
+                    {disabledCount} device(s) are disabled and do not send data.
+                  </Typography>
+                )}
+              </Paper>
+            </Grid>
+          </Grid>
+        </Grid>
+
+        <Grid item xs={12}>
+          <Paper sx={{ width: '100%', overflow: 'hidden' }}>
+            <Typography variant="h6" sx={{ p: 2, pb: 1 }}>
+              Devices
+            </Typography>
+            <DeviceTable devices={devices} maxHeight={400} />
+          </Paper>
+        </Grid>
+
+        <Grid item xs={12} md={6}>
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              Users
+            </Typography>
+            {users.length === 0 ? (
+              <Typography color="textSecondary">No users in this company</Typography>
+            ) : (
+              <TableContainer sx={{ maxHeight: 360 }}>
+                <Table stickyHeader size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell sx={{ fontWeight: 'bold' }}>Name</TableCell>
+                      <TableCell sx={{ fontWeight: 'bold' }}>Email</TableCell>
+                      <TableCell sx={{ fontWeight: 'bold' }}>Role</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {users.map((user) => (
+                      <TableRow key={user.id}>
+                        <TableCell sx={{ color: user.status === 'inactive' ? 'text.disabled' : undefined }}>
+                          {user.firstName} {user.lastName}
+                        </TableCell>
+                        <TableCell>{user.email}</TableCell>
+                        <TableCell>
+                          <Box display="flex" gap={0.5} flexWrap="wrap">
+                            {user.roleNames.map((roleName) => (
+                              <Chip key={roleName} label={roleName} size="small" variant="outlined" />
+                            ))}
+                          </Box>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </Paper>
+        </Grid>
+
+        <Grid item xs={12} md={6}>
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              Recent Alerts
+            </Typography>
+            {alerts.length === 0 ? (
+              <Typography color="textSecondary">No recent alerts</Typography>
+            ) : (
+              <List dense>
+                {alerts.map((alert) => (
+                  <ListItem key={alert.id} divider>
+                    <Chip
+                      label={alert.severity}
+                      color={ALERT_COLORS[alert.severity] || 'default'}
+                      size="small"
+                      sx={{ mr: 2 }}
+                    />
+                    <ListItemText
+                      primary={alert.message}
+                      secondary={`${new Date(alert.createdAt).toLocaleString()}${
+                        alert.deviceId ? ` — ${getDeviceLabel(alert.deviceId)}` : ''
+                      }`}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </Paper>
+        </Grid>
+      </Grid>
+
+      <SsoConfigDialog company={ssoOpen ? company : null} onClose={() => setSsoOpen(false)} />
+    </Box>
+  );
+}
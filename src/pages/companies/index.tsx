@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
 import {
   Box,
   Button,
@@ -8,18 +9,45 @@ import {
   DialogTitle,
   TextField,
   Typography,
+  IconButton,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+  Alert,
 } from '@mui/material';
-import { DataGrid, GridColDef, GridRenderCellParams } from '@mui/x-data-grid';
+import {
+  AccountTree as AccountTreeIcon,
+  Block as BlockIcon,
+  CheckCircle as CheckCircleIcon,
+  Delete as DeleteIcon,
+  DriveFileMove as DriveFileMoveIcon,
+  Edit as EditIcon,
+  TableRows as TableRowsIcon,
+  Visibility as VisibilityIcon,
+  VpnKey as VpnKeyIcon,
+} from '@mui/icons-material';
+import { DataGrid, GridColDef, GridRenderCellParams, useGridApiRef } from '@mui/x-data-grid';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import api, { handleApiError } from '@/utils/api';
+import ExportMenu from '@/components/ExportMenu';
+import PermissionGate from '@/components/PermissionGate';
+import { usePermissions } from '@/hooks/usePermissions';
+import { getGridExportData } from '@/utils/gridExport';
+import { ExportFormat, exportRows } from '@/utils/spreadsheet';
+import CompanyTree from '@/components/companies/CompanyTree';
+import { renderCompanyOptions } from '@/components/companies/companyOptions';
+import CompanyDependencyDialog, { CompanyLifecycleAction } from '@/components/companies/CompanyDependencyDialog';
+import SsoConfigDialog from '@/components/companies/SsoConfigDialog';
+import { getDescendantIds, wouldCreateCycle } from '@/utils/companyTree';
 
 const companySchema = z.object({
   name: z.string().min(1, 'Name is required'),
   address: z.string().min(1, 'Address is required'),
   contactPerson: z.string().min(1, 'Contact person is required'),
   status: z.enum(['active', 'inactive']),
+  parentId: z.string().optional(),
 });
 
 type CompanyFormData = z.infer<typeof companySchema>;
@@ -27,33 +55,62 @@ type CompanyFormData = z.infer<typeof companySchema>;
 interface Company {
   id: string;
   name: string;
-  parentId?: string;
+  parentId?: string | null;
   status: 'active' | 'inactive';
   address: string;
   contactPerson: string;
+  deviceCount?: number;
+  userCount?: number;
   createdAt: string;
   updatedAt: string;
 }
 
 export default function Companies() {
+  const router = useRouter();
+  const { can } = usePermissions();
   const [companies, setCompanies] = useState<Company[]>([]);
   const [open, setOpen] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<'table' | 'tree'>('table');
+  const [movingCompany, setMovingCompany] = useState<Company | null>(null);
+  const [newParentId, setNewParentId] = useState('');
+  const [editingCompany, setEditingCompany] = useState<Company | null>(null);
+  const [lifecycle, setLifecycle] = useState<{
+    action: CompanyLifecycleAction;
+    company: Company;
+    changes?: Record<string, unknown>;
+  } | null>(null);
+  const [ssoCompany, setSsoCompany] = useState<Company | null>(null);
+  const apiRef = useGridApiRef();
 
   const {
     register,
     handleSubmit,
     reset,
+    watch,
     formState: { errors },
   } = useForm<CompanyFormData>({
     resolver: zodResolver(companySchema),
     defaultValues: {
       status: 'active',
+      parentId: '',
     },
   });
 
+  const selectedParentId = watch('parentId');
+
+  const getCompanyName = (id?: string | null) =>
+    (id && companies.find((company) => company.id === id)?.name) || '';
+
   const columns: GridColDef[] = [
     { field: 'name', headerName: 'Name', flex: 1 },
+    {
+      field: 'parentId',
+      headerName: 'Parent',
+      flex: 1,
+      valueGetter: (value: string | null) => getCompanyName(value),
+    },
     { field: 'address', headerName: 'Address', flex: 1 },
     { field: 'contactPerson', headerName: 'Contact Person', flex: 1 },
     {
@@ -82,6 +139,14 @@ export default function Companies() {
         }
       },
     },
+    {
+      field: 'actions',
+      headerName: 'Actions',
+      width: 200,
+      sortable: false,
+      filterable: false,
+      renderCell: (params: GridRenderCellParams<Company>) => renderActions(params.row),
+    },
   ];
 
   useEffect(() => {
@@ -105,33 +170,188 @@ export default function Companies() {
 
   const handleClose = () => {
     setOpen(false);
-    reset();
+    setEditingCompany(null);
+    reset({ name: '', address: '', contactPerson: '', status: 'active', parentId: '' });
+  };
+
+  const handleEdit = (company: Company) => {
+    setEditingCompany(company);
+    reset({
+      name: company.name,
+      address: company.address,
+      contactPerson: company.contactPerson,
+      status: company.status,
+      parentId: company.parentId || '',
+    });
+    setOpen(true);
+  };
+
+  const handleActivate = async (company: Company) => {
+    try {
+      await api.patch(`/companies/${company.id}`, { status: 'active' });
+      fetchCompanies();
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    const { headers, rows } = getGridExportData(apiRef);
+    exportRows(rows, 'companies', format, headers);
   };
 
   const onSubmit = async (data: CompanyFormData) => {
+    const payload = { ...data, parentId: data.parentId || null };
+    const company = editingCompany;
+
+    // Deactivating goes through the dependency check, which saves the other changes too
+    if (company && company.status === 'active' && data.status === 'inactive') {
+      const { status, ...changes } = payload;
+      handleClose();
+      setLifecycle({ action: 'deactivate', company, changes });
+      return;
+    }
+
     try {
-      await api.post('/companies', data);
+      if (company) {
+        await api.patch(`/companies/${company.id}`, payload);
+      } else {
+        await api.post('/companies', payload);
+      }
       handleClose();
       fetchCompanies();
     } catch (error) {
-      console.error('Failed to create company:', error);
+      console.error('Failed to save company:', error);
+      setError(handleApiError(error));
+    }
+  };
+
+  const handleOpenMove = (company: Company) => {
+    setMovingCompany(company);
+    setNewParentId(company.parentId || '');
+  };
+
+  const handleMove = async () => {
+    if (!movingCompany) return;
+    const parentId = newParentId || null;
+    // The select already disables these, but the hierarchy may have changed meanwhile
+    if (wouldCreateCycle(companies, movingCompany.id, parentId)) {
+      setError('A company cannot be moved under itself or one of its sub-companies');
+      return;
+    }
+
+    try {
+      await api.patch(`/companies/${movingCompany.id}`, { parentId });
+      setMovingCompany(null);
+      fetchCompanies();
+    } catch (error) {
+      setError(handleApiError(error));
     }
   };
 
+  const renderActions = (company: Company) => (
+    <>
+      <IconButton size="small" title="View" onClick={() => router.push(`/companies/${company.id}`)}>
+        <VisibilityIcon fontSize="small" />
+      </IconButton>
+      <IconButton size="small" title="Edit" onClick={() => handleEdit(company)} disabled={!can('companies', 'edit')}>
+        <EditIcon fontSize="small" />
+      </IconButton>
+      <IconButton
+        size="small"
+        title="Move"
+        onClick={() => handleOpenMove(company)}
+        disabled={!can('companies', 'edit')}
+      >
+        <DriveFileMoveIcon fontSize="small" />
+      </IconButton>
+      {company.status === 'active' ? (
+        <IconButton
+          size="small"
+          title="Deactivate"
+          onClick={() => setLifecycle({ action: 'deactivate', company })}
+          disabled={!can('companies', 'edit')}
+        >
+          <BlockIcon fontSize="small" />
+        </IconButton>
+      ) : (
+        <IconButton
+          size="small"
+          title="Activate"
+          onClick={() => handleActivate(company)}
+          disabled={!can('companies', 'edit')}
+        >
+          <CheckCircleIcon fontSize="small" />
+        </IconButton>
+      )}
+      <IconButton
+        size="small"
+        title="Single sign-on"
+        onClick={() => setSsoCompany(company)}
+        disabled={!can('companies', 'configure')}
+      >
+        <VpnKeyIcon fontSize="small" />
+      </IconButton>
+      <IconButton
+        size="small"
+        title="Delete"
+        onClick={() => setLifecycle({ action: 'delete', company })}
+        disabled={!can('companies', 'delete')}
+      >
+        <DeleteIcon fontSize="small" />
+      </IconButton>
+    </>
+  );
+
   return (
     <Box>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 2 }}>
         <Typography variant="h4">Companies</Typography>
-        <Button variant="contained" onClick={handleOpen}>
-          Add Company
-        </Button>
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={view}
+            onChange={(_, value) => value && setView(value)}
+          >
+            <ToggleButton value="table" aria-label="table view">
+              <TableRowsIcon fontSize="small" />
+            </ToggleButton>
+            <ToggleButton value="tree" aria-label="tree view">
+              <AccountTreeIcon fontSize="small" />
+            </ToggleButton>
+          </ToggleButtonGroup>
+          <ExportMenu onExport={handleExport} disabled={loading || view === 'tree' || !can('companies', 'export')} />
+          <PermissionGate resource="companies" action="create" disable>
+            <Button variant="contained" onClick={handleOpen}>
+              Add Company
+            </Button>
+          </PermissionGate>
+        </Box>
       </Box>
 
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {view === 'tree' ? (
+        <CompanyTree companies={companies} renderActions={renderActions} />
+      ) : (
       <DataGrid
+        apiRef={apiRef}
         rows={companies}
         columns={columns}
         loading={loading}
         autoHeight
+        showToolbar
+        slotProps={{
+          toolbar: {
+            csvOptions: { disableToolbarButton: true },
+            printOptions: { disableToolbarButton: true },
+          },
+        }}
         initialState={{
           pagination: {
             paginationModel: { pageSize: 10 },
@@ -140,10 +360,11 @@ export default function Companies() {
         pageSizeOptions={[10]}
         disableRowSelectionOnClick
       />
+      )}
 
       <Dialog open={open} onClose={handleClose}>
         <form onSubmit={handleSubmit(onSubmit)}>
-          <DialogTitle>Add New Company</DialogTitle>
+          <DialogTitle>{editingCompany ? 'Edit Company' : 'Add New Company'}</DialogTitle>
           <DialogContent>
             <TextField
               {...register('name')}
@@ -184,15 +405,76 @@ export default function Companies() {
               <option value="active">Active</option>
               <option value="inactive">Inactive</option>
             </TextField>
+            <TextField
+              {...register('parentId')}
+              select
+              label="Parent Company"
+              value={selectedParentId || ''}
+              fullWidth
+              margin="normal"
+            >
+              <MenuItem value="">
+                <em>None (top level)</em>
+              </MenuItem>
+              {renderCompanyOptions(
+                companies,
+                editingCompany ? [editingCompany.id, ...getDescendantIds(companies, editingCompany.id)] : []
+              )}
+            </TextField>
           </DialogContent>
           <DialogActions>
             <Button onClick={handleClose}>Cancel</Button>
             <Button type="submit" variant="contained">
-              Create
+              {editingCompany ? 'Save' : 'Create'}
             </Button>
           </DialogActions>
         </form>
       </Dialog>
+
+      <Dialog open={!!movingCompany} onClose={() => setMovingCompany(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Move {movingCompany?.name}</DialogTitle>
+        <DialogContent>
+          <TextField
+            select
+            label="New Parent"
+            value={newParentId}
+            onChange={(e) => setNewParentId(e.target.value)}
+            fullWidth
+            margin="normal"
+            helperText="The company moves together with all of its sub-companies"
+          >
+            <MenuItem value="">
+              <em>None (top level)</em>
+            </MenuItem>
+            {movingCompany &&
+              renderCompanyOptions(companies, [
+                movingCompany.id,
+                ...getDescendantIds(companies, movingCompany.id),
+              ])}
+          </TextField>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setMovingCompany(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleMove}
+            disabled={(movingCompany?.parentId || '') === newParentId}
+          >
+            Move
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <CompanyDependencyDialog
+        action={lifecycle?.action || null}
+        company={lifecycle?.company || null}
+        companies={companies}
+        changes={lifecycle?.changes}
+        onClose={() => setLifecycle(null)}
+        onCompleted={fetchCompanies}
+      />
+
+      <SsoConfigDialog company={ssoCompany} onClose={() => setSsoCompany(null)} />
     </Box>
   );
 } 
\ No newline at end of file
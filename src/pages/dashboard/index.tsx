@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useRouter } from 'next/router';
 import {
   Grid,
@@ -8,30 +8,16 @@ import {
   Card,
   CardContent,
   CardHeader,
+  List,
+  ListItem,
+  ListItemText,
 } from '@mui/material';
-import {
-  Chart as ChartJS,
-  CategoryScale,
-  LinearScale,
-  PointElement,
-  LineElement,
-  Title,
-  Tooltip,
-  Legend,
-} from 'chart.js';
 import { Line } from 'react-chartjs-2';
+import '@/utils/chart';
 import api from '@/utils/api';
 import Cookies from 'js-cookie';
-
-ChartJS.register(
-  CategoryScale,
-  LinearScale,
-  PointElement,
-  LineElement,
-  Title,
-  Tooltip,
-  Legend
-);
+import { usePollingFallback, useRealtimeResync, useRealtimeSubscription } from '@/hooks/useRealtime';
+import { DeviceReadingEvent, StatsDeltaEvent, TOPICS } from '@/utils/realtime';
 
 interface DashboardStats {
   totalCompanies: number;
@@ -40,6 +26,8 @@ interface DashboardStats {
   totalUsers: number;
 }
 
+const MAX_RECENT_READINGS = 10;
+
 export default function Dashboard() {
   const router = useRouter();
   const [stats, setStats] = useState<DashboardStats>({
@@ -54,6 +42,32 @@ export default function Dashboard() {
     datasets: [],
   });
 
+  const [recentReadings, setRecentReadings] = useState<DeviceReadingEvent[]>([]);
+
+  const fetchStats = useCallback(async () => {
+    try {
+      const response = await api.get('/companies/stats');
+      setStats(response.data);
+    } catch (error: any) {
+      console.error('Failed to fetch dashboard stats:', error);
+      if (error.response?.status === 401) {
+        router.replace('/login');
+      }
+    }
+  }, [router]);
+
+  const fetchDeviceData = useCallback(async () => {
+    try {
+      const response = await api.get('/devices/stats');
+      setDeviceData(response.data);
+    } catch (error: any) {
+      console.error('Failed to fetch device data:', error);
+      if (error.response?.status === 401) {
+        router.replace('/login');
+      }
+    }
+  }, [router]);
+
   useEffect(() => {
     // Check if user is authenticated
     const token = Cookies.get('accessToken');
@@ -62,41 +76,32 @@ export default function Dashboard() {
       return;
     }
 
-    const fetchStats = async () => {
-      try {
-        const response = await api.get('/companies/stats');
-        setStats(response.data);
-      } catch (error: any) {
-        console.error('Failed to fetch dashboard stats:', error);
-        if (error.response?.status === 401) {
-          router.replace('/login');
-        }
-      }
-    };
-
-    const fetchDeviceData = async () => {
-      try {
-        const response = await api.get('/devices/stats');
-        setDeviceData(response.data);
-      } catch (error: any) {
-        console.error('Failed to fetch device data:', error);
-        if (error.response?.status === 401) {
-          router.replace('/login');
-        }
-      }
-    };
-
     fetchStats();
     fetchDeviceData();
+  }, [router, fetchStats, fetchDeviceData]);
 
-    // Set up polling for real-time updates
-    const interval = setInterval(() => {
-      fetchStats();
-      fetchDeviceData();
-    }, 30000); // Poll every 30 seconds
+  // Poll every 30 seconds, but only while the realtime socket is down
+  usePollingFallback(() => {
+    fetchStats();
+    fetchDeviceData();
+  }, 30000);
+
+  // Deltas missed while the socket was down would leave the totals wrong
+  useRealtimeResync(fetchStats);
+
+  useRealtimeSubscription<StatsDeltaEvent>(TOPICS.stats, ({ event, data }) => {
+    if (event !== 'delta') return;
+    setStats((prev) => ({
+      totalCompanies: prev.totalCompanies + (data.totalCompanies ?? 0),
+      totalDevices: prev.totalDevices + (data.totalDevices ?? 0),
+      activeDevices: prev.activeDevices + (data.activeDevices ?? 0),
+      totalUsers: prev.totalUsers + (data.totalUsers ?? 0),
+    }));
+  });
 
-    return () => clearInterval(interval);
-  }, [router]);
+  useRealtimeSubscription<DeviceReadingEvent>(TOPICS.readings, ({ data }) => {
+    setRecentReadings((prev) => [data, ...prev].slice(0, MAX_RECENT_READINGS));
+  });
 
   return (
     <Box>
@@ -172,6 +177,30 @@ export default function Dashboard() {
             </Box>
           </Paper>
         </Grid>
+
+        {/* Live Readings */}
+        <Grid item xs={12}>
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              Latest Readings
+            </Typography>
+            {recentReadings.length === 0 ? (
+              <Typography color="textSecondary">Waiting for device readings...</Typography>
+            ) : (
+              <List dense>
+                {recentReadings.map((reading) => (
+                  <ListItem key={`${reading.deviceId}-${reading.timestamp}`} divider>
+                    <ListItemText
+                      primary={reading.deviceId}
+                      secondary={`${new Date(reading.timestamp).toLocaleString()} — ${JSON.stringify(reading.payload)}`}
+                      secondaryTypographyProps={{ sx: { fontFamily: 'monospace' } }}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </Paper>
+        </Grid>
       </Grid>
     </Box>
   );
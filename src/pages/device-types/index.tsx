@@ -0,0 +1,423 @@
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Tooltip,
+  TextField,
+  Typography,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Checkbox,
+  FormControlLabel,
+} from '@mui/material';
+import {
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Sync as SyncIcon,
+  ExpandMore as ExpandMoreIcon,
+} from '@mui/icons-material';
+import { DataGrid, GridColDef } from '@mui/x-data-grid';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import api, { fetchAllPages, handleApiError } from '@/utils/api';
+import PermissionGate from '@/components/PermissionGate';
+import { usePermissions } from '@/hooks/usePermissions';
+import SchemaBuilder from '@/components/payload/SchemaBuilder';
+import SchemaDiff from '@/components/payload/SchemaDiff';
+import {
+  diffSchemas,
+  fieldsToSchema,
+  hasIncompleteFields,
+  JsonSchema,
+  SchemaChange,
+  SchemaFieldDefinition,
+  schemaToFields,
+} from '@/utils/payloadSchema';
+import { SCHEMA_DRAFTS, validateJsonSchema } from '@/utils/schemaValidation';
+
+const deviceTypeSchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters').max(50),
+  description: z.string().max(255).optional(),
+  push_interval: z.number().int().positive('Push interval must be positive'),
+  location_pattern: z.string().max(255).optional(),
+});
+
+type DeviceTypeFormData = z.infer<typeof deviceTypeSchema>;
+
+interface DeviceType {
+  id: string;
+  name: string;
+  description: string;
+  push_interval: number;
+  location_pattern: string;
+  payload_schema: JsonSchema;
+  device_count: number;
+  updated_at?: string;
+}
+
+interface LinkedDevice {
+  id: string;
+  location: string;
+  changes: SchemaChange[];
+}
+
+const BASE_SCHEMA: JsonSchema = { $schema: SCHEMA_DRAFTS['draft-07'], type: 'object' };
+
+const mapDeviceType = (deviceType: any): DeviceType => ({
+  id: deviceType.id,
+  name: deviceType.name,
+  description: deviceType.description || '',
+  push_interval: deviceType.push_interval || deviceType.pushInterval,
+  location_pattern: deviceType.location_pattern || deviceType.locationPattern || '',
+  payload_schema: deviceType.payload_schema || deviceType.payloadSchema || {},
+  device_count: deviceType.device_count ?? deviceType.deviceCount ?? 0,
+  updated_at: deviceType.updated_at || deviceType.updatedAt,
+});
+
+export default function DeviceTypes() {
+  const { can } = usePermissions();
+  const [deviceTypes, setDeviceTypes] = useState<DeviceType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+  const [editingType, setEditingType] = useState<DeviceType | null>(null);
+  const [fields, setFields] = useState<SchemaFieldDefinition[]>([]);
+  const [schemaErrors, setSchemaErrors] = useState<string[]>([]);
+  const [propagateType, setPropagateType] = useState<DeviceType | null>(null);
+  const [linkedDevices, setLinkedDevices] = useState<LinkedDevice[]>([]);
+  const [selectedDeviceIds, setSelectedDeviceIds] = useState<string[]>([]);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [propagating, setPropagating] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<DeviceTypeFormData>({
+    resolver: zodResolver(deviceTypeSchema),
+    defaultValues: {
+      push_interval: 60,
+    },
+  });
+
+  const columns: GridColDef[] = [
+    { field: 'name', headerName: 'Name', flex: 1 },
+    { field: 'description', headerName: 'Description', flex: 2 },
+    { field: 'push_interval', headerName: 'Push Interval (s)', flex: 1 },
+    {
+      field: 'payload_schema',
+      headerName: 'Fields',
+      flex: 1,
+      valueGetter: (value: JsonSchema) => Object.keys(value?.properties || {}).length,
+    },
+    { field: 'device_count', headerName: 'Devices', flex: 1 },
+    {
+      field: 'actions',
+      headerName: 'Actions',
+      flex: 1,
+      sortable: false,
+      renderCell: (params) => (
+        <Box>
+          <IconButton size="small" onClick={() => handleOpen(params.row)} disabled={!can('device_types', 'edit')}>
+            <EditIcon />
+          </IconButton>
+          <Tooltip title="Apply schema to devices">
+            <span>
+              <IconButton
+                size="small"
+                onClick={() => handleOpenPropagate(params.row)}
+                disabled={!can('device_types', 'edit')}
+              >
+                <SyncIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <IconButton size="small" onClick={() => handleDelete(params.row)} disabled={!can('device_types', 'delete')}>
+            <DeleteIcon />
+          </IconButton>
+        </Box>
+      ),
+    },
+  ];
+
+  useEffect(() => {
+    fetchDeviceTypes();
+  }, []);
+
+  const fetchDeviceTypes = async () => {
+    try {
+      const response = await api.get('/device-types');
+      const data = Array.isArray(response.data) ? response.data : response.data.data;
+      setDeviceTypes((data || []).map(mapDeviceType));
+      setError(null);
+    } catch (error) {
+      setError(handleApiError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpen = (deviceType?: DeviceType) => {
+    setEditingType(deviceType || null);
+    setFields(schemaToFields(deviceType?.payload_schema));
+    setSchemaErrors([]);
+    reset({
+      name: deviceType?.name || '',
+      description: deviceType?.description || '',
+      push_interval: deviceType?.push_interval || 60,
+      location_pattern: deviceType?.location_pattern || '',
+    });
+    setOpen(true);
+  };
+
+  const handleClose = () => {
+    setOpen(false);
+    setEditingType(null);
+    reset();
+  };
+
+  const onSubmit = async (data: DeviceTypeFormData) => {
+    const base = editingType?.payload_schema && Object.keys(editingType.payload_schema).length > 0
+      ? editingType.payload_schema
+      : BASE_SCHEMA;
+    const payload_schema = fieldsToSchema(fields, base);
+    const validationErrors = validateJsonSchema(payload_schema);
+    if (validationErrors.length > 0) {
+      setSchemaErrors(validationErrors.map((e) => `${e.path}: ${e.message}`));
+      return;
+    }
+
+    try {
+      if (editingType) {
+        await api.put(`/device-types/${editingType.id}`, { ...data, payload_schema });
+      } else {
+        await api.post('/device-types', { ...data, payload_schema });
+      }
+      handleClose();
+      fetchDeviceTypes();
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  const handleDelete = async (deviceType: DeviceType) => {
+    if (deviceType.device_count > 0) {
+      setError(`${deviceType.name} is still used by ${deviceType.device_count} device(s) and cannot be deleted`);
+      return;
+    }
+    if (!window.confirm('Are you sure you want to delete this device type?')) return;
+
+    try {
+      await api.delete(`/device-types/${deviceType.id}`);
+      fetchDeviceTypes();
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  // Preview how the template schema would change each linked device before propagating
+  const handleOpenPropagate = async (deviceType: DeviceType) => {
+    setPropagateType(deviceType);
+    setPreviewLoading(true);
+    try {
+      const data = await fetchAllPages('/devices', { deviceTypeId: deviceType.id });
+      // Older backends ignore the filter, so match on the device type again here
+      const linked = data.filter(
+        (device: any) => (device.device_type_id || device.deviceTypeId) === deviceType.id
+      );
+      const devices: LinkedDevice[] = linked.map((device: any) => ({
+        id: device.id,
+        location: device.location,
+        changes: diffSchemas(device.payload_schema || device.payloadSchema, deviceType.payload_schema),
+      }));
+      setLinkedDevices(devices);
+      setSelectedDeviceIds(devices.filter((device) => device.changes.length > 0).map((device) => device.id));
+    } catch (error) {
+      setError(handleApiError(error));
+      setPropagateType(null);
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const handleClosePropagate = () => {
+    setPropagateType(null);
+    setLinkedDevices([]);
+    setSelectedDeviceIds([]);
+  };
+
+  const handlePropagate = async () => {
+    if (!propagateType) return;
+    try {
+      setPropagating(true);
+      await api.post(`/device-types/${propagateType.id}/propagate`, { deviceIds: selectedDeviceIds });
+      handleClosePropagate();
+      fetchDeviceTypes();
+    } catch (error) {
+      setError(handleApiError(error));
+    } finally {
+      setPropagating(false);
+    }
+  };
+
+  const toggleDevice = (id: string) => {
+    setSelectedDeviceIds((prev) => (prev.includes(id) ? prev.filter((d) => d !== id) : [...prev, id]));
+  };
+
+  const outdatedDevices = linkedDevices.filter((device) => device.changes.length > 0);
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 2 }}>
+        <Typography variant="h4">Device Types</Typography>
+        <PermissionGate resource="device_types" action="create" disable>
+          <Button variant="contained" onClick={() => handleOpen()}>
+            Add Device Type
+          </Button>
+        </PermissionGate>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <DataGrid
+        rows={deviceTypes}
+        columns={columns}
+        loading={loading}
+        autoHeight
+        initialState={{
+          pagination: {
+            paginationModel: { pageSize: 10 },
+          },
+        }}
+        pageSizeOptions={[10]}
+        disableRowSelectionOnClick
+      />
+
+      <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+        <form onSubmit={handleSubmit(onSubmit)}>
+          <DialogTitle>{editingType ? 'Edit Device Type' : 'Add Device Type'}</DialogTitle>
+          <DialogContent>
+            <TextField
+              {...register('name')}
+              label="Name"
+              fullWidth
+              margin="normal"
+              error={!!errors.name}
+              helperText={errors.name?.message}
+            />
+            <TextField
+              {...register('description')}
+              label="Description"
+              fullWidth
+              margin="normal"
+              error={!!errors.description}
+              helperText={errors.description?.message}
+            />
+            <TextField
+              {...register('push_interval', { valueAsNumber: true })}
+              type="number"
+              label="Default Push Interval (seconds)"
+              fullWidth
+              margin="normal"
+              error={!!errors.push_interval}
+              helperText={errors.push_interval?.message}
+            />
+            <TextField
+              {...register('location_pattern')}
+              label="Default Location Pattern"
+              placeholder="e.g. Cold room {n}"
+              fullWidth
+              margin="normal"
+              error={!!errors.location_pattern}
+              helperText={
+                errors.location_pattern?.message ||
+                'Pre-filled as the location of new devices; {n} becomes the next device number of this type'
+              }
+            />
+
+            <Typography variant="h6" sx={{ mt: 2, mb: 1 }}>
+              Payload Schema
+            </Typography>
+            {schemaErrors.length > 0 && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {schemaErrors.join('; ')}
+              </Alert>
+            )}
+            <SchemaBuilder fields={fields} onChange={setFields} />
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={handleClose}>Cancel</Button>
+            <Button type="submit" variant="contained" disabled={hasIncompleteFields(fields)}>
+              {editingType ? 'Update' : 'Create'}
+            </Button>
+          </DialogActions>
+        </form>
+      </Dialog>
+
+      <Dialog open={!!propagateType} onClose={handleClosePropagate} maxWidth="md" fullWidth>
+        <DialogTitle>Apply {propagateType?.name} schema to devices</DialogTitle>
+        <DialogContent>
+          {previewLoading ? (
+            <Box display="flex" justifyContent="center" p={3}>
+              <CircularProgress />
+            </Box>
+          ) : outdatedDevices.length === 0 ? (
+            <Typography color="textSecondary">
+              All {linkedDevices.length} linked device(s) already use this schema.
+            </Typography>
+          ) : (
+            <>
+              <Typography variant="body2" color="textSecondary" paragraph>
+                {outdatedDevices.length} of {linkedDevices.length} linked device(s) have a different payload
+                schema. Review the changes and pick the devices to update.
+              </Typography>
+              {outdatedDevices.map((device) => (
+                <Accordion key={device.id} disableGutters>
+                  <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                    <FormControlLabel
+                      onClick={(e) => e.stopPropagation()}
+                      control={
+                        <Checkbox
+                          checked={selectedDeviceIds.includes(device.id)}
+                          onChange={() => toggleDevice(device.id)}
+                        />
+                      }
+                      label={`${device.location} — ${device.changes.length} change(s)`}
+                    />
+                  </AccordionSummary>
+                  <AccordionDetails>
+                    <SchemaDiff changes={device.changes} beforeLabel="Device" afterLabel="Template" />
+                  </AccordionDetails>
+                </Accordion>
+              ))}
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleClosePropagate}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handlePropagate}
+            disabled={propagating || selectedDeviceIds.length === 0}
+          >
+            {propagating ? <CircularProgress size={24} /> : `Update ${selectedDeviceIds.length} device(s)`}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
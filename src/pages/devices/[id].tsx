@@ -14,21 +14,10 @@ import {
 } from '@mui/material';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import api, { handleApiError } from '@/utils/api';
-
-const deviceSchema = z.object({
-  type: z.string().min(2, 'Type must be at least 2 characters').max(50),
-  company_id: z.string().min(1, 'Company is required'),
-  status: z.enum(['online', 'offline', 'maintenance']).default('offline'),
-  location: z.string().min(2, 'Location must be at least 2 characters').max(255),
-  physical_address: z.string().min(5, 'Physical address must be at least 5 characters').max(1000),
-  payload_schema: z.record(z.unknown()).default({}),
-  push_interval: z.number().int().positive().default(60),
-  enabled: z.boolean().default(true),
-});
-
-type DeviceFormData = z.infer<typeof deviceSchema>;
+import { deviceSchema, DeviceFormData } from '@/schemas/device';
+import { toDeviceFormData } from '@/utils/devices';
+import PermissionGate from '@/components/PermissionGate';
 
 interface Company {
   id: string;
@@ -75,16 +64,7 @@ export default function EditDevice() {
       const deviceData = response.data;
       console.log('Device data from API:', deviceData);
       
-      const formData = {
-        type: deviceData.type,
-        company_id: deviceData.company_id || deviceData.companyId,
-        status: deviceData.status,
-        location: deviceData.location,
-        physical_address: deviceData.physical_address || deviceData.physicalAddress,
-        payload_schema: deviceData.payload_schema || deviceData.payloadSchema,
-        push_interval: deviceData.push_interval || deviceData.pushInterval,
-        enabled: deviceData.enabled,
-      };
+      const formData = toDeviceFormData(deviceData);
       console.log('Form data being set:', formData);
       reset(formData);
     } catch (error) {
@@ -125,9 +105,17 @@ export default function EditDevice() {
 
   return (
     <Box p={3}>
-      <Typography variant="h4" gutterBottom>
-        Edit Device
-      </Typography>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2} maxWidth={600}>
+        <Typography variant="h4">Edit Device</Typography>
+        <Box display="flex" gap={1}>
+          <Button variant="outlined" onClick={() => router.push(`/devices/${id}/readings`)}>
+            Readings
+          </Button>
+          <Button variant="outlined" onClick={() => router.push(`/devices/${id}/payload`)}>
+            Payload Schema
+          </Button>
+        </Box>
+      </Box>
 
       {error && (
         <Alert severity="error" sx={{ mb: 2 }}>
@@ -225,14 +213,16 @@ export default function EditDevice() {
             >
               Cancel
             </Button>
-            <Button
-              type="submit"
-              variant="contained"
-              color="primary"
-              disabled={loading}
-            >
-              {loading ? <CircularProgress size={24} /> : 'Update Device'}
-            </Button>
+            <PermissionGate resource="devices" action="edit" disable>
+              <Button
+                type="submit"
+                variant="contained"
+                color="primary"
+                disabled={loading}
+              >
+                {loading ? <CircularProgress size={24} /> : 'Update Device'}
+              </Button>
+            </PermissionGate>
           </Box>
         </form>
       </Paper>
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'next/router';
 import {
   Box,
@@ -8,64 +8,129 @@ import {
   TextField,
   Alert,
   CircularProgress,
+  Grid,
+  MenuItem,
+  Tab,
+  Tabs,
 } from '@mui/material';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import axios from 'axios';
+import api, { handleApiError } from '@/utils/api';
+import PermissionGate from '@/components/PermissionGate';
+import SchemaBuilder from '@/components/payload/SchemaBuilder';
+import PayloadTester from '@/components/payload/PayloadTester';
+import SchemaVersionHistory from '@/components/payload/SchemaVersionHistory';
+import {
+  fieldsToSchema,
+  hasIncompleteFields,
+  JsonSchema,
+  SchemaFieldDefinition,
+  schemaToFields,
+} from '@/utils/payloadSchema';
+import { detectDraft, SCHEMA_DRAFTS, SchemaDraft, validateJsonSchema } from '@/utils/schemaValidation';
+
+const parseJson = (val: string): unknown => {
+  try {
+    return JSON.parse(val);
+  } catch {
+    return undefined;
+  }
+};
 
 const payloadSchema = z.object({
-  schema: z.string().refine(
-    (val) => {
-      try {
-        JSON.parse(val);
-        return true;
-      } catch {
-        return false;
-      }
-    },
-    { message: 'Invalid JSON schema' }
-  ),
+  schema: z.string().superRefine((val, ctx) => {
+    const parsed = parseJson(val);
+    if (parsed === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid JSON' });
+      return;
+    }
+    validateJsonSchema(parsed).forEach((error) => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${error.path}: ${error.message}` });
+    });
+  }),
+  comment: z.string().max(255, 'Comment must be at most 255 characters').optional(),
 });
 
 type PayloadFormData = z.infer<typeof payloadSchema>;
 
 interface Device {
   id: string;
-  name: string;
-  payloadSchema: any;
+  type: string;
+  location: string;
+  payloadSchema: JsonSchema;
 }
 
+const DEFAULT_SCHEMA: JsonSchema = {
+  $schema: SCHEMA_DRAFTS['draft-07'],
+  type: 'object',
+  properties: {},
+};
+
 export default function DevicePayload() {
   const router = useRouter();
   const { id } = router.query;
   const [device, setDevice] = useState<Device | null>(null);
   const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [tab, setTab] = useState<'builder' | 'json'>('builder');
+  const [fields, setFields] = useState<SchemaFieldDefinition[]>([]);
+  const [baseSchema, setBaseSchema] = useState<JsonSchema>(DEFAULT_SCHEMA);
+  const [jsonError, setJsonError] = useState<string | null>(null);
+  const [historyKey, setHistoryKey] = useState(0);
 
   const {
     register,
     handleSubmit,
     reset,
+    setValue,
+    watch,
     formState: { errors },
   } = useForm<PayloadFormData>({
     resolver: zodResolver(payloadSchema),
   });
 
+  const schemaText = watch('schema') || '';
+  const { validationErrors, editedSchema } = useMemo(() => {
+    const parsed = parseJson(schemaText);
+    if (parsed === undefined) return { validationErrors: [], editedSchema: null };
+    const schemaErrors = validateJsonSchema(parsed);
+    return {
+      validationErrors: schemaErrors,
+      editedSchema: schemaErrors.length === 0 ? (parsed as JsonSchema) : null,
+    };
+  }, [schemaText]);
+
   useEffect(() => {
     if (id) {
       fetchDevice();
     }
   }, [id]);
 
+  const loadSchema = (schema: JsonSchema) => {
+    setBaseSchema(schema);
+    setFields(schemaToFields(schema));
+    setJsonError(null);
+    reset({
+      schema: JSON.stringify(schema, null, 2),
+      comment: '',
+    });
+  };
+
   const fetchDevice = async () => {
     try {
-      const response = await axios.get(`/api/devices/${id}`);
-      setDevice(response.data);
-      reset({
-        schema: JSON.stringify(response.data.payloadSchema, null, 2),
+      const response = await api.get(`/devices/${id}`);
+      const deviceData = response.data;
+      const schema = deviceData.payload_schema || deviceData.payloadSchema;
+      setDevice({
+        id: deviceData.id,
+        type: deviceData.type,
+        location: deviceData.location,
+        payloadSchema: schema,
       });
+      loadSchema(schema && Object.keys(schema).length > 0 ? schema : DEFAULT_SCHEMA);
     } catch (error) {
       setError('Failed to fetch device details');
     } finally {
@@ -73,18 +138,57 @@ export default function DevicePayload() {
     }
   };
 
+  const handleFieldsChange = (nextFields: SchemaFieldDefinition[]) => {
+    setFields(nextFields);
+    setValue('schema', JSON.stringify(fieldsToSchema(nextFields, baseSchema), null, 2), {
+      shouldValidate: true,
+    });
+  };
+
+  // Keep the builder in sync with hand edits as long as the JSON parses
+  const handleJsonChange = (value: string) => {
+    const parsed = parseJson(value);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      setJsonError('The JSON must be a valid object before the builder can be used');
+      return;
+    }
+    setJsonError(null);
+    setBaseSchema(parsed as JsonSchema);
+    setFields(schemaToFields(parsed as JsonSchema));
+  };
+
+  const handleDraftChange = (draft: SchemaDraft) => {
+    const nextBase = { ...baseSchema, $schema: SCHEMA_DRAFTS[draft] };
+    setBaseSchema(nextBase);
+    setValue('schema', JSON.stringify(fieldsToSchema(fields, nextBase), null, 2), {
+      shouldValidate: true,
+    });
+  };
+
   const onSubmit = async (data: PayloadFormData) => {
     try {
+      setSaving(true);
       const schema = JSON.parse(data.schema);
-      await axios.patch(`/api/devices/${id}/payload-schema`, { schema });
+      await api.patch(`/devices/${id}/payload-schema`, { schema, comment: data.comment || undefined });
+      setValue('comment', '');
+      setHistoryKey((key) => key + 1);
       setSuccess('Payload schema updated successfully');
       setTimeout(() => setSuccess(null), 3000);
     } catch (error) {
-      setError('Failed to update payload schema');
+      setError(handleApiError(error));
       setTimeout(() => setError(null), 3000);
+    } finally {
+      setSaving(false);
     }
   };
 
+  const handleRolledBack = (schema: JsonSchema) => {
+    loadSchema(schema);
+    setHistoryKey((key) => key + 1);
+    setSuccess('Payload schema rolled back');
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
   if (loading) {
     return (
       <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
@@ -101,10 +205,12 @@ export default function DevicePayload() {
     );
   }
 
+  const incomplete = hasIncompleteFields(fields);
+
   return (
     <Box p={3}>
       <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
-        <Typography variant="h4">Payload Schema - {device.name}</Typography>
+        <Typography variant="h4">Payload Schema - {device.type} ({device.location})</Typography>
         <Button variant="outlined" onClick={() => router.back()}>
           Back to Device
         </Button>
@@ -122,36 +228,109 @@ export default function DevicePayload() {
         </Alert>
       )}
 
-      <Paper sx={{ p: 3 }}>
-        <form onSubmit={handleSubmit(onSubmit)}>
-          <Typography variant="h6" gutterBottom>
-            JSON Schema
-          </Typography>
-          <Typography variant="body2" color="textSecondary" paragraph>
-            Define the expected payload structure for this device. Use JSON Schema format.
-          </Typography>
-
-          <TextField
-            {...register('schema')}
-            multiline
-            rows={20}
-            fullWidth
-            error={!!errors.schema}
-            helperText={errors.schema?.message}
-            sx={{
-              '& .MuiInputBase-root': {
-                fontFamily: 'monospace',
-              },
-            }}
-          />
-
-          <Box mt={2}>
-            <Button type="submit" variant="contained" color="primary">
-              Update Schema
-            </Button>
-          </Box>
-        </form>
-      </Paper>
+      <Grid container spacing={3}>
+        <Grid item xs={12} lg={7}>
+          <Paper sx={{ p: 3 }}>
+            <form onSubmit={handleSubmit(onSubmit)}>
+              <Box display="flex" justifyContent="space-between" alignItems="center">
+                <Typography variant="h6" gutterBottom>
+                  JSON Schema
+                </Typography>
+                <TextField
+                  select
+                  size="small"
+                  label="Draft"
+                  value={detectDraft(baseSchema) || ''}
+                  onChange={(e) => handleDraftChange(e.target.value as SchemaDraft)}
+                  disabled={!!jsonError}
+                  sx={{ width: 140 }}
+                >
+                  <MenuItem value="draft-07">Draft-07</MenuItem>
+                  <MenuItem value="2020-12">2020-12</MenuItem>
+                </TextField>
+              </Box>
+              <Typography variant="body2" color="textSecondary" paragraph>
+                Define the expected payload structure for this device. Use JSON Schema format.
+              </Typography>
+
+              <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 2 }}>
+                <Tab label="Builder" value="builder" />
+                <Tab label="JSON" value="json" />
+              </Tabs>
+
+              {tab === 'builder' && (
+                <>
+                  {jsonError && (
+                    <Alert severity="warning" sx={{ mb: 2 }}>
+                      {jsonError}
+                    </Alert>
+                  )}
+                  <SchemaBuilder fields={fields} onChange={handleFieldsChange} disabled={!!jsonError} />
+                </>
+              )}
+
+              <Box sx={{ display: tab === 'json' ? 'block' : 'none' }}>
+                <TextField
+                  {...register('schema', { onChange: (e) => handleJsonChange(e.target.value) })}
+                  multiline
+                  rows={20}
+                  fullWidth
+                  error={!!errors.schema}
+                  helperText={errors.schema?.message}
+                  sx={{
+                    '& .MuiInputBase-root': {
+                      fontFamily: 'monospace',
+                    },
+                  }}
+                />
+              </Box>
+
+              {validationErrors.length > 0 && (
+                <Alert severity="error" sx={{ mt: 2 }}>
+                  The schema is not valid JSON Schema:
+                  <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                    {validationErrors.map((validationError, index) => (
+                      <li key={index}>
+                        <code>{validationError.path}</code> {validationError.message}
+                      </li>
+                    ))}
+                  </Box>
+                </Alert>
+              )}
+
+              <TextField
+                {...register('comment')}
+                label="Change comment"
+                placeholder="What changed and why"
+                fullWidth
+                size="small"
+                error={!!errors.comment}
+                helperText={errors.comment?.message}
+                sx={{ mt: 2 }}
+              />
+
+              <Box mt={2}>
+                <PermissionGate resource="payload_schemas" action="edit" disable>
+                  <Button
+                    type="submit"
+                    variant="contained"
+                    color="primary"
+                    disabled={saving || incomplete || !!jsonError}
+                  >
+                    {saving ? <CircularProgress size={24} /> : 'Update Schema'}
+                  </Button>
+                </PermissionGate>
+              </Box>
+            </form>
+          </Paper>
+        </Grid>
+        <Grid item xs={12} lg={5}>
+          <PayloadTester deviceId={device.id} schema={editedSchema} />
+        </Grid>
+        <Grid item xs={12}>
+          <SchemaVersionHistory deviceId={device.id} refreshKey={historyKey} onRolledBack={handleRolledBack} />
+        </Grid>
+      </Grid>
     </Box>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,428 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/router';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  TextField,
+  MenuItem,
+  Alert,
+  CircularProgress,
+  Chip,
+  Slider,
+  ToggleButton,
+  ToggleButtonGroup,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+} from '@mui/material';
+import { ShowChart as ShowChartIcon, TableChart as TableChartIcon } from '@mui/icons-material';
+import { Line } from 'react-chartjs-2';
+import { SERIES_COLORS } from '@/utils/chart';
+import api, { handleApiError } from '@/utils/api';
+import { useRealtimeSubscription } from '@/hooks/useRealtime';
+import { DeviceReadingEvent, TOPICS } from '@/utils/realtime';
+import { getNumericFields, getPayloadFields, getValueAtPath, JsonSchema } from '@/utils/payloadSchema';
+
+type TimeRange = 'hour' | 'day' | 'week' | 'custom';
+
+interface Reading {
+  timestamp: string;
+  payload: Record<string, unknown>;
+}
+
+interface Device {
+  id: string;
+  type: string;
+  location: string;
+  payloadSchema: JsonSchema;
+}
+
+const RANGE_DURATIONS: Record<Exclude<TimeRange, 'custom'>, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+const MAX_DEFAULT_SERIES = 3;
+const CUSTOM_RANGE_DEBOUNCE_MS = 500;
+
+// datetime-local inputs work in local time without a timezone suffix
+const toLocalInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+export default function DeviceReadings() {
+  const router = useRouter();
+  const { id } = router.query;
+  const [device, setDevice] = useState<Device | null>(null);
+  const [readings, setReadings] = useState<Reading[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fetchingReadings, setFetchingReadings] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [range, setRange] = useState<TimeRange>('day');
+  const [customFrom, setCustomFrom] = useState(() => toLocalInputValue(new Date(Date.now() - RANGE_DURATIONS.day)));
+  const [customTo, setCustomTo] = useState(() => toLocalInputValue(new Date()));
+  const [selectedFields, setSelectedFields] = useState<string[]>([]);
+  const [zoom, setZoom] = useState<number[]>([0, 100]);
+  const [view, setView] = useState<'chart' | 'table'>('chart');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+  // Only the latest readings request may update the chart, whatever order responses arrive in
+  const requestIdRef = useRef(0);
+
+  const numericFields = useMemo(() => getNumericFields(device?.payloadSchema), [device]);
+  const allFields = useMemo(() => getPayloadFields(device?.payloadSchema), [device]);
+
+  useEffect(() => {
+    if (id) {
+      fetchDevice();
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (!id) return;
+    if (range !== 'custom') {
+      fetchReadings();
+      return;
+    }
+    if (!customFrom || !customTo) return;
+    // Typing a date changes the inputs once per digit, so wait until the user stops
+    const timeout = setTimeout(fetchReadings, CUSTOM_RANGE_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [id, range, customFrom, customTo]);
+
+  const fetchDevice = async () => {
+    try {
+      const response = await api.get(`/devices/${id}`);
+      const deviceData = response.data;
+      const payloadSchema = deviceData.payload_schema || deviceData.payloadSchema || {};
+      setDevice({
+        id: deviceData.id,
+        type: deviceData.type,
+        location: deviceData.location,
+        payloadSchema,
+      });
+      setSelectedFields(getNumericFields(payloadSchema).slice(0, MAX_DEFAULT_SERIES).map((field) => field.path));
+    } catch (error) {
+      setError('Failed to fetch device details');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getRangeBounds = () => {
+    if (range === 'custom') {
+      return { from: new Date(customFrom), to: new Date(customTo) };
+    }
+    const to = new Date();
+    return { from: new Date(to.getTime() - RANGE_DURATIONS[range]), to };
+  };
+
+  const fetchReadings = async () => {
+    const requestId = ++requestIdRef.current;
+    const { from, to } = getRangeBounds();
+    if (from >= to) {
+      setError('The start of the range must be before its end');
+      setFetchingReadings(false);
+      return;
+    }
+
+    try {
+      setFetchingReadings(true);
+      const response = await api.get(`/devices/${id}/readings`, {
+        params: { from: from.toISOString(), to: to.toISOString() },
+      });
+      if (requestId !== requestIdRef.current) return;
+      const data = Array.isArray(response.data) ? response.data : response.data.data;
+      setReadings(
+        [...(data || [])].sort(
+          (a: Reading, b: Reading) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+        )
+      );
+      setZoom([0, 100]);
+      setPage(0);
+      setError(null);
+    } catch (error) {
+      if (requestId !== requestIdRef.current) return;
+      setError(handleApiError(error));
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setFetchingReadings(false);
+      }
+    }
+  };
+
+  // Append live readings while looking at a rolling window
+  useRealtimeSubscription<DeviceReadingEvent>(
+    id && range !== 'custom' ? TOPICS.deviceReadings(id as string) : null,
+    ({ data }) => {
+      const cutoff = Date.now() - RANGE_DURATIONS[range as Exclude<TimeRange, 'custom'>];
+      setReadings((prev) =>
+        [...prev, { timestamp: data.timestamp, payload: data.payload }].filter(
+          (reading) => new Date(reading.timestamp).getTime() >= cutoff
+        )
+      );
+    }
+  );
+
+  const visibleReadings = useMemo(() => {
+    if (readings.length === 0) return readings;
+    const first = new Date(readings[0].timestamp).getTime();
+    const last = new Date(readings[readings.length - 1].timestamp).getTime();
+    const span = last - first;
+    const start = first + (span * zoom[0]) / 100;
+    const end = first + (span * zoom[1]) / 100;
+    return readings.filter((reading) => {
+      const time = new Date(reading.timestamp).getTime();
+      return time >= start && time <= end;
+    });
+  }, [readings, zoom]);
+
+  const chartData = useMemo(
+    () => ({
+      datasets: selectedFields.map((path, index) => {
+        const field = numericFields.find((f) => f.path === path);
+        return {
+          label: field?.unit ? `${field.label} (${field.unit})` : field?.label || path,
+          data: visibleReadings
+            .map((reading) => ({
+              x: new Date(reading.timestamp).getTime(),
+              y: getValueAtPath(reading.payload, path) as number,
+            }))
+            .filter((point) => typeof point.y === 'number'),
+          borderColor: SERIES_COLORS[index % SERIES_COLORS.length],
+          backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length],
+          pointRadius: 1,
+          borderWidth: 2,
+        };
+      }),
+    }),
+    [selectedFields, numericFields, visibleReadings]
+  );
+
+  const toggleField = (path: string) => {
+    setSelectedFields((prev) =>
+      prev.includes(path) ? prev.filter((p) => p !== path) : [...prev, path]
+    );
+  };
+
+  const formatCell = (value: unknown) => {
+    if (value === undefined || value === null) return '-';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!device) {
+    return (
+      <Box p={3}>
+        <Alert severity="error">{error || 'Device not found'}</Alert>
+      </Box>
+    );
+  }
+
+  const tableFields = allFields.length > 0 ? allFields : null;
+  const pagedReadings = visibleReadings.slice().reverse().slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage);
+
+  return (
+    <Box p={3}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Typography variant="h4">Readings - {device.type} ({device.location})</Typography>
+        <Button variant="outlined" onClick={() => router.push(`/devices/${id}`)}>
+          Back to Device
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <Box display="flex" gap={2} alignItems="center" flexWrap="wrap">
+          <TextField
+            select
+            size="small"
+            label="Time range"
+            value={range}
+            onChange={(e) => setRange(e.target.value as TimeRange)}
+            sx={{ width: 160 }}
+          >
+            <MenuItem value="hour">Last hour</MenuItem>
+            <MenuItem value="day">Last day</MenuItem>
+            <MenuItem value="week">Last week</MenuItem>
+            <MenuItem value="custom">Custom</MenuItem>
+          </TextField>
+          {range === 'custom' && (
+            <>
+              <TextField
+                size="small"
+                type="datetime-local"
+                label="From"
+                value={customFrom}
+                onChange={(e) => setCustomFrom(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+              />
+              <TextField
+                size="small"
+                type="datetime-local"
+                label="To"
+                value={customTo}
+                onChange={(e) => setCustomTo(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+              />
+            </>
+          )}
+          <Button variant="outlined" onClick={fetchReadings} disabled={fetchingReadings}>
+            {fetchingReadings ? <CircularProgress size={24} /> : 'Refresh'}
+          </Button>
+          <Box flexGrow={1} />
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={view}
+            onChange={(_, value) => value && setView(value)}
+          >
+            <ToggleButton value="chart" aria-label="chart view">
+              <ShowChartIcon fontSize="small" />
+            </ToggleButton>
+            <ToggleButton value="table" aria-label="table view">
+              <TableChartIcon fontSize="small" />
+            </ToggleButton>
+          </ToggleButtonGroup>
+        </Box>
+
+        {numericFields.length > 0 ? (
+          <Box display="flex" gap={1} flexWrap="wrap" mt={2}>
+            {numericFields.map((field) => (
+              <Chip
+                key={field.path}
+                label={field.unit ? `${field.label} (${field.unit})` : field.label}
+                color={selectedFields.includes(field.path) ? 'primary' : 'default'}
+                variant={selectedFields.includes(field.path) ? 'filled' : 'outlined'}
+                onClick={() => toggleField(field.path)}
+                size="small"
+              />
+            ))}
+          </Box>
+        ) : (
+          <Typography variant="body2" color="textSecondary" sx={{ mt: 2 }}>
+            The payload schema of this device declares no numeric fields to plot.
+          </Typography>
+        )}
+      </Paper>
+
+      <Paper sx={{ p: 2 }}>
+        {readings.length === 0 ? (
+          <Typography color="textSecondary">No readings in the selected time range.</Typography>
+        ) : view === 'chart' ? (
+          <>
+            <Box sx={{ height: 400 }}>
+              <Line
+                data={chartData}
+                options={{
+                  responsive: true,
+                  maintainAspectRatio: false,
+                  animation: false,
+                  interaction: { mode: 'nearest', axis: 'x', intersect: false },
+                  scales: {
+                    x: {
+                      type: 'linear',
+                      ticks: {
+                        callback: (value) => new Date(Number(value)).toLocaleString(),
+                        maxTicksLimit: 8,
+                      },
+                    },
+                  },
+                  plugins: {
+                    tooltip: {
+                      callbacks: {
+                        title: (items) => new Date(items[0].parsed.x).toLocaleString(),
+                      },
+                    },
+                  },
+                }}
+              />
+            </Box>
+            <Box px={2} mt={2}>
+              <Typography variant="body2" color="textSecondary">
+                Zoom
+              </Typography>
+              <Slider
+                value={zoom}
+                onChange={(_, value) => setZoom(value as number[])}
+                valueLabelDisplay="auto"
+                valueLabelFormat={(value) => `${value}%`}
+                disableSwap
+              />
+            </Box>
+          </>
+        ) : (
+          <>
+            <TableContainer sx={{ maxHeight: 'calc(100vh - 400px)' }}>
+              <Table stickyHeader size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={{ fontWeight: 'bold' }}>Timestamp</TableCell>
+                    {tableFields ? (
+                      tableFields.map((field) => (
+                        <TableCell key={field.path} sx={{ fontWeight: 'bold' }}>
+                          {field.unit ? `${field.label} (${field.unit})` : field.label}
+                        </TableCell>
+                      ))
+                    ) : (
+                      <TableCell sx={{ fontWeight: 'bold' }}>Payload</TableCell>
+                    )}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {pagedReadings.map((reading) => (
+                    <TableRow key={reading.timestamp} hover>
+                      <TableCell>{new Date(reading.timestamp).toLocaleString()}</TableCell>
+                      {tableFields ? (
+                        tableFields.map((field) => (
+                          <TableCell key={field.path}>
+                            {formatCell(getValueAtPath(reading.payload, field.path))}
+                          </TableCell>
+                        ))
+                      ) : (
+                        <TableCell sx={{ fontFamily: 'monospace' }}>{JSON.stringify(reading.payload)}</TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+            <TablePagination
+              rowsPerPageOptions={[25, 50, 100]}
+              component="div"
+              count={visibleReadings.length}
+              rowsPerPage={rowsPerPage}
+              page={page}
+              onPageChange={(_, newPage) => setPage(newPage)}
+              onRowsPerPageChange={(e) => {
+                setRowsPerPage(parseInt(e.target.value, 10));
+                setPage(0);
+              }}
+            />
+          </>
+        )}
+      </Paper>
+    </Box>
+  );
+}
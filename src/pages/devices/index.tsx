@@ -1,28 +1,35 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useRouter } from 'next/router';
 import {
   Box,
   Paper,
   Typography,
   Button,
-  Table,
-  TableBody,
-  TableCell,
-  TableContainer,
-  TableHead,
-  TableRow,
   TextField,
   MenuItem,
-  IconButton,
-  Chip,
   CircularProgress,
   Alert,
   TablePagination,
+  LinearProgress,
+  Checkbox,
+  Toolbar,
+  FormControlLabel,
 } from '@mui/material';
-import { Edit as EditIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { UploadFile as UploadFileIcon } from '@mui/icons-material';
 import type { NextPage } from 'next';
 import type { ChangeEvent } from 'react';
-import api, { handleApiError } from '@/utils/api';
+import type { ParsedUrlQuery } from 'querystring';
+import api, { fetchAllPages, handleApiError } from '@/utils/api';
+import { usePollingFallback, useRealtimeResync, useRealtimeSubscription } from '@/hooks/useRealtime';
+import { DeviceStatusEvent, TOPICS } from '@/utils/realtime';
+import BulkImportDialog from '@/components/devices/BulkImportDialog';
+import BulkActionDialog, { BulkAction } from '@/components/devices/BulkActionDialog';
+import DeviceTable, { DeviceSortField } from '@/components/devices/DeviceTable';
+import ExportMenu from '@/components/ExportMenu';
+import PermissionGate from '@/components/PermissionGate';
+import { usePermissions } from '@/hooks/usePermissions';
+import { ExportFormat, exportRows } from '@/utils/spreadsheet';
+import { renderCompanyOptions } from '@/components/companies/companyOptions';
 
 interface Device {
   id: string;
@@ -40,32 +47,120 @@ interface Device {
 interface Company {
   id: string;
   name: string;
+  parentId?: string | null;
 }
 
+type SortField = DeviceSortField;
+type SortOrder = 'asc' | 'desc';
+
+interface DeviceListQuery {
+  page: number;
+  pageSize: number;
+  sortBy: SortField;
+  sortOrder: SortOrder;
+  search: string;
+  companyId: string;
+  includeDescendants: boolean;
+  status: string;
+}
+
+const DEFAULT_QUERY: DeviceListQuery = {
+  page: 0,
+  pageSize: 10,
+  sortBy: 'updated_at',
+  sortOrder: 'desc',
+  search: '',
+  companyId: '',
+  includeDescendants: false,
+  status: '',
+};
+
+const SORT_FIELDS: SortField[] = ['type', 'location', 'status', 'updated_at'];
+const PAGE_SIZES = [5, 10, 25, 50];
+
+const firstValue = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value) || '';
+
+// The URL is the source of truth for the list view so that it can be shared
+const parseQuery = (query: ParsedUrlQuery): DeviceListQuery => {
+  const page = parseInt(firstValue(query.page), 10);
+  const pageSize = parseInt(firstValue(query.pageSize), 10);
+  const sortBy = firstValue(query.sortBy) as SortField;
+  const sortOrder = firstValue(query.sortOrder);
+  return {
+    page: page > 0 ? page - 1 : DEFAULT_QUERY.page,
+    pageSize: PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_QUERY.pageSize,
+    sortBy: SORT_FIELDS.includes(sortBy) ? sortBy : DEFAULT_QUERY.sortBy,
+    sortOrder: sortOrder === 'asc' || sortOrder === 'desc' ? sortOrder : DEFAULT_QUERY.sortOrder,
+    search: firstValue(query.search),
+    companyId: firstValue(query.companyId),
+    includeDescendants: firstValue(query.includeDescendants) === 'true',
+    status: firstValue(query.status),
+  };
+};
+
+// Page numbers are 1-based in the URL and the API
+const toParams = (query: DeviceListQuery) => {
+  const params: Record<string, string | number> = {
+    page: query.page + 1,
+    pageSize: query.pageSize,
+    sortBy: query.sortBy,
+    sortOrder: query.sortOrder,
+  };
+  if (query.search) params.search = query.search;
+  if (query.companyId) params.companyId = query.companyId;
+  // Sub-companies inherit visibility, so the backend resolves the subtree
+  if (query.companyId && query.includeDescendants) params.includeDescendants = 'true';
+  if (query.status) params.status = query.status;
+  return params;
+};
+
 const Devices: NextPage = function Devices() {
   const router = useRouter();
+  const { can } = usePermissions();
   const [devices, setDevices] = useState<Device[]>([]);
+  const [total, setTotal] = useState(0);
   const [companies, setCompanies] = useState<Company[]>([]);
   const [loading, setLoading] = useState(true);
+  const [fetching, setFetching] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [page, setPage] = useState(0);
-  const [rowsPerPage, setRowsPerPage] = useState(10);
-  const [filters, setFilters] = useState({
-    search: '',
-    companyId: '',
-    status: '',
-  });
+  const [importOpen, setImportOpen] = useState(false);
+  // Selection is kept by id so it survives paging and filtering
+  const [selected, setSelected] = useState<Record<string, Device>>({});
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null);
+  const query = useMemo(() => parseQuery(router.query), [router.query]);
+  const [searchTerm, setSearchTerm] = useState(query.search);
+  // Only the latest list request may update the table, whatever order responses arrive in
+  const requestIdRef = useRef(0);
+
+  const updateQuery = (changes: Partial<DeviceListQuery>) => {
+    // Any change other than paging starts again from the first page
+    const next = { ...query, page: 0, ...changes };
+    router.replace({ pathname: router.pathname, query: toParams(next) }, undefined, { shallow: true });
+  };
 
   const fetchDevices = async () => {
+    const requestId = ++requestIdRef.current;
     try {
-      const response = await api.get('/devices');
-      setDevices(response.data);
+      setFetching(true);
+      const response = await api.get('/devices', { params: toParams(query) });
+      if (requestId !== requestIdRef.current) return;
+      // Older backends return a plain array of every device
+      if (Array.isArray(response.data)) {
+        setDevices(response.data);
+        setTotal(response.data.length);
+      } else {
+        setDevices(response.data.data);
+        setTotal(response.data.total);
+      }
       setError(null);
     } catch (error) {
+      if (requestId !== requestIdRef.current) return;
       setError(handleApiError(error));
     } finally {
-      setLoading(false);
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+        setFetching(false);
+      }
     }
   };
 
@@ -79,16 +174,48 @@ const Devices: NextPage = function Devices() {
   };
 
   useEffect(() => {
-    fetchDevices();
     fetchCompanies();
   }, []);
 
+  useEffect(() => {
+    if (router.isReady) {
+      fetchDevices();
+    }
+  }, [router.isReady, query]);
+
+  useEffect(() => {
+    setSearchTerm(query.search);
+  }, [query.search]);
+
+  // Debounce typing before it hits the URL and the API
+  useEffect(() => {
+    if (searchTerm === query.search) return;
+    const timeout = setTimeout(() => updateQuery({ search: searchTerm }), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // Fall back to polling for status changes while the realtime socket is down
+  usePollingFallback(fetchDevices, 30000);
+  // Status changes sent while the socket was down are not replayed
+  useRealtimeResync(fetchDevices);
+
+  useRealtimeSubscription<DeviceStatusEvent>(TOPICS.devices, ({ event, data }) => {
+    if (event !== 'status') return;
+    setDevices((prev) =>
+      prev.map((device) =>
+        device.id === data.deviceId
+          ? { ...device, status: data.status, updated_at: data.updated_at }
+          : device
+      )
+    );
+  });
+
   const handleDelete = async (id: string) => {
     if (!confirm('Are you sure you want to delete this device?')) return;
 
     try {
       await api.delete(`/devices/${id}`);
-      setDevices(devices.filter(device => device.id !== id));
+      fetchDevices();
       setError(null);
     } catch (error) {
       setError(handleApiError(error));
@@ -96,24 +223,74 @@ const Devices: NextPage = function Devices() {
   };
 
   const handleChangePage = (event: unknown, newPage: number) => {
-    setPage(newPage);
+    updateQuery({ page: newPage });
   };
 
   const handleChangeRowsPerPage = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setRowsPerPage(parseInt(event.target.value, 10));
-    setPage(0);
+    updateQuery({ pageSize: parseInt(event.target.value, 10) });
   };
 
-  const filteredDevices = devices.filter(device =>
-    device.type.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    device.location.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    device.physical_address.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const handleSort = (field: SortField) => {
+    const isAsc = query.sortBy === field && query.sortOrder === 'asc';
+    updateQuery({ sortBy: field, sortOrder: isAsc ? 'desc' : 'asc' });
+  };
 
-  const paginatedDevices = filteredDevices.slice(
-    page * rowsPerPage,
-    page * rowsPerPage + rowsPerPage
-  );
+  const selectedDevices = Object.values(selected);
+
+  const toggleSelected = (device: Device) => {
+    setSelected((prev) => {
+      const next = { ...prev };
+      if (next[device.id]) {
+        delete next[device.id];
+      } else {
+        next[device.id] = device;
+      }
+      return next;
+    });
+  };
+
+  const togglePageSelected = () => {
+    setSelected((prev) => {
+      const next = { ...prev };
+      const allSelected = devices.every((device) => next[device.id]);
+      devices.forEach((device) => {
+        if (allSelected) {
+          delete next[device.id];
+        } else {
+          next[device.id] = device;
+        }
+      });
+      return next;
+    });
+  };
+
+  const handleBulkCompleted = () => {
+    setSelected({});
+    fetchDevices();
+  };
+
+  const getCompanyName = (companyId: string) =>
+    companies.find((company) => company.id === companyId)?.name || companyId;
+
+  // Export every device matching the current filters and sort, not only the visible page
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      const allDevices = await fetchAllPages<Device>('/devices', toParams(query));
+      const rows = allDevices.map((device) => ({
+        Type: device.type,
+        Company: getCompanyName(device.company_id),
+        Location: device.location,
+        'Physical Address': device.physical_address,
+        Status: device.status,
+        'Push Interval (s)': device.push_interval,
+        Enabled: device.enabled,
+        'Last Seen': device.updated_at,
+      }));
+      exportRows(rows, 'devices', format);
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
 
   if (loading) {
     return (
@@ -128,24 +305,75 @@ const Devices: NextPage = function Devices() {
       <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
         <Typography variant="h4">Devices</Typography>
         <Box display="flex" gap={2} alignItems="center">
-          <TextField
-            size="small"
-            label="Search devices"
-            variant="outlined"
-            value={searchTerm}
-            onChange={(e: ChangeEvent<HTMLInputElement>) => setSearchTerm(e.target.value)}
-            sx={{ width: '200px' }}
-          />
-          <Button
-            variant="contained"
-            color="primary"
-            onClick={() => router.push('/devices/new')}
-          >
-            Add Device
-          </Button>
+          <ExportMenu onExport={handleExport} disabled={!can('devices', 'export')} />
+          <PermissionGate resource="devices" action="create" disable>
+            <Button
+              variant="outlined"
+              startIcon={<UploadFileIcon />}
+              onClick={() => setImportOpen(true)}
+            >
+              Import
+            </Button>
+          </PermissionGate>
+          <PermissionGate resource="devices" action="create" disable>
+            <Button
+              variant="contained"
+              color="primary"
+              onClick={() => router.push('/devices/new')}
+            >
+              Add Device
+            </Button>
+          </PermissionGate>
         </Box>
       </Box>
 
+      <Box display="flex" gap={2} alignItems="center" mb={2}>
+        <TextField
+          size="small"
+          label="Search devices"
+          variant="outlined"
+          value={searchTerm}
+          onChange={(e: ChangeEvent<HTMLInputElement>) => setSearchTerm(e.target.value)}
+          sx={{ width: '200px' }}
+        />
+        <TextField
+          size="small"
+          select
+          label="Company"
+          value={query.companyId}
+          onChange={(e) => updateQuery({ companyId: e.target.value })}
+          sx={{ width: '200px' }}
+        >
+          <MenuItem value="">All companies</MenuItem>
+          {renderCompanyOptions(companies)}
+        </TextField>
+        {query.companyId && (
+          <FormControlLabel
+            control={
+              <Checkbox
+                size="small"
+                checked={query.includeDescendants}
+                onChange={(e) => updateQuery({ includeDescendants: e.target.checked })}
+              />
+            }
+            label="Include sub-companies"
+          />
+        )}
+        <TextField
+          size="small"
+          select
+          label="Status"
+          value={query.status}
+          onChange={(e) => updateQuery({ status: e.target.value })}
+          sx={{ width: '160px' }}
+        >
+          <MenuItem value="">All statuses</MenuItem>
+          <MenuItem value="online">Online</MenuItem>
+          <MenuItem value="offline">Offline</MenuItem>
+          <MenuItem value="maintenance">Maintenance</MenuItem>
+        </TextField>
+      </Box>
+
       {error && (
         <Alert severity="error" sx={{ mb: 2 }}>
           {error}
@@ -153,117 +381,70 @@ const Devices: NextPage = function Devices() {
       )}
 
       <Paper sx={{ width: '100%', overflow: 'hidden' }}>
-        <TableContainer sx={{ maxHeight: 'calc(100vh - 300px)' }}>
-          <Table stickyHeader size="small">
-            <TableHead>
-              <TableRow>
-                <TableCell 
-                  width="20%" 
-                  sx={{ 
-                    py: 1,
-                    backgroundColor: 'background.paper',
-                    fontWeight: 'bold'
-                  }}
-                >
-                  Type
-                </TableCell>
-                <TableCell 
-                  width="25%" 
-                  sx={{ 
-                    py: 1,
-                    backgroundColor: 'background.paper',
-                    fontWeight: 'bold'
-                  }}
-                >
-                  Location
-                </TableCell>
-                <TableCell 
-                  width="15%" 
-                  sx={{ 
-                    py: 1,
-                    backgroundColor: 'background.paper',
-                    fontWeight: 'bold'
-                  }}
-                >
-                  Status
-                </TableCell>
-                <TableCell 
-                  width="20%" 
-                  sx={{ 
-                    py: 1,
-                    backgroundColor: 'background.paper',
-                    fontWeight: 'bold'
-                  }}
-                >
-                  Last Seen
-                </TableCell>
-                <TableCell 
-                  width="20%" 
-                  align="right"
-                  sx={{ 
-                    py: 1,
-                    backgroundColor: 'background.paper',
-                    fontWeight: 'bold'
-                  }}
-                >
-                  Actions
-                </TableCell>
-              </TableRow>
-            </TableHead>
-            <TableBody>
-              {paginatedDevices.map((device) => (
-                <TableRow key={device.id} hover>
-                  <TableCell sx={{ py: 1 }}>{device.type}</TableCell>
-                  <TableCell sx={{ py: 1 }}>{device.location}</TableCell>
-                  <TableCell sx={{ py: 1 }}>
-                    <Chip
-                      label={device.status}
-                      color={
-                        device.status === 'online'
-                          ? 'success'
-                          : device.status === 'maintenance'
-                          ? 'warning'
-                          : 'error'
-                      }
-                      size="small"
-                      sx={{ height: 24 }}
-                    />
-                  </TableCell>
-                  <TableCell sx={{ py: 1 }}>{new Date(device.updated_at).toLocaleString()}</TableCell>
-                  <TableCell align="right" sx={{ py: 1 }}>
-                    <IconButton
-                      color="primary"
-                      onClick={() => router.push(`/devices/${device.id}`)}
-                      size="small"
-                      sx={{ p: 0.5 }}
-                    >
-                      <EditIcon fontSize="small" />
-                    </IconButton>
-                    <IconButton
-                      color="error"
-                      onClick={() => handleDelete(device.id)}
-                      size="small"
-                      sx={{ p: 0.5 }}
-                    >
-                      <DeleteIcon fontSize="small" />
-                    </IconButton>
-                  </TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </TableContainer>
+        {selectedDevices.length > 0 && (
+          <Toolbar
+            variant="dense"
+            sx={{ gap: 1, flexWrap: 'wrap', bgcolor: 'rgba(25, 118, 210, 0.08)' }}
+          >
+            <Typography sx={{ flexGrow: 1 }} variant="subtitle1">
+              {selectedDevices.length} selected
+            </Typography>
+            {can('devices', 'edit') && (
+              <>
+                <Button size="small" onClick={() => setBulkAction('enable')}>Enable</Button>
+                <Button size="small" onClick={() => setBulkAction('disable')}>Disable</Button>
+                <Button size="small" onClick={() => setBulkAction('maintenance')}>Maintenance</Button>
+                <Button size="small" onClick={() => setBulkAction('company')}>Change company</Button>
+              </>
+            )}
+            {can('devices', 'configure') && (
+              <Button size="small" onClick={() => setBulkAction('push_interval')}>Push interval</Button>
+            )}
+            {can('devices', 'delete') && (
+              <Button size="small" color="error" onClick={() => setBulkAction('delete')}>Delete</Button>
+            )}
+            <Button size="small" color="inherit" onClick={() => setSelected({})}>Clear</Button>
+          </Toolbar>
+        )}
+        {fetching && <LinearProgress />}
+        <DeviceTable
+          devices={devices}
+          getCompanyName={getCompanyName}
+          sortBy={query.sortBy}
+          sortOrder={query.sortOrder}
+          onSort={handleSort}
+          selected={can('devices', 'edit') || can('devices', 'delete') ? selected : undefined}
+          onToggleSelected={toggleSelected}
+          onTogglePageSelected={togglePageSelected}
+          onDelete={can('devices', 'delete') ? handleDelete : undefined}
+          maxHeight="calc(100vh - 360px)"
+        />
         <TablePagination
-          rowsPerPageOptions={[5, 10, 25, 50]}
+          rowsPerPageOptions={PAGE_SIZES}
           component="div"
-          count={filteredDevices.length}
-          rowsPerPage={rowsPerPage}
-          page={page}
+          count={total}
+          rowsPerPage={query.pageSize}
+          page={query.page}
           onPageChange={handleChangePage}
           onRowsPerPageChange={handleChangeRowsPerPage}
           sx={{ py: 1 }}
         />
       </Paper>
+
+      <BulkImportDialog
+        open={importOpen}
+        companies={companies}
+        onClose={() => setImportOpen(false)}
+        onImported={fetchDevices}
+      />
+
+      <BulkActionDialog
+        action={bulkAction}
+        devices={selectedDevices}
+        companies={companies}
+        onClose={() => setBulkAction(null)}
+        onCompleted={handleBulkCompleted}
+      />
     </Box>
   );
 };
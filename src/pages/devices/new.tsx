@@ -14,36 +14,36 @@ import {
 } from '@mui/material';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import api, { handleApiError } from '@/utils/api';
-
-const deviceSchema = z.object({
-  type: z.string().min(2, 'Type must be at least 2 characters').max(50),
-  company_id: z.string().min(1, 'Company is required'),
-  status: z.enum(['online', 'offline', 'maintenance']).default('offline'),
-  location: z.string().min(2, 'Location must be at least 2 characters').max(255),
-  physical_address: z.string().min(5, 'Physical address must be at least 5 characters').max(1000),
-  payload_schema: z.record(z.unknown()).default({}),
-  push_interval: z.number().int().positive().default(60),
-  enabled: z.boolean().default(true),
-});
-
-type DeviceFormData = z.infer<typeof deviceSchema>;
+import { deviceSchema, DeviceFormData } from '@/schemas/device';
 
 interface Company {
   id: string;
   name: string;
 }
 
+interface DeviceType {
+  id: string;
+  name: string;
+  push_interval: number;
+  location_pattern: string;
+  payload_schema: Record<string, unknown>;
+  device_count: number;
+}
+
 export default function NewDevice() {
   const router = useRouter();
   const [companies, setCompanies] = useState<Company[]>([]);
+  const [deviceTypes, setDeviceTypes] = useState<DeviceType[]>([]);
+  const [selectedTypeId, setSelectedTypeId] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const {
     register,
     handleSubmit,
+    setValue,
+    watch,
     formState: { errors },
   } = useForm<DeviceFormData>({
     resolver: zodResolver(deviceSchema),
@@ -65,9 +65,52 @@ export default function NewDevice() {
       }
     };
 
+    const fetchDeviceTypes = async () => {
+      try {
+        const response = await api.get('/device-types');
+        const data = Array.isArray(response.data) ? response.data : response.data.data;
+        setDeviceTypes(
+          (data || []).map((deviceType: any) => ({
+            id: deviceType.id,
+            name: deviceType.name,
+            push_interval: deviceType.push_interval || deviceType.pushInterval,
+            location_pattern: deviceType.location_pattern || deviceType.locationPattern || '',
+            payload_schema: deviceType.payload_schema || deviceType.payloadSchema || {},
+            device_count: deviceType.device_count ?? deviceType.deviceCount ?? 0,
+          }))
+        );
+      } catch (error) {
+        setError('Failed to fetch device types');
+      }
+    };
+
     fetchCompanies();
+    fetchDeviceTypes();
   }, []);
 
+  const handleTemplateChange = (id: string) => {
+    setSelectedTypeId(id);
+    const deviceType = deviceTypes.find((t) => t.id === id);
+    if (!deviceType) {
+      setValue('device_type_id', undefined);
+      setValue('payload_schema', {});
+      return;
+    }
+
+    setValue('device_type_id', deviceType.id);
+    setValue('type', deviceType.name, { shouldValidate: true });
+    setValue('push_interval', deviceType.push_interval, { shouldValidate: true });
+    setValue('payload_schema', deviceType.payload_schema);
+    if (deviceType.location_pattern) {
+      setValue('location', deviceType.location_pattern.replace('{n}', String(deviceType.device_count + 1)), {
+        shouldValidate: true,
+      });
+    }
+  };
+
+  const typeValue = watch('type');
+  const locationValue = watch('location');
+
   const onSubmit = async (data: DeviceFormData) => {
     try {
       setLoading(true);
@@ -94,10 +137,30 @@ export default function NewDevice() {
 
       <Paper sx={{ p: 3, maxWidth: 600 }}>
         <form onSubmit={handleSubmit(onSubmit)}>
+          <TextField
+            fullWidth
+            select
+            label="Template"
+            value={selectedTypeId}
+            onChange={(e) => handleTemplateChange(e.target.value)}
+            helperText="Pre-fill the device from a device type"
+            margin="normal"
+          >
+            <MenuItem value="">
+              <em>None</em>
+            </MenuItem>
+            {deviceTypes.map((deviceType) => (
+              <MenuItem key={deviceType.id} value={deviceType.id}>
+                {deviceType.name}
+              </MenuItem>
+            ))}
+          </TextField>
+
           <TextField
             fullWidth
             label="Device Type"
             {...register('type')}
+            InputLabelProps={{ shrink: !!typeValue || undefined }}
             error={!!errors.type}
             helperText={errors.type?.message}
             margin="normal"
@@ -138,6 +201,7 @@ export default function NewDevice() {
             fullWidth
             label="Location"
             {...register('location')}
+            InputLabelProps={{ shrink: !!locationValue || undefined }}
             error={!!errors.location}
             helperText={errors.location?.message}
             margin="normal"
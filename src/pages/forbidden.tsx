@@ -0,0 +1,5 @@
+import AccessDenied from '@/components/AccessDenied';
+
+export default function Forbidden() {
+  return <AccessDenied />;
+}
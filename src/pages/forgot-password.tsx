@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import NextLink from 'next/link';
+import { Alert, Button, CircularProgress, Link, TextField, Typography } from '@mui/material';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import type { NextPage } from 'next';
+import api, { handleApiError } from '@/utils/api';
+import { forgotPasswordSchema, ForgotPasswordFormData } from '@/schemas/password';
+import AuthCard from '@/components/auth/AuthCard';
+
+const ForgotPassword: NextPage = () => {
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+  });
+
+  const onSubmit = async ({ email }: ForgotPasswordFormData) => {
+    setError(null);
+    try {
+      // The backend builds the emailed link from this, so it always points at this panel
+      await api.post('/auth/forgot-password', { email, resetUrl: `${window.location.origin}/reset-password` });
+      setSent(true);
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  return (
+    <AuthCard title="Forgot Password">
+      {sent ? (
+        // Same message whether or not the account exists, so the form can't be used to probe for emails
+        <Alert severity="success" sx={{ mb: 2 }}>
+          If an account exists for that email, we have sent a link to reset your password. The link expires
+          shortly, so use it soon.
+        </Alert>
+      ) : (
+        <>
+          <Typography variant="body2" color="textSecondary" align="center">
+            Enter your email and we will send you a link to choose a new password.
+          </Typography>
+
+          {error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <form onSubmit={handleSubmit(onSubmit)}>
+            <TextField
+              {...register('email')}
+              label="Email"
+              type="email"
+              fullWidth
+              sx={{ mt: 2, mb: 2 }}
+              error={!!errors.email}
+              helperText={errors.email?.message}
+            />
+            <Button
+              type="submit"
+              variant="contained"
+              color="primary"
+              fullWidth
+              size="large"
+              disabled={isSubmitting}
+              sx={{ mt: 1 }}
+            >
+              {isSubmitting ? <CircularProgress size={24} /> : 'Send reset link'}
+            </Button>
+          </form>
+        </>
+      )}
+
+      <Typography variant="body2" align="center" sx={{ mt: 3 }}>
+        <Link component={NextLink} href="/login">
+          Back to login
+        </Link>
+      </Typography>
+    </AuthCard>
+  );
+};
+
+export default ForgotPassword;
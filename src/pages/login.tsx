@@ -1,20 +1,26 @@
 import { useState } from 'react';
 import { useRouter } from 'next/router';
+import NextLink from 'next/link';
 import {
   Box,
-  Paper,
   Typography,
   TextField,
   Button,
   Alert,
   CircularProgress,
+  Link,
+  Divider,
 } from '@mui/material';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import api, { handleApiError } from '@/utils/api';
 import type { NextPage } from 'next';
-import Cookies from 'js-cookie';
+import { useCompleteLogin } from '@/hooks/useCompleteLogin';
+import { getSafeNextPath } from '@/utils/jwt';
+import { beginSsoLogin, SsoProvider } from '@/utils/oidc';
+import { mfaChallengeSchema, MfaChallengeFormData } from '@/schemas/mfa';
+import AuthCard from '@/components/auth/AuthCard';
 
 const loginSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -23,38 +29,54 @@ const loginSchema = z.object({
 
 type LoginFormData = z.infer<typeof loginSchema>;
 
+// Shown after the password pages send the user back here
+const NOTICES: Record<string, string> = {
+  'password-reset': 'Your password has been reset. You can now log in with the new one.',
+  'invite-accepted': 'Your account is ready. Log in with your new password.',
+};
+
 const Login: NextPage = () => {
   const router = useRouter();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const completeLogin = useCompleteLogin();
+  // Set once the password is accepted but the account still needs a second factor
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [ssoProvider, setSsoProvider] = useState<SsoProvider | null>(null);
 
   const {
     register,
     handleSubmit,
+    getValues,
     formState: { errors },
   } = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
   });
 
+  const {
+    register: registerMfa,
+    handleSubmit: handleMfaSubmit,
+    setValue: setMfaValue,
+    watch: watchMfa,
+    formState: { errors: mfaErrors },
+  } = useForm<MfaChallengeFormData>({
+    resolver: zodResolver(mfaChallengeSchema),
+    defaultValues: { method: 'totp', code: '' },
+  });
+  const mfaMethod = watchMfa('method');
+
   const onSubmit = async (data: LoginFormData) => {
     setLoading(true);
     setError(null);
     try {
       const response = await api.post('/auth/login', data);
       console.log('Login response:', response.data);
-      const { accessToken, refreshToken } = response.data;
-      
-      // Store tokens in cookies
-      Cookies.set('accessToken', accessToken, { expires: 1 }); // 1 day
-      Cookies.set('refreshToken', refreshToken, { expires: 7 }); // 7 days
-      
-      // Update API client headers
-      api.defaults.headers.common['Authorization'] = `Bearer ${accessToken}`;
-      
-      console.log('Tokens stored and API client configured, navigating to dashboard...');
-      
-      // Use replace instead of push to prevent going back to login page
-      router.replace('/dashboard');
+
+      if (response.data.mfa_required || response.data.mfaRequired) {
+        setMfaToken(response.data.mfa_token || response.data.mfaToken);
+        return;
+      }
+      await completeLogin(response.data, router.query.next);
     } catch (error) {
       console.error('Login error:', error);
       setError(handleApiError(error));
@@ -63,35 +85,143 @@ const Login: NextPage = () => {
     }
   };
 
+  const onMfaSubmit = async ({ method, code }: MfaChallengeFormData) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await api.post(
+        '/auth/mfa/verify',
+        method === 'totp' ? { mfaToken, code } : { mfaToken, recoveryCode: code }
+      );
+      await completeLogin(response.data, router.query.next);
+    } catch (error) {
+      console.error('MFA verification error:', error);
+      setError(handleApiError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Looks up the IdP configured for the email's domain; null when the company uses passwords
+  const discoverSso = async (email: string): Promise<SsoProvider | null> => {
+    try {
+      const response = await api.get('/auth/sso/discover', { params: { email } });
+      const data = response.data.data || response.data;
+      if (!data?.authorization_endpoint && !data?.authorizationEndpoint) return null;
+      return {
+        providerId: data.provider_id || data.providerId,
+        companyName: data.company_name || data.companyName || '',
+        authorizationEndpoint: data.authorization_endpoint || data.authorizationEndpoint,
+        clientId: data.client_id || data.clientId,
+        scopes: data.scopes || [],
+      };
+    } catch {
+      return null;
+    }
+  };
+
+  const handleEmailBlur = async () => {
+    const email = getValues('email');
+    setSsoProvider(loginSchema.shape.email.safeParse(email).success ? await discoverSso(email) : null);
+  };
+
+  const handleSsoLogin = async () => {
+    const email = getValues('email');
+    if (!loginSchema.shape.email.safeParse(email).success) {
+      setError('Enter your work email so we can find your organization\'s sign-in');
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    const provider = ssoProvider || (await discoverSso(email));
+    if (!provider) {
+      setLoading(false);
+      setError('Single sign-on is not set up for this email domain. Log in with your password instead.');
+      return;
+    }
+    try {
+      window.location.href = await beginSsoLogin(provider, email, getSafeNextPath(router.query.next));
+    } catch (error) {
+      console.error('SSO redirect error:', error);
+      setLoading(false);
+      setError('Could not start single sign-on in this browser');
+    }
+  };
+
+  const handleBackToPassword = () => {
+    setMfaToken(null);
+    setError(null);
+    setMfaValue('code', '');
+  };
+
+  const notice = typeof router.query.notice === 'string' ? NOTICES[router.query.notice] : undefined;
+
   return (
-    <Box
-      display="flex"
-      justifyContent="center"
-      alignItems="center"
-      minHeight="100vh"
-      bgcolor="background.default"
-    >
-      <Paper
-        elevation={3}
-        sx={{
-          p: 4,
-          width: '100%',
-          maxWidth: 400,
-        }}
-      >
-        <Typography variant="h4" align="center" gutterBottom>
-          Admin Login
-        </Typography>
-
-        {error && (
-          <Alert severity="error" sx={{ mb: 2 }}>
-            {error}
-          </Alert>
-        )}
+    <AuthCard title="Admin Login">
+      {notice && !error && (
+        <Alert severity="success" sx={{ mb: 2 }}>
+          {notice}
+        </Alert>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
 
+      {mfaToken ? (
+        <form onSubmit={handleMfaSubmit(onMfaSubmit)}>
+          <Typography variant="body2" color="textSecondary">
+            {mfaMethod === 'totp'
+              ? 'Enter the 6-digit code from your authenticator app.'
+              : 'Enter one of the recovery codes you saved when setting up two-factor authentication.'}
+          </Typography>
+
+          <TextField
+            {...registerMfa('code')}
+            key={mfaMethod}
+            label={mfaMethod === 'totp' ? 'Authentication code' : 'Recovery code'}
+            fullWidth
+            autoFocus
+            autoComplete="one-time-code"
+            inputProps={mfaMethod === 'totp' ? { inputMode: 'numeric', maxLength: 6 } : undefined}
+            sx={{ mt: 2, mb: 1 }}
+            error={!!mfaErrors.code}
+            helperText={mfaErrors.code?.message}
+          />
+
+          <Link
+            component="button"
+            type="button"
+            variant="body2"
+            onClick={() => {
+              setMfaValue('method', mfaMethod === 'totp' ? 'recovery' : 'totp');
+              setMfaValue('code', '');
+            }}
+          >
+            {mfaMethod === 'totp' ? 'Use a recovery code instead' : 'Use your authenticator app instead'}
+          </Link>
+
+          <Button
+            type="submit"
+            variant="contained"
+            color="primary"
+            fullWidth
+            size="large"
+            disabled={loading}
+            sx={{ mt: 3 }}
+          >
+            {loading ? <CircularProgress size={24} /> : 'Verify'}
+          </Button>
+          <Button fullWidth onClick={handleBackToPassword} disabled={loading} sx={{ mt: 1 }}>
+            Back
+          </Button>
+        </form>
+      ) : (
         <form onSubmit={handleSubmit(onSubmit)}>
           <TextField
-            {...register('email')}
+            {...register('email', { onBlur: handleEmailBlur })}
             label="Email"
             type="email"
             fullWidth
@@ -121,9 +251,32 @@ const Login: NextPage = () => {
           >
             {loading ? <CircularProgress size={24} /> : 'Login'}
           </Button>
+
+          <Divider sx={{ my: 2 }}>or</Divider>
+
+          {ssoProvider && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              {ssoProvider.companyName || 'Your organization'} signs in with single sign-on.
+            </Alert>
+          )}
+          <Button
+            variant={ssoProvider ? 'contained' : 'outlined'}
+            fullWidth
+            size="large"
+            disabled={loading}
+            onClick={handleSsoLogin}
+          >
+            Sign in with SSO
+          </Button>
+
+          <Box textAlign="center" mt={2}>
+            <Link component={NextLink} href="/forgot-password" variant="body2">
+              Forgot password?
+            </Link>
+          </Box>
         </form>
-      </Paper>
-    </Box>
+      )}
+    </AuthCard>
   );
 };
 
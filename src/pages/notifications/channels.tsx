@@ -0,0 +1,230 @@
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  IconButton,
+  Paper,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Delete as DeleteIcon, Edit as EditIcon, Send as SendIcon } from '@mui/icons-material';
+import api, { handleApiError } from '@/utils/api';
+import PermissionGate from '@/components/PermissionGate';
+import { usePermissions } from '@/hooks/usePermissions';
+import NotificationChannelDialog from '@/components/notifications/NotificationChannelDialog';
+import {
+  CHANNEL_TYPES,
+  describeChannel,
+  isLocalUrl,
+  NOTIFICATION_EVENTS,
+  NotificationChannel,
+  normalizeChannel,
+} from '@/utils/notifications';
+
+export default function NotificationChannels() {
+  const { can } = usePermissions();
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+  const [editingChannel, setEditingChannel] = useState<NotificationChannel | null>(null);
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  const fetchChannels = async () => {
+    try {
+      const response = await api.get('/notification-channels');
+      const data = Array.isArray(response.data) ? response.data : response.data.data;
+      setChannels((data || []).map(normalizeChannel));
+      setError(null);
+    } catch (error) {
+      setError(handleApiError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchChannels();
+  }, []);
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const handleOpen = (channel?: NotificationChannel) => {
+    setEditingChannel(channel || null);
+    setOpen(true);
+  };
+
+  const handleToggle = async (channel: NotificationChannel) => {
+    try {
+      await api.patch(`/notification-channels/${channel.id}`, { enabled: !channel.enabled });
+      fetchChannels();
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  const handleTest = async (channel: NotificationChannel) => {
+    // Local receivers are unreachable from the API; the dialog tests those from the browser
+    if ((channel.type === 'webhook' || channel.type === 'slack') && isLocalUrl(channel.url)) {
+      handleOpen(channel);
+      return;
+    }
+    try {
+      setTestingId(channel.id);
+      setError(null);
+      await api.post(`/notification-channels/${channel.id}/test`);
+      showSuccess(`Test notification sent through ${channel.name}`);
+      fetchChannels();
+    } catch (error) {
+      setError(handleApiError(error));
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleDelete = async (channel: NotificationChannel) => {
+    if (window.confirm(`Delete the channel "${channel.name}"? Escalation policies using it will skip it.`)) {
+      try {
+        await api.delete(`/notification-channels/${channel.id}`);
+        fetchChannels();
+      } catch (error) {
+        setError(handleApiError(error));
+      }
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box p={3}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Typography variant="h4">Notification Channels</Typography>
+        <PermissionGate resource="notifications" action="create" disable>
+          <Button variant="contained" color="primary" onClick={() => handleOpen()}>
+            Add Channel
+          </Button>
+        </PermissionGate>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }}>
+          {success}
+        </Alert>
+      )}
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Name</TableCell>
+              <TableCell>Type</TableCell>
+              <TableCell>Destination</TableCell>
+              <TableCell>Events</TableCell>
+              <TableCell>Last test</TableCell>
+              <TableCell>Enabled</TableCell>
+              <TableCell>Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {channels.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7}>
+                  <Typography color="textSecondary">No notification channels yet.</Typography>
+                </TableCell>
+              </TableRow>
+            ) : (
+              channels.map((channel) => (
+                <TableRow key={channel.id}>
+                  <TableCell>{channel.name}</TableCell>
+                  <TableCell>{CHANNEL_TYPES[channel.type] || channel.type}</TableCell>
+                  <TableCell>{describeChannel(channel)}</TableCell>
+                  <TableCell>
+                    <Box display="flex" gap={0.5} flexWrap="wrap">
+                      {channel.events.map((event) => (
+                        <Chip key={event} label={NOTIFICATION_EVENTS[event] || event} size="small" />
+                      ))}
+                    </Box>
+                  </TableCell>
+                  <TableCell>
+                    {channel.lastTestAt ? (
+                      <Chip
+                        label={new Date(channel.lastTestAt).toLocaleString()}
+                        color={channel.lastTestOk ? 'success' : 'error'}
+                        size="small"
+                      />
+                    ) : (
+                      '-'
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      size="small"
+                      checked={channel.enabled}
+                      onChange={() => handleToggle(channel)}
+                      disabled={!can('notifications', 'edit')}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <IconButton
+                      size="small"
+                      onClick={() => handleTest(channel)}
+                      disabled={testingId === channel.id || !can('notifications', 'edit')}
+                      title="Send test"
+                    >
+                      {testingId === channel.id ? <CircularProgress size={20} /> : <SendIcon />}
+                    </IconButton>
+                    <IconButton
+                      size="small"
+                      onClick={() => handleOpen(channel)}
+                      disabled={!can('notifications', 'edit')}
+                    >
+                      <EditIcon />
+                    </IconButton>
+                    <IconButton
+                      size="small"
+                      onClick={() => handleDelete(channel)}
+                      disabled={!can('notifications', 'delete')}
+                    >
+                      <DeleteIcon />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <NotificationChannelDialog
+        open={open}
+        channel={editingChannel}
+        onClose={() => setOpen(false)}
+        onSaved={fetchChannels}
+      />
+    </Box>
+  );
+}
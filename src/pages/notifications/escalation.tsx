@@ -0,0 +1,230 @@
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  IconButton,
+  Paper,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Delete as DeleteIcon, Edit as EditIcon } from '@mui/icons-material';
+import api, { handleApiError } from '@/utils/api';
+import PermissionGate from '@/components/PermissionGate';
+import { usePermissions } from '@/hooks/usePermissions';
+import SeverityChip from '@/components/alerts/SeverityChip';
+import EscalationPolicyDialog from '@/components/notifications/EscalationPolicyDialog';
+import {
+  EscalationPolicy,
+  EscalationStep,
+  NotificationChannel,
+  normalizeChannel,
+  normalizeEscalationPolicy,
+} from '@/utils/notifications';
+
+interface User {
+  id: string;
+  name: string;
+}
+
+export default function EscalationPolicies() {
+  const { can } = usePermissions();
+  const [policies, setPolicies] = useState<EscalationPolicy[]>([]);
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<EscalationPolicy | null>(null);
+
+  const fetchPolicies = async () => {
+    try {
+      const response = await api.get('/escalation-policies');
+      const data = Array.isArray(response.data) ? response.data : response.data.data;
+      setPolicies((data || []).map(normalizeEscalationPolicy));
+      setError(null);
+    } catch (error) {
+      setError(handleApiError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchLookups = async () => {
+    try {
+      const [channelsResponse, usersResponse] = await Promise.all([
+        api.get('/notification-channels'),
+        api.get('/users'),
+      ]);
+      const channelList = Array.isArray(channelsResponse.data) ? channelsResponse.data : channelsResponse.data.data;
+      const userList = Array.isArray(usersResponse.data) ? usersResponse.data : usersResponse.data.data;
+      setChannels((channelList || []).map(normalizeChannel));
+      setUsers(
+        (userList || []).map((user: any) => ({
+          id: user.id || user._id,
+          name:
+            `${user.first_name || user.firstName || ''} ${user.last_name || user.lastName || ''}`.trim() ||
+            user.email,
+        }))
+      );
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  useEffect(() => {
+    fetchPolicies();
+    fetchLookups();
+  }, []);
+
+  const describeStep = (step: EscalationStep) => {
+    const channelNames = step.channelIds
+      .map((id) => channels.find((channel) => channel.id === id)?.name || id)
+      .join(', ');
+    const who = step.target === 'on_call' ? 'on-call' : 'assignee';
+    return step.afterMinutes === 0
+      ? `Notify ${who} via ${channelNames}`
+      : `After ${step.afterMinutes} min unacknowledged: ${who} via ${channelNames}`;
+  };
+
+  const handleOpen = (policy?: EscalationPolicy) => {
+    setEditingPolicy(policy || null);
+    setOpen(true);
+  };
+
+  const handleToggle = async (policy: EscalationPolicy) => {
+    try {
+      await api.patch(`/escalation-policies/${policy.id}`, { enabled: !policy.enabled });
+      fetchPolicies();
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  const handleDelete = async (policy: EscalationPolicy) => {
+    if (window.confirm(`Delete the escalation policy "${policy.name}"?`)) {
+      try {
+        await api.delete(`/escalation-policies/${policy.id}`);
+        fetchPolicies();
+      } catch (error) {
+        setError(handleApiError(error));
+      }
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box p={3}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Typography variant="h4">Escalation Policies</Typography>
+        <PermissionGate resource="notifications" action="create" disable>
+          <Button variant="contained" color="primary" onClick={() => handleOpen()}>
+            Add Policy
+          </Button>
+        </PermissionGate>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Name</TableCell>
+              <TableCell>Severities</TableCell>
+              <TableCell>Steps</TableCell>
+              <TableCell>On call</TableCell>
+              <TableCell>Enabled</TableCell>
+              <TableCell>Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {policies.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6}>
+                  <Typography color="textSecondary">No escalation policies yet.</Typography>
+                </TableCell>
+              </TableRow>
+            ) : (
+              policies.map((policy) => (
+                <TableRow key={policy.id}>
+                  <TableCell>{policy.name}</TableCell>
+                  <TableCell>
+                    <Box display="flex" gap={0.5}>
+                      {policy.severities.map((severity) => (
+                        <SeverityChip key={severity} severity={severity} />
+                      ))}
+                    </Box>
+                  </TableCell>
+                  <TableCell>
+                    {policy.steps.map((step, index) => (
+                      <Typography key={index} variant="body2">
+                        {describeStep(step)}
+                      </Typography>
+                    ))}
+                  </TableCell>
+                  <TableCell>
+                    {policy.onCallUserIds
+                      .map((id) => users.find((user) => user.id === id)?.name || id)
+                      .join(', ') || '-'}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      size="small"
+                      checked={policy.enabled}
+                      onChange={() => handleToggle(policy)}
+                      disabled={!can('notifications', 'edit')}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <IconButton
+                      size="small"
+                      onClick={() => handleOpen(policy)}
+                      disabled={!can('notifications', 'edit')}
+                    >
+                      <EditIcon />
+                    </IconButton>
+                    <IconButton
+                      size="small"
+                      onClick={() => handleDelete(policy)}
+                      disabled={!can('notifications', 'delete')}
+                    >
+                      <DeleteIcon />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <EscalationPolicyDialog
+        open={open}
+        policy={editingPolicy}
+        channels={channels}
+        users={users}
+        onClose={() => setOpen(false)}
+        onSaved={fetchPolicies}
+      />
+    </Box>
+  );
+}
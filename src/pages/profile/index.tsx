@@ -0,0 +1,214 @@
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  Paper,
+  Typography,
+} from '@mui/material';
+import api, { handleApiError } from '@/utils/api';
+import MfaEnrollmentDialog from '@/components/mfa/MfaEnrollmentDialog';
+import MfaCodeDialog from '@/components/mfa/MfaCodeDialog';
+import RecoveryCodes from '@/components/mfa/RecoveryCodes';
+import NotificationPreferences from '@/components/notifications/NotificationPreferences';
+
+interface Profile {
+  email: string;
+  firstName: string;
+  lastName: string;
+  mfaEnabled: boolean;
+  /** One of the user's roles requires MFA, so it can't be turned off */
+  mfaRequired: boolean;
+  recoveryCodesRemaining: number | null;
+}
+
+type CodeAction = 'regenerate' | 'disable';
+
+export default function ProfilePage() {
+  const router = useRouter();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [enrolling, setEnrolling] = useState(false);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+
+  const fetchProfile = async () => {
+    try {
+      setLoading(true);
+      const response = await api.get('/auth/me');
+      const data = response.data.data || response.data;
+      const user = data.user || data;
+      const remaining = user.recovery_codes_remaining ?? user.recoveryCodesRemaining;
+      setProfile({
+        email: user.email,
+        firstName: user.first_name || user.firstName || '',
+        lastName: user.last_name || user.lastName || '',
+        mfaEnabled: !!(user.mfa_enabled ?? user.mfaEnabled),
+        mfaRequired: !!(user.mfa_required ?? user.mfaRequired),
+        recoveryCodesRemaining: typeof remaining === 'number' ? remaining : null,
+      });
+      setError(null);
+    } catch (error) {
+      setError(handleApiError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchProfile();
+  }, []);
+
+  // The login page sends users here when a role requires MFA they haven't set up yet
+  const enrollmentRequested = router.query.setup === 'mfa';
+  useEffect(() => {
+    if (enrollmentRequested && profile && !profile.mfaEnabled) {
+      setEnrolling(true);
+    }
+  }, [enrollmentRequested, profile]);
+
+  const handleCodeConfirmed = async (code: string) => {
+    if (codeAction === 'regenerate') {
+      const response = await api.post('/auth/mfa/recovery-codes', { code });
+      const data = response.data.data || response.data;
+      setNewRecoveryCodes(data.recovery_codes || data.recoveryCodes || []);
+    } else {
+      await api.post('/auth/mfa/disable', { code });
+    }
+    setCodeAction(null);
+    fetchProfile();
+  };
+
+  if (loading && !profile) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box p={3}>
+      <Typography variant="h4" mb={3}>
+        Profile
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {profile && (
+        <Paper sx={{ p: 3, maxWidth: 720 }}>
+          <Typography variant="h6">
+            {[profile.firstName, profile.lastName].filter(Boolean).join(' ') || profile.email}
+          </Typography>
+          <Typography color="textSecondary">{profile.email}</Typography>
+
+          <Divider sx={{ my: 3 }} />
+
+          <Box display="flex" alignItems="center" gap={1} mb={1}>
+            <Typography variant="h6">Two-factor authentication</Typography>
+            <Chip
+              label={profile.mfaEnabled ? 'Enabled' : 'Disabled'}
+              color={profile.mfaEnabled ? 'success' : 'default'}
+              size="small"
+            />
+          </Box>
+
+          {profile.mfaRequired && !profile.mfaEnabled && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              Your role requires two-factor authentication. Set it up to keep access to the admin panel.
+            </Alert>
+          )}
+
+          <Typography variant="body2" color="textSecondary" gutterBottom>
+            {profile.mfaEnabled
+              ? 'Signing in asks for a code from your authenticator app after your password.'
+              : 'Add a second step to sign-in with a code from an authenticator app.'}
+          </Typography>
+          {profile.mfaEnabled && profile.recoveryCodesRemaining !== null && (
+            <Typography variant="body2" color={profile.recoveryCodesRemaining < 3 ? 'error' : 'textSecondary'}>
+              {profile.recoveryCodesRemaining} recovery code(s) left.
+            </Typography>
+          )}
+
+          <Box display="flex" gap={1} mt={2}>
+            {profile.mfaEnabled ? (
+              <>
+                <Button variant="outlined" onClick={() => setCodeAction('regenerate')}>
+                  Regenerate recovery codes
+                </Button>
+                <Button
+                  color="error"
+                  onClick={() => setCodeAction('disable')}
+                  disabled={profile.mfaRequired}
+                  title={profile.mfaRequired ? 'Required by your role' : undefined}
+                >
+                  Turn off
+                </Button>
+              </>
+            ) : (
+              <Button variant="contained" onClick={() => setEnrolling(true)}>
+                Set up
+              </Button>
+            )}
+          </Box>
+
+          <Divider sx={{ my: 3 }} />
+
+          <Typography variant="h6" mb={1}>
+            Notifications
+          </Typography>
+          <NotificationPreferences />
+        </Paper>
+      )}
+
+      <MfaEnrollmentDialog
+        open={enrolling}
+        onClose={() => setEnrolling(false)}
+        onEnrolled={() => {
+          fetchProfile();
+          if (enrollmentRequested) {
+            router.replace('/profile');
+          }
+        }}
+      />
+
+      <MfaCodeDialog
+        open={codeAction !== null}
+        title={codeAction === 'disable' ? 'Turn off two-factor authentication' : 'Regenerate recovery codes'}
+        description={
+          codeAction === 'disable'
+            ? 'Enter a code from your authenticator app to turn off two-factor authentication.'
+            : 'Enter a code from your authenticator app. Your existing recovery codes will stop working.'
+        }
+        confirmLabel={codeAction === 'disable' ? 'Turn off' : 'Regenerate'}
+        onClose={() => setCodeAction(null)}
+        onConfirm={handleCodeConfirmed}
+      />
+
+      <Dialog open={!!newRecoveryCodes} maxWidth="sm" fullWidth>
+        <DialogTitle>New recovery codes</DialogTitle>
+        <DialogContent>
+          <RecoveryCodes codes={newRecoveryCodes || []} />
+        </DialogContent>
+        <DialogActions>
+          <Button variant="contained" onClick={() => setNewRecoveryCodes(null)}>
+            Done
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { useRouter } from 'next/router';
+import NextLink from 'next/link';
+import { Alert, Box, CircularProgress, Link, Typography } from '@mui/material';
+import type { NextPage } from 'next';
+import api, { handleApiError } from '@/utils/api';
+import { useLinkToken } from '@/hooks/useLinkToken';
+import AuthCard from '@/components/auth/AuthCard';
+import SetPasswordForm from '@/components/auth/SetPasswordForm';
+
+const ResetPassword: NextPage = () => {
+  const router = useRouter();
+  const { token, status, details } = useLinkToken('/auth/password-resets');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (password: string) => {
+    setError(null);
+    try {
+      await api.post(`/auth/password-resets/${encodeURIComponent(token || '')}`, { password });
+      router.replace('/login?notice=password-reset');
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  return (
+    <AuthCard title="Reset Password">
+      {status === 'loading' && (
+        <Box display="flex" justifyContent="center" py={3}>
+          <CircularProgress />
+        </Box>
+      )}
+
+      {(status === 'expired' || status === 'invalid') && (
+        <Alert severity="warning">
+          {status === 'expired'
+            ? 'This reset link has expired or was already used.'
+            : 'This reset link is not valid.'}{' '}
+          <Link component={NextLink} href="/forgot-password">
+            Request a new one
+          </Link>
+          .
+        </Alert>
+      )}
+
+      {status === 'valid' && (
+        <>
+          {details?.email && (
+            <Typography variant="body2" color="textSecondary" align="center">
+              Choose a new password for {details.email}.
+            </Typography>
+          )}
+          {error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {error}
+            </Alert>
+          )}
+          <SetPasswordForm submitLabel="Reset password" onSubmit={handleSubmit} />
+        </>
+      )}
+
+      <Typography variant="body2" align="center" sx={{ mt: 3 }}>
+        <Link component={NextLink} href="/login">
+          Back to login
+        </Link>
+      </Typography>
+    </AuthCard>
+  );
+};
+
+export default ResetPassword;
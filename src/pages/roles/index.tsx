@@ -16,68 +16,28 @@ import {
   DialogContent,
   DialogActions,
   TextField,
-  FormControlLabel,
-  Checkbox,
   Alert,
   CircularProgress,
+  Chip,
+  FormControlLabel,
+  Switch,
 } from '@mui/material';
 import { Edit as EditIcon, Delete as DeleteIcon } from '@mui/icons-material';
-import { useForm } from 'react-hook-form';
+import { Controller, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import api, { handleApiError } from '@/utils/api';
-
-const roleSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  description: z.string().min(1, 'Description is required'),
-  permissions: z.object({
-    devices: z.object({
-      view: z.boolean(),
-      create: z.boolean(),
-      edit: z.boolean(),
-      delete: z.boolean(),
-    }),
-    companies: z.object({
-      view: z.boolean(),
-      create: z.boolean(),
-      edit: z.boolean(),
-      delete: z.boolean(),
-    }),
-    users: z.object({
-      view: z.boolean(),
-      create: z.boolean(),
-      edit: z.boolean(),
-      delete: z.boolean(),
-    }),
-  }),
-});
-
-type RoleFormData = z.infer<typeof roleSchema>;
+import { isRoleAssigned, normalizeRoleAssignments } from '@/utils/roleAssignments';
+import RoleReassignDialog, { AssignedUser } from '@/components/roles/RoleReassignDialog';
+import PermissionMatrix from '@/components/roles/PermissionMatrix';
+import { roleSchema, RoleFormData } from '@/schemas/role';
+import { createEmptyPermissions, normalizePermissions, Permissions } from '@/utils/permissions';
 
 interface Role {
   id: string;
   name: string;
   description: string;
-  permissions: {
-    devices: {
-      view: boolean;
-      create: boolean;
-      edit: boolean;
-      delete: boolean;
-    };
-    companies: {
-      view: boolean;
-      create: boolean;
-      edit: boolean;
-      delete: boolean;
-    };
-    users: {
-      view: boolean;
-      create: boolean;
-      edit: boolean;
-      delete: boolean;
-    };
-  };
+  mfaRequired: boolean;
+  permissions: Permissions;
 }
 
 export default function Roles() {
@@ -86,27 +46,50 @@ export default function Roles() {
   const [error, setError] = useState<string | null>(null);
   const [open, setOpen] = useState(false);
   const [editingRole, setEditingRole] = useState<Role | null>(null);
+  const [rawUsers, setRawUsers] = useState<any[]>([]);
+  // Deleting waits for the users so a role still in use always goes through the reassign dialog
+  const [usersLoaded, setUsersLoaded] = useState(false);
+  const [deletingRole, setDeletingRole] = useState<Role | null>(null);
 
   const {
     register,
     handleSubmit,
     reset,
+    control,
     formState: { errors },
   } = useForm<RoleFormData>({
     resolver: zodResolver(roleSchema),
     defaultValues: {
-      permissions: {
-        devices: { view: false, create: false, edit: false, delete: false },
-        companies: { view: false, create: false, edit: false, delete: false },
-        users: { view: false, create: false, edit: false, delete: false },
-      },
+      mfaRequired: false,
+      permissions: createEmptyPermissions(),
     },
   });
 
   useEffect(() => {
     fetchRoles();
+    fetchUsers();
   }, []);
 
+  const fetchUsers = async () => {
+    try {
+      const response = await api.get('/users');
+      setRawUsers(Array.isArray(response.data) ? response.data : response.data.data || []);
+      setUsersLoaded(true);
+    } catch (error) {
+      setError(handleApiError(error));
+    }
+  };
+
+  // Normalized here rather than on fetch because legacy role names are matched against the loaded roles
+  const users: AssignedUser[] = rawUsers.map((user) => ({
+    id: user.id || user._id,
+    email: user.email,
+    roleAssignments: normalizeRoleAssignments(user, roles),
+  }));
+
+  const getAssignedUsers = (roleId: string) =>
+    users.filter((user) => isRoleAssigned(user.roleAssignments, roleId));
+
   const fetchRoles = async () => {
     try {
       setLoading(true);
@@ -117,7 +100,12 @@ export default function Roles() {
         throw new Error('Invalid response format: expected success and data array');
       }
 
-      setRoles(response.data.data);
+      setRoles(
+        response.data.data.map((role: any) => ({
+          ...role,
+          mfaRequired: !!(role.mfa_required ?? role.mfaRequired),
+        }))
+      );
       setError(null);
     } catch (error) {
       console.error('Error fetching roles:', error); // Debug log
@@ -135,18 +123,17 @@ export default function Roles() {
       reset({
         name: role.name,
         description: role.description,
-        permissions: role.permissions
+        mfaRequired: role.mfaRequired,
+        // Roles saved before a resource was registered get it with everything off
+        permissions: normalizePermissions(role.permissions),
       });
     } else {
       setEditingRole(null);
       reset({
         name: '',
         description: '',
-        permissions: {
-          devices: { view: false, create: false, edit: false, delete: false },
-          companies: { view: false, create: false, edit: false, delete: false },
-          users: { view: false, create: false, edit: false, delete: false },
-        },
+        mfaRequired: false,
+        permissions: createEmptyPermissions(),
       });
     }
     setOpen(true);
@@ -174,10 +161,15 @@ export default function Roles() {
     }
   };
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = async (role: Role) => {
+    if (!usersLoaded) return;
+    if (getAssignedUsers(role.id).length > 0) {
+      setDeletingRole(role);
+      return;
+    }
     if (window.confirm('Are you sure you want to delete this role?')) {
       try {
-        await api.delete(`/roles/${id}`);
+        await api.delete(`/roles/${role.id}`);
         fetchRoles();
       } catch (error) {
         setError(handleApiError(error));
@@ -214,6 +206,8 @@ export default function Roles() {
             <TableRow>
               <TableCell>Name</TableCell>
               <TableCell>Description</TableCell>
+              <TableCell>Users</TableCell>
+              <TableCell>MFA</TableCell>
               <TableCell>Actions</TableCell>
             </TableRow>
           </TableHead>
@@ -222,11 +216,19 @@ export default function Roles() {
               <TableRow key={role.id}>
                 <TableCell>{role.name}</TableCell>
                 <TableCell>{role.description}</TableCell>
+                <TableCell>{usersLoaded ? getAssignedUsers(role.id).length : '-'}</TableCell>
+                <TableCell>
+                  {role.mfaRequired ? <Chip label="Required" size="small" color="primary" /> : 'Optional'}
+                </TableCell>
                 <TableCell>
                   <IconButton size="small" onClick={() => handleOpen(role)}>
                     <EditIcon />
                   </IconButton>
-                  <IconButton size="small" onClick={() => handleDelete(role.id)}>
+                  <IconButton
+                    size="small"
+                    onClick={() => handleDelete(role)}
+                    disabled={!usersLoaded}
+                  >
                     <DeleteIcon />
                   </IconButton>
                 </TableCell>
@@ -236,7 +238,7 @@ export default function Roles() {
         </Table>
       </TableContainer>
 
-      <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <Dialog open={open} onClose={handleClose} maxWidth="lg" fullWidth>
         <form onSubmit={handleSubmit(onSubmit)}>
           <DialogTitle>
             {editingRole ? 'Edit Role' : 'Add Role'}
@@ -264,132 +266,26 @@ export default function Roles() {
               defaultValue={editingRole?.description}
             />
 
+            <Controller
+              name="mfaRequired"
+              control={control}
+              render={({ field }) => (
+                <FormControlLabel
+                  control={<Switch checked={!!field.value} onChange={(e) => field.onChange(e.target.checked)} />}
+                  label="Require two-factor authentication for users with this role"
+                />
+              )}
+            />
+
             <Typography variant="h6" sx={{ mt: 2, mb: 1 }}>
               Permissions
             </Typography>
 
-            {/* Devices Permissions */}
-            <Typography variant="subtitle1" sx={{ mt: 2 }}>Devices</Typography>
-            <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
-              <FormControlLabel
-                control={
-                  <Checkbox
-                    {...register('permissions.devices.view')}
-                    defaultChecked={editingRole?.permissions.devices.view}
-                  />
-                }
-                label="View"
-              />
-              <FormControlLabel
-                control={
-                  <Checkbox
-                    {...register('permissions.devices.create')}
-                    defaultChecked={editingRole?.permissions.devices.create}
-                  />
-                }
-                label="Create"
-              />
-              <FormControlLabel
-                control={
-                  <Checkbox
-                    {...register('permissions.devices.edit')}
-                    defaultChecked={editingRole?.permissions.devices.edit}
-                  />
-                }
-                label="Edit"
-              />
-              <FormControlLabel
-                control={
-                  <Checkbox
-                    {...register('permissions.devices.delete')}
-                    defaultChecked={editingRole?.permissions.devices.delete}
-                  />
-                }
-                label="Delete"
-              />
-            </Box>
-
-            {/* Companies Permissions */}
-            <Typography variant="subtitle1" sx={{ mt: 2 }}>Companies</Typography>
-            <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
-              <FormControlLabel
-                control={
-                  <Checkbox
-                    {...register('permissions.companies.view')}
-                    defaultChecked={editingRole?.permissions.companies.view}
-                  />
-                }
-                label="View"
-              />
-              <FormControlLabel
-                control={
-                  <Checkbox
-                    {...register('permissions.companies.create')}
-                    defaultChecked={editingRole?.permissions.companies.create}
-                  />
-                }
-                label="Create"
-              />
-              <FormControlLabel
-                control={
-                  <Checkbox
-                    {...register('permissions.companies.edit')}
-                    defaultChecked={editingRole?.permissions.companies.edit}
-                  />
-                }
-                label="Edit"
-              />
-              <FormControlLabel
-                control={
-                  <Checkbox
-                    {...register('permissions.companies.delete')}
-                    defaultChecked={editingRole?.permissions.companies.delete}
-                  />
-                }
-                label="Delete"
-              />
-            </Box>
-
-            {/* Users Permissions */}
-            <Typography variant="subtitle1" sx={{ mt: 2 }}>Users</Typography>
-            <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
-              <FormControlLabel
-                control={
-                  <Checkbox
-                    {...register('permissions.users.view')}
-                    defaultChecked={editingRole?.permissions.users.view}
-                  />
-                }
-                label="View"
-              />
-              <FormControlLabel
-                control={
-                  <Checkbox
-                    {...register('permissions.users.create')}
-                    defaultChecked={editingRole?.permissions.users.create}
-                  />
-                }
-                label="Create"
-              />
-              <FormControlLabel
-                control={
-                  <Checkbox
-                    {...register('permissions.users.edit')}
-                    defaultChecked={editingRole?.permissions.users.edit}
-                  />
-                }
-                label="Edit"
-              />
-              <FormControlLabel
-                control={
-                  <Checkbox
-                    {...register('permissions.users.delete')}
-                    defaultChecked={editingRole?.permissions.users.delete}
-                  />
-                }
-                label="Delete"
-              />
-            </Box>
+            <Controller
+              name="permissions"
+              control={control}
+              render={({ field }) => <PermissionMatrix value={field.value} onChange={field.onChange} />}
+            />
           </DialogContent>
           <DialogActions>
             <Button onClick={handleClose}>Cancel</Button>
@@ -399,6 +295,18 @@ export default function Roles() {
           </DialogActions>
         </form>
       </Dialog>
+
+      <RoleReassignDialog
+        role={deletingRole}
+        roles={roles}
+        users={deletingRole ? getAssignedUsers(deletingRole.id) : []}
+        onClose={() => setDeletingRole(null)}
+        onCompleted={() => {
+          setDeletingRole(null);
+          fetchRoles();
+          fetchUsers();
+        }}
+      />
     </Box>
   );
 } 
\ No newline at end of file
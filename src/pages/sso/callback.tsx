@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/router';
+import NextLink from 'next/link';
+import { Alert, Box, CircularProgress, Link, Typography } from '@mui/material';
+import type { NextPage } from 'next';
+import api, { handleApiError } from '@/utils/api';
+import { consumeSsoLogin } from '@/utils/oidc';
+import { useCompleteLogin } from '@/hooks/useCompleteLogin';
+import AuthCard from '@/components/auth/AuthCard';
+
+/** The IdP redirects here with an authorization code, which the backend exchanges for a session */
+const SsoCallback: NextPage = () => {
+  const router = useRouter();
+  const completeLogin = useCompleteLogin();
+  const [error, setError] = useState<string | null>(null);
+  // The pending login is consumed on first read, so the exchange must only run once
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    if (!router.isReady || startedRef.current) return;
+    startedRef.current = true;
+
+    const { code, state, error: idpError, error_description: idpErrorDescription } = router.query;
+    if (typeof idpError === 'string') {
+      setError(typeof idpErrorDescription === 'string' ? idpErrorDescription : `The identity provider returned "${idpError}"`);
+      return;
+    }
+    if (typeof code !== 'string' || typeof state !== 'string') {
+      setError('The sign-in response is missing its code.');
+      return;
+    }
+
+    const pending = consumeSsoLogin(state);
+    if (!pending) {
+      setError('This sign-in attempt has expired or was started in another browser. Please try again.');
+      return;
+    }
+
+    const exchangeCode = async () => {
+      try {
+        // The backend validates the ID token against the nonce and provisions the user on first login
+        const response = await api.post('/auth/sso/callback', {
+          providerId: pending.providerId,
+          code,
+          codeVerifier: pending.codeVerifier,
+          redirectUri: pending.redirectUri,
+          nonce: pending.nonce,
+        });
+        await completeLogin(response.data, pending.next);
+      } catch (error) {
+        console.error('SSO callback error:', error);
+        setError(handleApiError(error));
+      }
+    };
+    exchangeCode();
+  }, [router.isReady, router.query, completeLogin]);
+
+  return (
+    <AuthCard title="Signing in">
+      {error ? (
+        <>
+          <Alert severity="error">{error}</Alert>
+          <Typography variant="body2" align="center" sx={{ mt: 3 }}>
+            <Link component={NextLink} href="/login">
+              Back to login
+            </Link>
+          </Typography>
+        </>
+      ) : (
+        <Box display="flex" justifyContent="center" py={3}>
+          <CircularProgress />
+        </Box>
+      )}
+    </AuthCard>
+  );
+};
+
+export default SsoCallback;
@@ -13,45 +13,85 @@ import {
   Alert,
   CircularProgress,
   MenuItem,
+  Checkbox,
+  FormControlLabel,
+  Chip,
+  Divider,
 } from '@mui/material';
-import { DataGrid, GridColDef } from '@mui/x-data-grid';
-import { Edit as EditIcon, Delete as DeleteIcon } from '@mui/icons-material';
-import { useForm } from 'react-hook-form';
+import { DataGrid, GridColDef, useGridApiRef } from '@mui/x-data-grid';
+import {
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Add as AddIcon,
+  Close as CloseIcon,
+  LockReset as LockResetIcon,
+  ForwardToInbox as ResendIcon,
+} from '@mui/icons-material';
+import { Controller, useFieldArray, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import api, { handleApiError } from '@/utils/api';
+import ExportMenu from '@/components/ExportMenu';
+import PermissionGate from '@/components/PermissionGate';
+import { usePermissions } from '@/hooks/usePermissions';
+import { getGridExportData } from '@/utils/gridExport';
+import { ExportFormat, exportRows } from '@/utils/spreadsheet';
+import { renderCompanyOptions } from '@/components/companies/companyOptions';
+import { getDescendantIds } from '@/utils/companyTree';
+import { normalizeRoleAssignments, RoleAssignment } from '@/utils/roleAssignments';
+import MergedPermissionsPreview from '@/components/roles/MergedPermissionsPreview';
 
 const userSchema = z.object({
   email: z.string().email('Invalid email'),
   firstName: z.string().min(2, 'First name must be at least 2 characters'),
   lastName: z.string().min(2, 'Last name must be at least 2 characters'),
-  role: z.enum(['admin', 'manager', 'viewer']),
+  // An empty companyId means the role applies to every company the user can access
+  roleAssignments: z
+    .array(z.object({ roleId: z.string().min(1, 'Select a role'), companyId: z.string() }))
+    .min(1, 'Assign at least one role'),
   status: z.enum(['active', 'inactive']),
-  password: z.string().min(8, 'Password must be at least 8 characters').optional(),
   companyId: z.string().uuid('Invalid company ID'),
 });
 
 type UserFormData = z.infer<typeof userSchema>;
 
+interface Role {
+  id: string;
+  name: string;
+  permissions: unknown;
+}
+
 interface User {
   id: string;
   email: string;
   firstName: string;
   lastName: string;
-  role: 'admin' | 'manager' | 'viewer';
-  status: 'active' | 'inactive';
+  role?: string;
+  roleAssignments: RoleAssignment[];
+  // Invited users have not accepted their invitation and set a password yet
+  status: 'active' | 'inactive' | 'invited';
   companyId: string;
+  mfaEnabled: boolean;
   createdAt?: string;
   updatedAt?: string;
 }
 
+// The backend builds the emailed link from this, so it always points at this panel
+const getAcceptInviteUrl = () => `${window.location.origin}/accept-invite`;
+
 export default function Users() {
+  const { can } = usePermissions();
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
   const [openDialog, setOpenDialog] = useState(false);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
-  const [companies, setCompanies] = useState<{ id: string; name: string }[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [companies, setCompanies] = useState<{ id: string; name: string; parentId?: string | null }[]>([]);
+  const [companyFilter, setCompanyFilter] = useState('');
+  const [includeSubCompanies, setIncludeSubCompanies] = useState(true);
+  const apiRef = useGridApiRef();
 
   const {
     register,
@@ -60,40 +100,102 @@ export default function Users() {
     formState: { errors },
     setValue,
     watch,
+    control,
   } = useForm<UserFormData>({
     resolver: zodResolver(userSchema),
     defaultValues: {
       email: '',
       firstName: '',
       lastName: '',
-      role: 'viewer',
+      roleAssignments: [{ roleId: '', companyId: '' }],
       status: 'active',
       companyId: '',
     }
   });
 
+  const { fields: assignmentFields, append: appendAssignment, remove: removeAssignment } = useFieldArray({
+    control,
+    name: 'roleAssignments',
+  });
+
   // Watch the values to ensure they are properly updated
-  const selectedRole = watch('role');
+  const selectedAssignments = watch('roleAssignments');
   const selectedStatus = watch('status');
   const selectedCompanyId = watch('companyId');
 
+  const companyFilterIds = companyFilter
+    ? [companyFilter, ...(includeSubCompanies ? getDescendantIds(companies, companyFilter) : [])]
+    : null;
+  const filteredUsers = companyFilterIds
+    ? users.filter((user) => companyFilterIds.includes(user.companyId))
+    : users;
+
+  const getAssignments = (user: User) =>
+    user.roleAssignments.length > 0 ? user.roleAssignments : normalizeRoleAssignments({ role: user.role }, roles);
+
+  const describeAssignment = (assignment: RoleAssignment) => {
+    const roleName = roles.find((role) => role.id === assignment.roleId)?.name || assignment.roleId;
+    const companyName = assignment.companyId
+      ? companies.find((company) => company.id === assignment.companyId)?.name || assignment.companyId
+      : null;
+    return companyName ? `${roleName} @ ${companyName}` : roleName;
+  };
+
   const columns: GridColDef[] = [
     { field: 'email', headerName: 'Email', flex: 1 },
     { field: 'firstName', headerName: 'First Name', flex: 1 },
     { field: 'lastName', headerName: 'Last Name', flex: 1 },
-    { field: 'role', headerName: 'Role', flex: 1 },
+    {
+      field: 'roleAssignments',
+      headerName: 'Roles',
+      flex: 1.5,
+      valueGetter: (value: RoleAssignment[], row: User) =>
+        getAssignments(row).map(describeAssignment).join(', ') || row.role || '',
+      renderCell: (params) => (
+        <Box display="flex" gap={0.5} alignItems="center" height="100%" flexWrap="wrap">
+          {getAssignments(params.row).map((assignment) => (
+            <Chip
+              key={`${assignment.roleId}-${assignment.companyId}`}
+              label={describeAssignment(assignment)}
+              size="small"
+            />
+          ))}
+        </Box>
+      ),
+    },
+    {
+      field: 'companyId',
+      headerName: 'Company',
+      flex: 1,
+      valueGetter: (value: string) => companies.find((company) => company.id === value)?.name || value,
+    },
     { 
       field: 'status', 
       headerName: 'Status', 
       flex: 1,
       renderCell: (params) => (
         <Typography
-          color={params.value === 'active' ? 'success.main' : 'error.main'}
+          color={
+            params.value === 'active' ? 'success.main' : params.value === 'invited' ? 'info.main' : 'error.main'
+          }
         >
           {params.value}
         </Typography>
       ),
     },
+    {
+      field: 'mfaEnabled',
+      headerName: 'MFA',
+      flex: 0.7,
+      valueGetter: (value: boolean) => (value ? 'Enabled' : 'Off'),
+      renderCell: (params) => (
+        <Chip
+          label={params.row.mfaEnabled ? 'Enabled' : 'Off'}
+          color={params.row.mfaEnabled ? 'success' : 'default'}
+          size="small"
+        />
+      ),
+    },
     {
       field: 'createdAt',
       headerName: 'Created At',
@@ -114,10 +216,28 @@ export default function Users() {
       flex: 1,
       renderCell: (params) => (
         <Box>
-          <IconButton onClick={() => handleEdit(params.row)}>
+          <IconButton onClick={() => handleEdit(params.row)} disabled={!can('users', 'edit')}>
             <EditIcon />
           </IconButton>
-          <IconButton onClick={() => handleDelete(params.row.id)}>
+          {params.row.status === 'invited' && (
+            <IconButton
+              onClick={() => handleResendInvite(params.row)}
+              disabled={!can('users', 'create')}
+              title="Resend invitation"
+            >
+              <ResendIcon />
+            </IconButton>
+          )}
+          {params.row.mfaEnabled && (
+            <IconButton
+              onClick={() => handleResetMfa(params.row)}
+              disabled={!can('users', 'edit')}
+              title="Reset two-factor authentication"
+            >
+              <LockResetIcon />
+            </IconButton>
+          )}
+          <IconButton onClick={() => handleDelete(params.row.id)} disabled={!can('users', 'delete')}>
             <DeleteIcon />
           </IconButton>
         </Box>
@@ -144,8 +264,10 @@ export default function Users() {
           firstName: user.first_name || user.firstName,
           lastName: user.last_name || user.lastName,
           role: user.role,
+          roleAssignments: normalizeRoleAssignments(user, []),
           status: user.status,
           companyId: user.company_id || user.companyId,
+          mfaEnabled: !!(user.mfa_enabled ?? user.mfaEnabled),
           createdAt: user.created_at || user.createdAt,
           updatedAt: user.updated_at || user.updatedAt
         };
@@ -175,7 +297,8 @@ export default function Users() {
       // Map the companies data to the expected format
       const formattedCompanies = response.data.map((company: any) => ({
         id: company.id,
-        name: company.name
+        name: company.name,
+        parentId: company.parent_id || company.parentId || null,
       }));
       
       console.log('Formatted companies:', formattedCompanies); // Debug log
@@ -186,9 +309,19 @@ export default function Users() {
     }
   };
 
+  const fetchRoles = async () => {
+    try {
+      const response = await api.get('/roles');
+      setRoles(Array.isArray(response.data) ? response.data : response.data.data || []);
+    } catch (err) {
+      setError(handleApiError(err));
+    }
+  };
+
   useEffect(() => {
     fetchUsers();
     fetchCompanies();
+    fetchRoles();
   }, []);
 
   const handleEdit = (user: User) => {
@@ -199,12 +332,19 @@ export default function Users() {
     setValue('email', user.email);
     setValue('firstName', user.firstName);
     setValue('lastName', user.lastName);
-    setValue('role', user.role);
-    setValue('status', user.status);
+    const assignments = getAssignments(user);
+    setValue(
+      'roleAssignments',
+      assignments.length > 0
+        ? assignments.map((assignment) => ({ roleId: assignment.roleId, companyId: assignment.companyId || '' }))
+        : [{ roleId: '', companyId: '' }]
+    );
+    // Invited users keep that status until they accept; the form only offers active/inactive
+    setValue('status', user.status === 'inactive' ? 'inactive' : 'active');
     setValue('companyId', user.companyId);
     
     console.log('Form values after setting:', {
-      role: user.role,
+      roleAssignments: assignments,
       status: user.status,
       companyId: user.companyId
     }); // Debug log
@@ -223,22 +363,48 @@ export default function Users() {
     }
   };
 
-  const onSubmit = async (data: UserFormData) => {
+  const handleResendInvite = async (user: User) => {
+    try {
+      // A new link replaces the old one, which also resets its expiry
+      await api.post(`/users/${user.id}/invite`, { acceptUrl: getAcceptInviteUrl() });
+      setSuccess(`A new invitation was sent to ${user.email}`);
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      setError(handleApiError(err));
+    }
+  };
+
+  // For users who lost their authenticator and recovery codes; they enroll again on their next login
+  const handleResetMfa = async (user: User) => {
+    if (window.confirm(`Reset two-factor authentication for ${user.email}? They will have to set it up again.`)) {
+      try {
+        await api.delete(`/users/${user.id}/mfa`);
+        fetchUsers();
+      } catch (err) {
+        setError(handleApiError(err));
+      }
+    }
+  };
+
+  const onSubmit = async (formData: UserFormData) => {
+    const { roleAssignments, status, ...rest } = formData;
+    const data = {
+      ...rest,
+      // Invited users keep that status until they accept, so editing them must not activate them
+      ...(selectedUser?.status === 'invited' ? {} : { status }),
+      roles: roleAssignments.map((assignment) => ({
+        roleId: assignment.roleId,
+        companyId: assignment.companyId || null,
+      })),
+    };
     try {
       if (selectedUser) {
-        // For updates, don't send password if it's not provided
-        const updateData = { ...data };
-        if (!updateData.password) {
-          delete updateData.password;
-        }
-        await api.put(`/users/${selectedUser.id}`, updateData);
+        await api.put(`/users/${selectedUser.id}`, data);
       } else {
-        // For new users, password is required
-        if (!data.password) {
-          setError('Password is required for new users');
-          return;
-        }
-        await api.post('/users', data);
+        // New users get an emailed one-time link and choose their own password
+        await api.post('/users/invite', { ...data, acceptUrl: getAcceptInviteUrl() });
+        setSuccess(`Invitation sent to ${data.email}`);
+        setTimeout(() => setSuccess(null), 3000);
       }
       setOpenDialog(false);
       reset();
@@ -248,6 +414,11 @@ export default function Users() {
     }
   };
 
+  const handleExport = (format: ExportFormat) => {
+    const { headers, rows } = getGridExportData(apiRef);
+    exportRows(rows, 'users', format, headers);
+  };
+
   const handleCloseDialog = () => {
     setOpenDialog(false);
     setSelectedUser(null);
@@ -255,7 +426,7 @@ export default function Users() {
       email: '',
       firstName: '',
       lastName: '',
-      role: 'viewer',
+      roleAssignments: [{ roleId: '', companyId: '' }],
       status: 'active',
       companyId: '',
     });
@@ -273,17 +444,22 @@ export default function Users() {
     <Box p={3}>
       <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
         <Typography variant="h4">Users</Typography>
-        <Button
-          variant="contained"
-          color="primary"
-          onClick={() => {
-            setSelectedUser(null);
-            reset({});
-            setOpenDialog(true);
-          }}
-        >
-          Add User
-        </Button>
+        <Box display="flex" gap={2}>
+          <ExportMenu onExport={handleExport} disabled={!can('users', 'export')} />
+          <PermissionGate resource="users" action="create" disable>
+            <Button
+              variant="contained"
+              color="primary"
+              onClick={() => {
+                setSelectedUser(null);
+                reset({ roleAssignments: [{ roleId: '', companyId: '' }], status: 'active' });
+                setOpenDialog(true);
+              }}
+            >
+              Invite User
+            </Button>
+          </PermissionGate>
+        </Box>
       </Box>
 
       {error && (
@@ -292,10 +468,50 @@ export default function Users() {
         </Alert>
       )}
 
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }}>
+          {success}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 2, mb: 2, alignItems: 'center' }}>
+        <TextField
+          size="small"
+          select
+          label="Company"
+          value={companyFilter}
+          onChange={(e) => setCompanyFilter(e.target.value)}
+          sx={{ width: '240px' }}
+        >
+          <MenuItem value="">All companies</MenuItem>
+          {renderCompanyOptions(companies)}
+        </TextField>
+        {companyFilter && (
+          <FormControlLabel
+            control={
+              <Checkbox
+                size="small"
+                checked={includeSubCompanies}
+                onChange={(e) => setIncludeSubCompanies(e.target.checked)}
+              />
+            }
+            label="Include sub-companies"
+          />
+        )}
+      </Box>
+
       <Paper sx={{ height: 400, width: '100%' }}>
         <DataGrid
-          rows={users}
+          apiRef={apiRef}
+          rows={filteredUsers}
           columns={columns}
+          showToolbar
+          slotProps={{
+            toolbar: {
+              csvOptions: { disableToolbarButton: true },
+              printOptions: { disableToolbarButton: true },
+            },
+          }}
           initialState={{
             pagination: {
               paginationModel: { pageSize: 5, page: 0 },
@@ -306,8 +522,8 @@ export default function Users() {
         />
       </Paper>
 
-      <Dialog open={openDialog} onClose={handleCloseDialog}>
-        <DialogTitle>{selectedUser ? 'Edit User' : 'Add User'}</DialogTitle>
+      <Dialog open={openDialog} onClose={handleCloseDialog} maxWidth="md" fullWidth>
+        <DialogTitle>{selectedUser ? 'Edit User' : 'Invite User'}</DialogTitle>
         <DialogContent>
           <Box component="form" onSubmit={handleSubmit(onSubmit)} sx={{ mt: 2 }}>
             <TextField
@@ -334,44 +550,23 @@ export default function Users() {
               helperText={errors.lastName?.message}
               margin="normal"
             />
-            <TextField
-              fullWidth
-              select
-              label="Role"
-              value={selectedRole || ''}
-              {...register('role')}
-              error={!!errors.role}
-              helperText={errors.role?.message}
-              margin="normal"
-            >
-              <MenuItem value="admin">Admin</MenuItem>
-              <MenuItem value="manager">Manager</MenuItem>
-              <MenuItem value="viewer">Viewer</MenuItem>
-            </TextField>
             <TextField
               fullWidth
               select
               label="Status"
               value={selectedStatus || ''}
               {...register('status')}
+              disabled={selectedUser?.status === 'invited'}
               error={!!errors.status}
-              helperText={errors.status?.message}
+              helperText={
+                errors.status?.message ||
+                (selectedUser?.status === 'invited' ? 'Becomes active once the invitation is accepted' : undefined)
+              }
               margin="normal"
             >
               <MenuItem value="active">Active</MenuItem>
               <MenuItem value="inactive">Inactive</MenuItem>
             </TextField>
-            {!selectedUser && (
-              <TextField
-                fullWidth
-                type="password"
-                label="Password"
-                {...register('password')}
-                error={!!errors.password}
-                helperText={errors.password?.message}
-                margin="normal"
-              />
-            )}
             <TextField
               fullWidth
               select
@@ -382,16 +577,84 @@ export default function Users() {
               helperText={errors.companyId?.message}
               margin="normal"
             >
-              {companies.map((company) => (
-                <MenuItem key={company.id} value={company.id}>
-                  {company.name}
-                </MenuItem>
-              ))}
+              {renderCompanyOptions(companies)}
             </TextField>
+
+            <Typography variant="subtitle1" sx={{ mt: 2 }}>
+              Roles
+            </Typography>
+            {assignmentFields.map((field, index) => (
+              <Box key={field.id} display="flex" gap={2} alignItems="flex-start">
+                <Controller
+                  name={`roleAssignments.${index}.roleId`}
+                  control={control}
+                  render={({ field: roleField }) => (
+                    <TextField
+                      {...roleField}
+                      select
+                      label="Role"
+                      margin="dense"
+                      sx={{ flex: 1 }}
+                      error={!!errors.roleAssignments?.[index]?.roleId}
+                      helperText={errors.roleAssignments?.[index]?.roleId?.message}
+                    >
+                      {roles.map((role) => (
+                        <MenuItem key={role.id} value={role.id}>
+                          {role.name}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                  )}
+                />
+                <Controller
+                  name={`roleAssignments.${index}.companyId`}
+                  control={control}
+                  render={({ field: companyField }) => (
+                    <TextField {...companyField} select label="Scope" margin="dense" sx={{ flex: 1 }}>
+                      <MenuItem value="">All companies</MenuItem>
+                      {renderCompanyOptions(companies)}
+                    </TextField>
+                  )}
+                />
+                <IconButton
+                  onClick={() => removeAssignment(index)}
+                  disabled={assignmentFields.length === 1}
+                  sx={{ mt: 2 }}
+                >
+                  <CloseIcon />
+                </IconButton>
+              </Box>
+            ))}
+            {errors.roleAssignments?.message && (
+              <Typography variant="caption" color="error">
+                {errors.roleAssignments.message}
+              </Typography>
+            )}
+            <Button
+              size="small"
+              startIcon={<AddIcon />}
+              onClick={() => appendAssignment({ roleId: '', companyId: '' })}
+              sx={{ mt: 1 }}
+            >
+              Add role
+            </Button>
+
+            <Divider sx={{ my: 2 }} />
+            <Typography variant="subtitle1" gutterBottom>
+              Resulting permissions
+            </Typography>
+            <MergedPermissionsPreview
+              assignments={(selectedAssignments || [])
+                .filter((assignment) => assignment.roleId)
+                .map((assignment) => ({ roleId: assignment.roleId, companyId: assignment.companyId || null }))}
+              roles={roles}
+              companies={companies}
+            />
+
             <DialogActions>
               <Button onClick={handleCloseDialog}>Cancel</Button>
               <Button type="submit" variant="contained" color="primary">
-                {selectedUser ? 'Update' : 'Create'}
+                {selectedUser ? 'Update' : 'Send invitation'}
               </Button>
             </DialogActions>
           </Box>
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+export const alertRuleSchema = z
+  .object({
+    name: z.string().min(2, 'Name must be at least 2 characters').max(100),
+    enabled: z.boolean(),
+    severity: z.enum(['info', 'warning', 'critical']),
+    scopeType: z.enum(['device', 'device_type', 'company']),
+    scopeId: z.string().min(1, 'Select what the rule applies to'),
+    type: z.enum(['threshold', 'rate_of_change', 'missing_data', 'status_offline']),
+    field: z.string(),
+    operator: z.enum(['>', '>=', '<', '<=']),
+    threshold: z.number({ invalid_type_error: 'Enter a number' }),
+    direction: z.enum(['rise', 'fall', 'either']),
+    windowMinutes: z.number({ invalid_type_error: 'Enter a number' }).int().positive('Must be positive'),
+    durationMinutes: z.number({ invalid_type_error: 'Enter a number' }).int().min(0, 'Cannot be negative'),
+    hysteresis: z.number({ invalid_type_error: 'Enter a number' }).min(0, 'Cannot be negative'),
+    missedIntervals: z.number({ invalid_type_error: 'Enter a number' }).min(1, 'At least one interval'),
+  })
+  .superRefine((rule, ctx) => {
+    if ((rule.type === 'threshold' || rule.type === 'rate_of_change') && !rule.field) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['field'], message: 'Select a payload field' });
+    }
+    if (rule.type === 'rate_of_change' && rule.threshold <= 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['threshold'], message: 'The rate must be positive' });
+    }
+  });
+
+export type AlertRuleFormData = z.infer<typeof alertRuleSchema>;
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+export const DEVICE_STATUSES = ['online', 'offline', 'maintenance'] as const;
+
+export const deviceSchema = z.object({
+  type: z.string().min(2, 'Type must be at least 2 characters').max(50),
+  company_id: z.string().min(1, 'Company is required'),
+  status: z.enum(DEVICE_STATUSES).default('offline'),
+  location: z.string().min(2, 'Location must be at least 2 characters').max(255),
+  physical_address: z.string().min(5, 'Physical address must be at least 5 characters').max(1000),
+  payload_schema: z.record(z.unknown()).default({}),
+  push_interval: z.number().int().positive().default(60),
+  enabled: z.boolean().default(true),
+  device_type_id: z.string().nullable().optional(),
+});
+
+export type DeviceFormData = z.infer<typeof deviceSchema>;
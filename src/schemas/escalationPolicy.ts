@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+export const escalationPolicySchema = z
+  .object({
+    name: z.string().min(2, 'Name must be at least 2 characters').max(100),
+    enabled: z.boolean(),
+    severities: z.array(z.enum(['info', 'warning', 'critical'])).min(1, 'Select at least one severity'),
+    onCallUserIds: z.array(z.string()),
+    steps: z
+      .array(
+        z.object({
+          afterMinutes: z.number({ invalid_type_error: 'Enter minutes' }).int().min(0, 'Cannot be negative'),
+          target: z.enum(['assignee', 'on_call']),
+          channelIds: z.array(z.string()).min(1, 'Select at least one channel'),
+        })
+      )
+      .min(1, 'Add at least one step'),
+  })
+  .superRefine((policy, ctx) => {
+    policy.steps.forEach((step, index) => {
+      if (index > 0 && step.afterMinutes <= policy.steps[index - 1].afterMinutes) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['steps', index, 'afterMinutes'],
+          message: 'Must be later than the previous step',
+        });
+      }
+    });
+    if (policy.steps.some((step) => step.target === 'on_call') && policy.onCallUserIds.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['onCallUserIds'], message: 'Select who is on call' });
+    }
+  });
+
+export type EscalationPolicyFormData = z.infer<typeof escalationPolicySchema>;
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+export const totpCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app');
+
+export const totpFormSchema = z.object({
+  code: totpCodeSchema,
+});
+
+export type TotpFormData = z.infer<typeof totpFormSchema>;
+
+// The login challenge also accepts a one-time recovery code instead of a TOTP code
+export const mfaChallengeSchema = z
+  .object({
+    method: z.enum(['totp', 'recovery']),
+    code: z.string().trim(),
+  })
+  .superRefine((value, ctx) => {
+    if (value.method === 'totp' && !/^\d{6}$/.test(value.code)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['code'],
+        message: 'Enter the 6-digit code from your authenticator app',
+      });
+    }
+    if (value.method === 'recovery' && value.code.replace(/[\s-]/g, '').length < 8) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['code'], message: 'Enter one of your recovery codes' });
+    }
+  });
+
+export type MfaChallengeFormData = z.infer<typeof mfaChallengeSchema>;
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { splitList } from '@/schemas/sso';
+import { isLocalUrl, PHONE_PATTERN } from '@/utils/notifications';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const notificationChannelSchema = z
+  .object({
+    name: z.string().min(2, 'Name must be at least 2 characters').max(100),
+    type: z.enum(['email', 'webhook', 'slack', 'sms']),
+    enabled: z.boolean(),
+    events: z.array(z.string()).min(1, 'Select at least one event'),
+    recipients: z.string(),
+    url: z.string(),
+    format: z.enum(['slack', 'teams']),
+    smtpHost: z.string(),
+    smtpPort: z.number({ invalid_type_error: 'Enter a port' }).int().min(1).max(65535),
+    smtpSecurity: z.enum(['none', 'starttls', 'tls']),
+    smtpUsername: z.string(),
+    fromAddress: z.string(),
+    sender: z.string(),
+    bodyTemplate: z.string(),
+    // SMTP password, HMAC secret or gateway token; left blank to keep the stored one
+    secret: z.string().optional(),
+  })
+  .superRefine((channel, ctx) => {
+    const issue = (path: string, message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+
+    if (channel.type === 'email') {
+      if (!channel.smtpHost) issue('smtpHost', 'SMTP host is required');
+      if (!EMAIL_PATTERN.test(channel.fromAddress)) issue('fromAddress', 'Enter the sender address');
+      const recipients = splitList(channel.recipients);
+      if (recipients.length === 0 || !recipients.every((recipient) => EMAIL_PATTERN.test(recipient))) {
+        issue('recipients', 'Enter email addresses separated by commas');
+      }
+      return;
+    }
+
+    let url: URL | null = null;
+    try {
+      url = new URL(channel.url);
+    } catch (error) {
+      issue('url', 'Enter a URL');
+    }
+    // Plain http is only allowed for a local receiver during development
+    if (url && url.protocol !== 'https:' && !(url.protocol === 'http:' && isLocalUrl(channel.url))) {
+      issue('url', 'Must use https, except for localhost');
+    }
+
+    if (channel.type === 'sms') {
+      const recipients = splitList(channel.recipients);
+      if (recipients.length === 0 || !recipients.every((recipient) => PHONE_PATTERN.test(recipient))) {
+        issue('recipients', 'Enter phone numbers in international format, e.g. +4915112345678');
+      }
+      if (!channel.bodyTemplate.includes('{{message}}')) {
+        issue('bodyTemplate', 'The template must contain {{message}}');
+      }
+    }
+  });
+
+export type NotificationChannelFormData = z.infer<typeof notificationChannelSchema>;
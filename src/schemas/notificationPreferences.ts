@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { PHONE_PATTERN } from '@/utils/notifications';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+const deliverySchema = z.object({
+  enabled: z.boolean(),
+  minSeverity: z.enum(['info', 'warning', 'critical']),
+});
+
+export const notificationPreferencesSchema = z
+  .object({
+    events: z.array(z.string()),
+    email: deliverySchema,
+    sms: deliverySchema.extend({ phone: z.string() }),
+    quietHours: z.object({
+      enabled: z.boolean(),
+      start: z.string().regex(TIME_PATTERN, 'Use HH:MM'),
+      end: z.string().regex(TIME_PATTERN, 'Use HH:MM'),
+      timezone: z.string().refine(isValidTimezone, 'Enter an IANA timezone, e.g. Europe/Berlin'),
+      // Critical alerts still go out during quiet hours unless this is turned off
+      allowCritical: z.boolean(),
+    }),
+  })
+  .superRefine((preferences, ctx) => {
+    if (preferences.sms.enabled && !PHONE_PATTERN.test(preferences.sms.phone)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['sms', 'phone'],
+        message: 'Enter your number in international format, e.g. +4915112345678',
+      });
+    }
+    if (preferences.quietHours.enabled && preferences.quietHours.start === preferences.quietHours.end) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['quietHours', 'end'],
+        message: 'Must differ from the start',
+      });
+    }
+  });
+
+export type NotificationPreferencesFormData = z.infer<typeof notificationPreferencesSchema>;
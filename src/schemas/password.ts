@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { PASSWORD_RULES } from '@/utils/passwordPolicy';
+
+export const passwordSchema = PASSWORD_RULES.reduce<z.ZodTypeAny>(
+  (schema, rule) => schema.refine(rule.test, { message: `Password needs: ${rule.label.toLowerCase()}` }),
+  z.string()
+) as z.ZodType<string>;
+
+export const setPasswordSchema = z
+  .object({
+    password: passwordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((value) => value.password === value.confirmPassword, {
+    path: ['confirmPassword'],
+    message: 'Passwords do not match',
+  });
+
+export type SetPasswordFormData = z.infer<typeof setPasswordSchema>;
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+export type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { getResourceActions, PERMISSION_RESOURCES, Permissions } from '@/utils/permissions';
+
+// One boolean per registered action, so the schema grows with PERMISSION_REGISTRY
+const permissionsShape = PERMISSION_RESOURCES.reduce((shape, resource) => {
+  shape[resource] = z.object(
+    getResourceActions(resource).reduce((actions, action) => {
+      actions[action] = z.boolean().default(false);
+      return actions;
+    }, {} as Record<string, z.ZodTypeAny>)
+  );
+  return shape;
+}, {} as Record<string, z.ZodTypeAny>);
+
+export const permissionsSchema = z.object(permissionsShape) as unknown as z.ZodType<Permissions>;
+
+export const roleSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().min(1, 'Description is required'),
+  // Users holding the role must enroll in TOTP before they can keep using the panel
+  mfaRequired: z.boolean().default(false),
+  permissions: permissionsSchema,
+});
+
+export type RoleFormData = z.infer<typeof roleSchema>;
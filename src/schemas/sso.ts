@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+const DOMAIN_PATTERN = /^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)+$/i;
+
+export const splitList = (value: string) =>
+  value
+    .split(/[\s,]+/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+export const ssoConfigSchema = z.object({
+  enabled: z.boolean(),
+  // http is allowed so a local mock provider can be used in development and tests
+  issuer: z.string().url('Enter the issuer URL, e.g. https://login.example.com'),
+  clientId: z.string().min(1, 'Client ID is required'),
+  // Left blank to keep the stored secret; the API never returns it
+  clientSecret: z.string().optional(),
+  scopes: z.string().min(1, 'At least the openid scope is required'),
+  emailDomains: z
+    .string()
+    .min(1, 'Add at least one email domain')
+    .refine((value) => splitList(value).every((domain) => DOMAIN_PATTERN.test(domain)), {
+      message: 'Enter domains like example.com, separated by commas',
+    }),
+  jitProvisioning: z.boolean(),
+  groupsClaim: z.string().min(1, 'Groups claim is required'),
+  // Empty means users whose groups match no mapping are refused
+  defaultRoleId: z.string(),
+  groupMappings: z.array(
+    z.object({
+      group: z.string().min(1, 'Group is required'),
+      roleId: z.string().min(1, 'Select a role'),
+    })
+  ),
+});
+
+export type SsoConfigFormData = z.infer<typeof ssoConfigSchema>;
@@ -0,0 +1,262 @@
+import { getValueAtPath } from '@/utils/payloadSchema';
+
+export type AlertRuleType = 'threshold' | 'rate_of_change' | 'missing_data' | 'status_offline';
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+export type AlertScopeType = 'device' | 'device_type' | 'company';
+export type ThresholdOperator = '>' | '>=' | '<' | '<=';
+export type RateDirection = 'rise' | 'fall' | 'either';
+
+export const ALERT_RULE_TYPES: Record<AlertRuleType, string> = {
+  threshold: 'Threshold',
+  rate_of_change: 'Rate of change',
+  missing_data: 'Missing data',
+  status_offline: 'Goes offline',
+};
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+export const ALERT_SCOPE_TYPES: Record<AlertScopeType, string> = {
+  device: 'Device',
+  device_type: 'Device type',
+  company: 'Company',
+};
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  severity: AlertSeverity;
+  scopeType: AlertScopeType;
+  scopeId: string;
+  type: AlertRuleType;
+  /** Dotted payload path, for threshold and rate-of-change rules */
+  field: string;
+  operator: ThresholdOperator;
+  /** Threshold value, or change per minute for rate-of-change rules */
+  threshold: number;
+  direction: RateDirection;
+  /** Rate-of-change rules compare against the reading this far back */
+  windowMinutes: number;
+  /** How long the condition must hold before the alert is raised */
+  durationMinutes: number;
+  /** How far back past the threshold the value must go before the alert clears */
+  hysteresis: number;
+  /** Missing-data rules fire after this many push intervals without a reading */
+  missedIntervals: number;
+}
+
+export interface RuleReading {
+  timestamp: string;
+  payload: Record<string, unknown>;
+}
+
+export interface RuleStatusChange {
+  timestamp: string;
+  status: string;
+}
+
+export interface PreviewSeries {
+  deviceId: string;
+  deviceName: string;
+  /** Seconds */
+  pushInterval: number;
+  readings: RuleReading[];
+  statusChanges: RuleStatusChange[];
+}
+
+export interface PreviewAlert {
+  deviceId: string;
+  deviceName: string;
+  raisedAt: number;
+  /** null while still active at the end of the window */
+  clearedAt: number | null;
+  value: number | null;
+}
+
+const MINUTE = 60 * 1000;
+
+const toTime = (timestamp: string) => new Date(timestamp).getTime();
+
+const compare = (value: number, operator: ThresholdOperator, threshold: number) => {
+  switch (operator) {
+    case '>':
+      return value > threshold;
+    case '>=':
+      return value >= threshold;
+    case '<':
+      return value < threshold;
+    default:
+      return value <= threshold;
+  }
+};
+
+/** The value must be back on the safe side of the threshold by the hysteresis margin to clear */
+const isCleared = (value: number, operator: ThresholdOperator, threshold: number, hysteresis: number) =>
+  operator === '>' || operator === '>='
+    ? value < threshold - hysteresis
+    : value > threshold + hysteresis;
+
+interface Sample {
+  time: number;
+  value: number;
+}
+
+const numericSamples = (readings: RuleReading[], field: string): Sample[] =>
+  readings
+    .map((reading) => ({ time: toTime(reading.timestamp), value: getValueAtPath(reading.payload, field) }))
+    .filter((sample): sample is Sample => typeof sample.value === 'number' && !isNaN(sample.time))
+    .sort((a, b) => a.time - b.time);
+
+/**
+ * Shared raise/clear state machine: the condition has to hold for
+ * `durationMinutes` before an alert is raised, and the alert stays active
+ * until `cleared` says so, which is where hysteresis comes in.
+ */
+const runStateMachine = (
+  samples: Sample[],
+  durationMinutes: number,
+  breached: (sample: Sample) => boolean,
+  cleared: (sample: Sample) => boolean
+) => {
+  const alerts: { raisedAt: number; clearedAt: number | null; value: number }[] = [];
+  let pendingSince: number | null = null;
+  let active: { raisedAt: number; clearedAt: number | null; value: number } | null = null;
+
+  samples.forEach((sample) => {
+    if (active) {
+      if (cleared(sample)) {
+        active.clearedAt = sample.time;
+        active = null;
+        pendingSince = null;
+      }
+      return;
+    }
+    if (!breached(sample)) {
+      pendingSince = null;
+      return;
+    }
+    if (pendingSince === null) {
+      pendingSince = sample.time;
+    }
+    if (sample.time - pendingSince >= durationMinutes * MINUTE) {
+      active = { raisedAt: sample.time, clearedAt: null, value: sample.value };
+      alerts.push(active);
+    }
+  });
+  return alerts;
+};
+
+const evaluateThreshold = (rule: AlertRule, series: PreviewSeries) =>
+  runStateMachine(
+    numericSamples(series.readings, rule.field),
+    rule.durationMinutes,
+    (sample) => compare(sample.value, rule.operator, rule.threshold),
+    (sample) => isCleared(sample.value, rule.operator, rule.threshold, rule.hysteresis)
+  );
+
+const evaluateRateOfChange = (rule: AlertRule, series: PreviewSeries) => {
+  const samples = numericSamples(series.readings, rule.field);
+  const rates: Sample[] = [];
+  let start = 0;
+  samples.forEach((sample) => {
+    // Compare with the oldest reading still inside the window
+    while (start < samples.length && sample.time - samples[start].time > rule.windowMinutes * MINUTE) {
+      start++;
+    }
+    const base = samples[start];
+    const minutes = (sample.time - base.time) / MINUTE;
+    if (minutes > 0) {
+      rates.push({ time: sample.time, value: (sample.value - base.value) / minutes });
+    }
+  });
+
+  const signed = (rate: number) =>
+    rule.direction === 'rise' ? rate : rule.direction === 'fall' ? -rate : Math.abs(rate);
+  return runStateMachine(
+    rates,
+    rule.durationMinutes,
+    (sample) => signed(sample.value) > rule.threshold,
+    (sample) => signed(sample.value) < rule.threshold - rule.hysteresis
+  );
+};
+
+const evaluateMissingData = (rule: AlertRule, series: PreviewSeries, windowStart: number, windowEnd: number) => {
+  const limit = rule.missedIntervals * series.pushInterval * 1000;
+  if (!limit) return [];
+
+  const times = series.readings.map((reading) => toTime(reading.timestamp)).sort((a, b) => a - b);
+  // Readings before the window are not loaded, so gaps are only measured between readings. A window without
+  // any reading is still missing data, raised by windowStart + limit at the latest.
+  if (!times.length) {
+    return windowEnd - windowStart > limit ? [{ raisedAt: windowStart + limit, clearedAt: null, value: null }] : [];
+  }
+
+  const alerts: { raisedAt: number; clearedAt: number | null; value: null }[] = [];
+  times.slice(1).forEach((time, index) => {
+    if (time - times[index] > limit) {
+      alerts.push({ raisedAt: times[index] + limit, clearedAt: time, value: null });
+    }
+  });
+  const last = times[times.length - 1];
+  if (windowEnd - last > limit) {
+    alerts.push({ raisedAt: last + limit, clearedAt: null, value: null });
+  }
+  return alerts;
+};
+
+const evaluateStatusOffline = (rule: AlertRule, series: PreviewSeries, windowEnd: number) => {
+  const changes = series.statusChanges
+    .map((change) => ({ time: toTime(change.timestamp), offline: change.status === 'offline' }))
+    .sort((a, b) => a.time - b.time);
+  const alerts: { raisedAt: number; clearedAt: number | null; value: null }[] = [];
+
+  changes.forEach((change, index) => {
+    if (!change.offline) return;
+    const next = changes.slice(index + 1).find((later) => !later.offline);
+    const raisedAt = change.time + rule.durationMinutes * MINUTE;
+    const clearedAt = next ? next.time : null;
+    // Offline spells shorter than the duration never raise
+    if ((clearedAt ?? windowEnd) >= raisedAt && raisedAt <= windowEnd) {
+      alerts.push({ raisedAt, clearedAt, value: null });
+    }
+  });
+  // Consecutive "offline" entries describe the same spell
+  return alerts.filter((alert, index) => index === 0 || alerts[index - 1].clearedAt !== alert.clearedAt);
+};
+
+/** Replays a rule over historical data, as the backend would have evaluated it */
+export const evaluateRule = (
+  rule: AlertRule,
+  seriesList: PreviewSeries[],
+  windowStart: number,
+  windowEnd: number
+): PreviewAlert[] =>
+  seriesList
+    .flatMap((series) => {
+      const alerts =
+        rule.type === 'threshold'
+          ? evaluateThreshold(rule, series)
+          : rule.type === 'rate_of_change'
+            ? evaluateRateOfChange(rule, series)
+            : rule.type === 'missing_data'
+              ? evaluateMissingData(rule, series, windowStart, windowEnd)
+              : evaluateStatusOffline(rule, series, windowEnd);
+      return alerts.map((alert) => ({ ...alert, deviceId: series.deviceId, deviceName: series.deviceName }));
+    })
+    .sort((a, b) => b.raisedAt - a.raisedAt);
+
+export const describeRule = (rule: Pick<AlertRule, 'type' | 'field' | 'operator' | 'threshold' | 'direction' | 'windowMinutes' | 'durationMinutes' | 'missedIntervals'>) => {
+  const forDuration = rule.durationMinutes > 0 ? ` for ${rule.durationMinutes} min` : '';
+  switch (rule.type) {
+    case 'threshold':
+      return `${rule.field} ${rule.operator} ${rule.threshold}${forDuration}`;
+    case 'rate_of_change': {
+      const verb = rule.direction === 'rise' ? 'rises' : rule.direction === 'fall' ? 'falls' : 'changes';
+      return `${rule.field} ${verb} faster than ${rule.threshold}/min over ${rule.windowMinutes} min${forDuration}`;
+    }
+    case 'missing_data':
+      return `No data for ${rule.missedIntervals} × push interval`;
+    default:
+      return `Offline${forDuration}`;
+  }
+};
@@ -0,0 +1,114 @@
+import { AlertSeverity } from '@/utils/alertRules';
+
+export type AlertStatus = 'open' | 'acknowledged' | 'snoozed' | 'resolved';
+
+export interface AlertItem {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  severity: AlertSeverity;
+  message: string;
+  status: AlertStatus;
+  deviceId: string;
+  deviceName: string;
+  companyId: string;
+  companyName: string;
+  assigneeId: string | null;
+  assigneeName: string | null;
+  raisedAt: string;
+  acknowledgedAt: string | null;
+  snoozedUntil: string | null;
+  resolvedAt: string | null;
+  /** Whether the current user has seen the alert in the AppBar dropdown */
+  read: boolean;
+}
+
+export interface AlertHistoryEntry {
+  id: string;
+  action: string;
+  actorName: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export const ALERT_STATUSES: Record<AlertStatus, string> = {
+  open: 'Open',
+  acknowledged: 'Acknowledged',
+  snoozed: 'Snoozed',
+  resolved: 'Resolved',
+};
+
+export const ALERT_STATUS_COLORS: Record<AlertStatus, 'error' | 'warning' | 'default' | 'success'> = {
+  open: 'error',
+  acknowledged: 'warning',
+  snoozed: 'default',
+  resolved: 'success',
+};
+
+export const ALERT_HISTORY_ACTIONS: Record<string, string> = {
+  raised: 'Raised',
+  acknowledged: 'Acknowledged',
+  assigned: 'Assigned',
+  unassigned: 'Unassigned',
+  note: 'Note added',
+  snoozed: 'Snoozed',
+  unsnoozed: 'Snooze ended',
+  resolved: 'Resolved',
+  cleared: 'Condition cleared',
+  reopened: 'Reopened',
+};
+
+export const SNOOZE_OPTIONS = [
+  { label: '15 minutes', minutes: 15 },
+  { label: '1 hour', minutes: 60 },
+  { label: '4 hours', minutes: 240 },
+  { label: '1 day', minutes: 1440 },
+];
+
+export const normalizeAlert = (alert: any): AlertItem => {
+  const snoozedUntil = alert.snoozed_until || alert.snoozedUntil || null;
+  let status: AlertStatus = alert.status || 'open';
+  // A snooze that ran out reads as whatever the alert was before, until the backend catches up
+  if (status === 'snoozed' && snoozedUntil && new Date(snoozedUntil).getTime() <= Date.now()) {
+    status = alert.acknowledged_at || alert.acknowledgedAt ? 'acknowledged' : 'open';
+  }
+  return {
+    id: alert.id,
+    ruleId: alert.rule_id || alert.ruleId || '',
+    ruleName: alert.rule_name || alert.ruleName || alert.rule?.name || '',
+    severity: alert.severity || 'warning',
+    message: alert.message || '',
+    status,
+    deviceId: alert.device_id || alert.deviceId || '',
+    deviceName: alert.device_name || alert.deviceName || alert.device?.name || '',
+    companyId: alert.company_id || alert.companyId || '',
+    companyName: alert.company_name || alert.companyName || alert.company?.name || '',
+    assigneeId: alert.assignee_id || alert.assigneeId || null,
+    assigneeName: alert.assignee_name || alert.assigneeName || null,
+    raisedAt: alert.raised_at || alert.raisedAt || alert.created_at || alert.createdAt,
+    acknowledgedAt: alert.acknowledged_at || alert.acknowledgedAt || null,
+    snoozedUntil,
+    resolvedAt: alert.resolved_at || alert.resolvedAt || null,
+    read: !!(alert.read ?? alert.is_read),
+  };
+};
+
+export const normalizeAlertHistory = (entry: any): AlertHistoryEntry => ({
+  id: entry.id,
+  action: entry.action,
+  actorName: entry.actor_name || entry.actorName || null,
+  note: entry.note || null,
+  createdAt: entry.created_at || entry.createdAt,
+});
+
+/** How long an alert has been (or was) active, e.g. "2h 5m" */
+export const formatAlertDuration = (alert: AlertItem, now: number) => {
+  const end = alert.resolvedAt ? new Date(alert.resolvedAt).getTime() : now;
+  const totalMinutes = Math.max(0, Math.floor((end - new Date(alert.raisedAt).getTime()) / 60000));
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
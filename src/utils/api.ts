@@ -1,5 +1,6 @@
 import axios, { AxiosError, AxiosRequestConfig } from 'axios';
-import Cookies from 'js-cookie';
+import { isPublicRoute } from '@/utils/publicRoutes';
+import { clearSessionTokens, getAccessToken, redirectToLogin, refreshSession, waitForRefresh } from '@/utils/session';
 
 const api = axios.create({
   baseURL: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api/v1',
@@ -9,13 +10,38 @@ const api = axios.create({
   withCredentials: true, // Enable sending cookies with requests
 });
 
+export const CORRELATION_HEADER = 'X-Correlation-ID';
+
+const MUTATING_METHODS = ['post', 'put', 'patch', 'delete'];
+
+export const createCorrelationId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}`;
+};
+
+/**
+ * Request config that tags several writes with one correlation id, so that a
+ * bulk action shows up as a single UI action in the audit log.
+ */
+export const withCorrelationId = (correlationId: string): AxiosRequestConfig => ({
+  headers: { [CORRELATION_HEADER]: correlationId },
+});
+
 // Request interceptor for adding auth token
 api.interceptors.request.use(
-  (config) => {
-    const token = Cookies.get('accessToken');
+  async (config) => {
+    // Requests made while a refresh is running wait for the new token instead of failing with 401
+    await waitForRefresh();
+    const token = getAccessToken();
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+    // Every write carries a correlation id that the backend records in its audit entry
+    if (MUTATING_METHODS.includes((config.method || '').toLowerCase()) && !config.headers[CORRELATION_HEADER]) {
+      config.headers[CORRELATION_HEADER] = createCorrelationId();
+    }
     return config;
   },
   (error) => {
@@ -34,18 +60,8 @@ api.interceptors.response.use(
       originalRequest._retry = true;
 
       try {
-        const refreshToken = Cookies.get('refreshToken');
-        if (!refreshToken) {
-          throw new Error('No refresh token available');
-        }
-
-        // Try to refresh the token using the same api client
-        const response = await api.post('/auth/refresh', { refreshToken });
-        const { accessToken, refreshToken: newRefreshToken } = response.data;
-
-        // Store the new tokens
-        Cookies.set('accessToken', accessToken, { expires: 1 }); // 1 day
-        Cookies.set('refreshToken', newRefreshToken, { expires: 7 }); // 7 days
+        // Concurrent 401s all wait on the same refresh
+        const accessToken = await refreshSession();
 
         // Update the original request with the new token
         originalRequest.headers = {
@@ -57,10 +73,10 @@ api.interceptors.response.use(
         return api(originalRequest);
       } catch (refreshError) {
         // If refresh fails, clear tokens and redirect to login
-        Cookies.remove('accessToken');
-        Cookies.remove('refreshToken');
-        window.location.href = '/login';
-        return Promise.reject(refreshError);
+        clearSessionTokens();
+        redirectToLogin();
+        // On signed-out pages (e.g. wrong password on login) the original error is the one to show
+        return Promise.reject(isPublicRoute(window.location.pathname) ? error : refreshError);
       }
     }
 
@@ -68,6 +84,28 @@ api.interceptors.response.use(
   }
 );
 
+/** Largest page the list endpoints serve */
+export const MAX_PAGE_SIZE = 10000;
+
+/**
+ * Loads every item of a paginated list endpoint, page by page, so nothing is
+ * cut off at the page size. Older backends return a plain array of everything.
+ */
+export const fetchAllPages = async <T = any>(
+  url: string,
+  params: Record<string, unknown> = {},
+  config?: AxiosRequestConfig
+): Promise<T[]> => {
+  const items: T[] = [];
+  for (let page = 1; ; page++) {
+    const response = await api.get(url, { ...config, params: { ...params, page, pageSize: MAX_PAGE_SIZE } });
+    if (Array.isArray(response.data)) return response.data;
+    const pageItems: T[] = response.data.data || [];
+    items.push(...pageItems);
+    if (pageItems.length < MAX_PAGE_SIZE || items.length >= response.data.total) return items;
+  }
+};
+
 export const handleApiError = (error: unknown): string => {
   if (axios.isAxiosError(error)) {
     const axiosError = error as AxiosError<{ message: string }>;
@@ -0,0 +1,21 @@
+/**
+ * Every entity type the API writes audit entries for, with its label in the
+ * audit log. A feature that adds writable entities needs an entry here so its
+ * changes can be filtered.
+ */
+export const AUDIT_ENTITY_TYPES = {
+  device: 'Device',
+  device_type: 'Device Type',
+  payload_schema: 'Payload Schema',
+  company: 'Company',
+  user: 'User',
+  role: 'Role',
+  alert: 'Alert',
+  alert_rule: 'Alert Rule',
+  notification_channel: 'Notification Channel',
+  escalation_policy: 'Escalation Policy',
+} as const;
+
+export type AuditEntityType = keyof typeof AUDIT_ENTITY_TYPES;
+
+export const AUDIT_ENTITY_TYPE_KEYS = Object.keys(AUDIT_ENTITY_TYPES) as AuditEntityType[];
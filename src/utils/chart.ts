@@ -0,0 +1,34 @@
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+
+// Register the chart.js components used across the panel once
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+export const SERIES_COLORS = [
+  '#1976d2',
+  '#dc004e',
+  '#2e7d32',
+  '#ed6c02',
+  '#9c27b0',
+  '#0288d1',
+  '#795548',
+  '#607d8b',
+];
+
+export default ChartJS;
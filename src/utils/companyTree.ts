@@ -0,0 +1,100 @@
+export interface HierarchyCompany {
+  id: string;
+  name: string;
+  parentId?: string | null;
+}
+
+export interface CompanyTreeNode<T extends HierarchyCompany> {
+  company: T;
+  depth: number;
+  children: CompanyTreeNode<T>[];
+}
+
+// Companies whose parent is missing from the list are treated as roots, and so is one company of every parent cycle
+export const buildCompanyTree = <T extends HierarchyCompany>(companies: T[]): CompanyTreeNode<T>[] => {
+  const nodes = new Map<string, CompanyTreeNode<T>>();
+  companies.forEach((company) => nodes.set(company.id, { company, depth: 0, children: [] }));
+
+  const roots: CompanyTreeNode<T>[] = [];
+  companies.forEach((company) => {
+    const node = nodes.get(company.id)!;
+    const parent = company.parentId ? nodes.get(company.parentId) : undefined;
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const reachable = new Set<string>();
+  const markReachable = (node: CompanyTreeNode<T>) => {
+    if (reachable.has(node.company.id)) return;
+    reachable.add(node.company.id);
+    node.children.forEach(markReachable);
+  };
+  roots.forEach(markReachable);
+
+  // A cycle in data that predates cycle prevention is unreachable from every root; walking up from any of its
+  // companies ends on the cycle, and that company is cut from its parent so the whole cycle is listed
+  companies.forEach((company) => {
+    if (reachable.has(company.id)) return;
+    const visited = new Set<string>();
+    let node = nodes.get(company.id)!;
+    while (!visited.has(node.company.id)) {
+      visited.add(node.company.id);
+      node = nodes.get(node.company.parentId!)!;
+    }
+    const parent = nodes.get(node.company.parentId!)!;
+    parent.children = parent.children.filter((child) => child !== node);
+    roots.push(node);
+    markReachable(node);
+  });
+
+  const sortAndSetDepth = (list: CompanyTreeNode<T>[], depth: number, seen: Set<string>) => {
+    list.sort((a, b) => a.company.name.localeCompare(b.company.name));
+    list.forEach((node) => {
+      // Guard against cycles in data that predates cycle prevention
+      if (seen.has(node.company.id)) {
+        node.children = [];
+        return;
+      }
+      seen.add(node.company.id);
+      node.depth = depth;
+      sortAndSetDepth(node.children, depth + 1, seen);
+    });
+  };
+  sortAndSetDepth(roots, 0, new Set());
+
+  return roots;
+};
+
+/** Depth-first list of the tree, handy for indented selects */
+export const flattenCompanyTree = <T extends HierarchyCompany>(companies: T[]): { company: T; depth: number }[] => {
+  const result: { company: T; depth: number }[] = [];
+  const walk = (nodes: CompanyTreeNode<T>[]) =>
+    nodes.forEach((node) => {
+      result.push({ company: node.company, depth: node.depth });
+      walk(node.children);
+    });
+  walk(buildCompanyTree(companies));
+  return result;
+};
+
+export const getDescendantIds = (companies: HierarchyCompany[], companyId: string): string[] => {
+  const descendants: string[] = [];
+  const queue = [companyId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    companies
+      .filter((company) => company.parentId === current && !descendants.includes(company.id))
+      .forEach((company) => {
+        descendants.push(company.id);
+        queue.push(company.id);
+      });
+  }
+  return descendants.filter((id) => id !== companyId);
+};
+
+/** Whether making `parentId` the parent of `companyId` would create a cycle */
+export const wouldCreateCycle = (companies: HierarchyCompany[], companyId: string, parentId: string | null) =>
+  !!parentId && (parentId === companyId || getDescendantIds(companies, companyId).includes(parentId));
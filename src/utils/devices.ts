@@ -0,0 +1,22 @@
+import type { AxiosRequestConfig } from 'axios';
+import api from '@/utils/api';
+import { DeviceFormData } from '@/schemas/device';
+
+export const toDeviceFormData = (data: any): DeviceFormData => ({
+  type: data.type,
+  company_id: data.company_id || data.companyId,
+  status: data.status,
+  location: data.location,
+  physical_address: data.physical_address || data.physicalAddress,
+  payload_schema: data.payload_schema || data.payloadSchema || {},
+  push_interval: data.push_interval || data.pushInterval,
+  enabled: data.enabled,
+  device_type_id: data.device_type_id || data.deviceTypeId || null,
+});
+
+/** PUT replaces the whole device, so the current one is loaded and sent back with the changes applied */
+export const updateDevice = async (id: string, changes: Partial<DeviceFormData>, config?: AxiosRequestConfig) => {
+  const response = await api.get(`/devices/${id}`, config);
+  const current = toDeviceFormData(response.data.data || response.data);
+  return api.put(`/devices/${id}`, { ...current, ...changes }, config);
+};
@@ -0,0 +1,30 @@
+import type { RefObject } from 'react';
+import {
+  GridApi,
+  GridColDef,
+  gridFilteredSortedRowEntriesSelector,
+  gridVisibleColumnDefinitionsSelector,
+} from '@mui/x-data-grid';
+
+const NON_DATA_COLUMNS = ['actions', '__check__'];
+
+/**
+ * Collects what a DataGrid currently shows — filtered and sorted rows across
+ * all pages, visible columns only — keyed by column header.
+ */
+export const getGridExportData = (apiRef: RefObject<GridApi | null>) => {
+  const api = apiRef.current;
+  if (!api) return { headers: [], rows: [] };
+
+  const columns = gridVisibleColumnDefinitionsSelector(apiRef).filter(
+    (column: GridColDef) => !NON_DATA_COLUMNS.includes(column.field)
+  );
+  const headers = columns.map((column: GridColDef) => column.headerName || column.field);
+
+  const rows = gridFilteredSortedRowEntriesSelector(apiRef).map(({ model }) =>
+    Object.fromEntries(
+      columns.map((column: GridColDef, index: number) => [headers[index], api.getRowValue(model, column) ?? ''])
+    )
+  );
+  return { headers, rows };
+};
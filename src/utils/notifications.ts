@@ -0,0 +1,144 @@
+import { AlertSeverity } from '@/utils/alertRules';
+
+export type ChannelType = 'email' | 'webhook' | 'slack' | 'sms';
+
+export const CHANNEL_TYPES: Record<ChannelType, string> = {
+  email: 'Email (SMTP)',
+  webhook: 'Webhook',
+  slack: 'Slack / Teams',
+  sms: 'SMS gateway',
+};
+
+/** Events a channel or a user can subscribe to */
+export const NOTIFICATION_EVENTS = {
+  alert_raised: 'Alert raised',
+  alert_escalated: 'Alert escalated',
+  alert_resolved: 'Alert resolved',
+  device_offline: 'Device offline',
+  security: 'Security events (failed sign-ins, MFA resets)',
+} as const;
+
+export type NotificationEvent = keyof typeof NOTIFICATION_EVENTS;
+
+export const NOTIFICATION_EVENT_KEYS = Object.keys(NOTIFICATION_EVENTS) as NotificationEvent[];
+
+export type SmtpSecurity = 'none' | 'starttls' | 'tls';
+
+export type IncomingWebhookFormat = 'slack' | 'teams';
+
+/** E.164, the format SMS gateways expect */
+export const PHONE_PATTERN = /^\+[1-9]\d{6,14}$/;
+
+// {{to}}, {{from}} and {{message}} are filled in by the API for each recipient
+export const DEFAULT_SMS_TEMPLATE = '{"to":"{{to}}","from":"{{from}}","text":"{{message}}"}';
+
+export interface NotificationChannel {
+  id: string;
+  name: string;
+  type: ChannelType;
+  enabled: boolean;
+  events: NotificationEvent[];
+  /** Email or phone recipients, for email and SMS channels */
+  recipients: string[];
+  /** Webhook, incoming-webhook or SMS gateway URL */
+  url: string;
+  format: IncomingWebhookFormat;
+  smtpHost: string;
+  smtpPort: number;
+  smtpSecurity: SmtpSecurity;
+  smtpUsername: string;
+  fromAddress: string;
+  sender: string;
+  bodyTemplate: string;
+  /** Whether the API holds a secret (SMTP password, HMAC secret or gateway token); it is never returned */
+  hasSecret: boolean;
+  lastTestAt: string | null;
+  lastTestOk: boolean | null;
+}
+
+export const normalizeChannel = (channel: any): NotificationChannel => {
+  const config = channel.config || {};
+  return {
+    id: channel.id,
+    name: channel.name,
+    type: channel.type,
+    enabled: channel.enabled !== false,
+    events: channel.events || [],
+    recipients: config.recipients || [],
+    url: config.url || '',
+    format: config.format || 'slack',
+    smtpHost: config.smtp_host || config.smtpHost || '',
+    smtpPort: Number(config.smtp_port ?? config.smtpPort ?? 587),
+    smtpSecurity: config.smtp_security || config.smtpSecurity || 'starttls',
+    smtpUsername: config.smtp_username || config.smtpUsername || '',
+    fromAddress: config.from_address || config.fromAddress || '',
+    sender: config.sender || '',
+    bodyTemplate: config.body_template || config.bodyTemplate || DEFAULT_SMS_TEMPLATE,
+    hasSecret: !!(channel.has_secret ?? channel.hasSecret),
+    lastTestAt: channel.last_test_at || channel.lastTestAt || null,
+    lastTestOk: channel.last_test_ok ?? channel.lastTestOk ?? null,
+  };
+};
+
+/** Short destination summary for the channel list */
+export const describeChannel = (channel: NotificationChannel) => {
+  if (channel.type === 'email' || channel.type === 'sms') {
+    const [first, ...rest] = channel.recipients;
+    return rest.length > 0 ? `${first} +${rest.length} more` : first || '-';
+  }
+  try {
+    return new URL(channel.url).host;
+  } catch (error) {
+    return channel.url || '-';
+  }
+};
+
+// Loopback only: the API server cannot reach the developer's own machine, so test deliveries to these are sent
+// from the browser. Every other address, private ones included, is tested by the API.
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]', '0.0.0.0'];
+
+export const isLocalUrl = (url: string) => {
+  try {
+    const { hostname } = new URL(url);
+    return LOCAL_HOSTS.includes(hostname) || hostname.endsWith('.localhost');
+  } catch (error) {
+    return false;
+  }
+};
+
+export type EscalationTarget = 'assignee' | 'on_call';
+
+export const ESCALATION_TARGETS: Record<EscalationTarget, string> = {
+  assignee: 'Assignee (everyone subscribed if unassigned)',
+  on_call: 'On-call users',
+};
+
+export interface EscalationStep {
+  /** Minutes after the alert was raised, while it is still unacknowledged */
+  afterMinutes: number;
+  target: EscalationTarget;
+  /** Email and SMS channels deliver to the targeted users' own address and number, not their recipient list */
+  channelIds: string[];
+}
+
+export interface EscalationPolicy {
+  id: string;
+  name: string;
+  enabled: boolean;
+  severities: AlertSeverity[];
+  onCallUserIds: string[];
+  steps: EscalationStep[];
+}
+
+export const normalizeEscalationPolicy = (policy: any): EscalationPolicy => ({
+  id: policy.id,
+  name: policy.name,
+  enabled: policy.enabled !== false,
+  severities: policy.severities || [],
+  onCallUserIds: policy.on_call_user_ids || policy.onCallUserIds || [],
+  steps: (policy.steps || []).map((step: any) => ({
+    afterMinutes: Number(step.after_minutes ?? step.afterMinutes ?? 0),
+    target: step.target || 'assignee',
+    channelIds: step.channel_ids || step.channelIds || [],
+  })),
+});
@@ -0,0 +1,96 @@
+// Browser side of the OIDC authorization code flow with PKCE. The code is
+// exchanged by the backend, which holds the client secret, validates the ID
+// token and provisions the user.
+
+const SSO_STATE_KEY = 'sso:pending';
+
+export const SSO_CALLBACK_PATH = '/sso/callback';
+
+/** Where the IdP sends the user back; register this as the redirect URI with the provider */
+export const getSsoRedirectUri = () =>
+  process.env.NEXT_PUBLIC_SSO_REDIRECT_URI || `${window.location.origin}${SSO_CALLBACK_PATH}`;
+
+/** What discovery returns for an email domain */
+export interface SsoProvider {
+  providerId: string;
+  companyName: string;
+  authorizationEndpoint: string;
+  clientId: string;
+  scopes: string[];
+}
+
+interface PendingSsoLogin {
+  providerId: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  next: string | null;
+}
+
+const base64UrlEncode = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const randomString = (byteLength = 32) => {
+  const bytes = new Uint8Array(byteLength);
+  crypto.getRandomValues(bytes);
+  return base64UrlEncode(bytes);
+};
+
+export const createPkcePair = async () => {
+  const codeVerifier = randomString(48);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return { codeVerifier, codeChallenge: base64UrlEncode(new Uint8Array(digest)) };
+};
+
+/**
+ * Remembers the PKCE verifier, state and nonce for the callback page and
+ * returns the URL to send the browser to.
+ */
+export const beginSsoLogin = async (provider: SsoProvider, email: string, next: string | null) => {
+  const { codeVerifier, codeChallenge } = await createPkcePair();
+  const pending: PendingSsoLogin = {
+    providerId: provider.providerId,
+    state: randomString(),
+    nonce: randomString(),
+    codeVerifier,
+    redirectUri: getSsoRedirectUri(),
+    next,
+  };
+  sessionStorage.setItem(SSO_STATE_KEY, JSON.stringify(pending));
+
+  const url = new URL(provider.authorizationEndpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', pending.redirectUri);
+  url.searchParams.set('scope', (provider.scopes.length > 0 ? provider.scopes : ['openid', 'email', 'profile']).join(' '));
+  url.searchParams.set('state', pending.state);
+  url.searchParams.set('nonce', pending.nonce);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (email) {
+    url.searchParams.set('login_hint', email);
+  }
+  return url.toString();
+};
+
+/**
+ * Returns the pending login if `state` matches, and forgets it either way so a
+ * callback URL can't be replayed.
+ */
+export const consumeSsoLogin = (state: string): PendingSsoLogin | null => {
+  const raw = sessionStorage.getItem(SSO_STATE_KEY);
+  sessionStorage.removeItem(SSO_STATE_KEY);
+  if (!raw) return null;
+  try {
+    const pending = JSON.parse(raw) as PendingSsoLogin;
+    return pending.state === state ? pending : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,41 @@
+export const PASSWORD_MIN_LENGTH = 10;
+
+export interface PasswordRule {
+  id: string;
+  label: string;
+  test: (password: string) => boolean;
+}
+
+/** The single password policy for every place a user chooses a password */
+export const PASSWORD_RULES: PasswordRule[] = [
+  {
+    id: 'length',
+    label: `At least ${PASSWORD_MIN_LENGTH} characters`,
+    test: (password) => password.length >= PASSWORD_MIN_LENGTH,
+  },
+  { id: 'lowercase', label: 'A lowercase letter', test: (password) => /[a-z]/.test(password) },
+  { id: 'uppercase', label: 'An uppercase letter', test: (password) => /[A-Z]/.test(password) },
+  { id: 'number', label: 'A number', test: (password) => /\d/.test(password) },
+  { id: 'symbol', label: 'A symbol', test: (password) => /[^A-Za-z0-9]/.test(password) },
+];
+
+export type PasswordStrength = 'weak' | 'fair' | 'good' | 'strong';
+
+export const checkPasswordRules = (password: string) =>
+  PASSWORD_RULES.map((rule) => ({ ...rule, passed: rule.test(password) }));
+
+/** 0-100, for a strength meter; length beyond the minimum keeps adding a little */
+export const getPasswordScore = (password: string): number => {
+  if (!password) return 0;
+  const passed = PASSWORD_RULES.filter((rule) => rule.test(password)).length;
+  const extraLength = Math.min(Math.max(password.length - PASSWORD_MIN_LENGTH, 0), 10);
+  return Math.min(Math.round((passed / PASSWORD_RULES.length) * 80 + extraLength * 2), 100);
+};
+
+export const getPasswordStrength = (password: string): PasswordStrength => {
+  const score = getPasswordScore(password);
+  if (score < 50) return 'weak';
+  if (score < 80) return 'fair';
+  if (score < 95) return 'good';
+  return 'strong';
+};
@@ -0,0 +1,292 @@
+export type JsonSchemaType = 'number' | 'integer' | 'string' | 'boolean' | 'object' | 'array';
+
+export interface JsonSchema {
+  $schema?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  unit?: string;
+  minimum?: number;
+  maximum?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  [key: string]: unknown;
+}
+
+export interface PayloadField {
+  path: string;
+  label: string;
+  type: JsonSchemaType;
+  unit?: string;
+}
+
+const primaryType = (schema: JsonSchema): JsonSchemaType | undefined => {
+  if (Array.isArray(schema.type)) {
+    return schema.type.find((type) => type !== ('null' as string));
+  }
+  if (!schema.type && schema.properties) return 'object';
+  return schema.type;
+};
+
+/**
+ * Flattens a device payload schema into dotted field paths
+ * (e.g. `sensors.temperature`), descending into nested objects.
+ */
+export const getPayloadFields = (schema: JsonSchema | null | undefined, prefix = ''): PayloadField[] => {
+  if (!schema?.properties) return [];
+
+  return Object.entries(schema.properties).flatMap(([name, property]) => {
+    const path = prefix ? `${prefix}.${name}` : name;
+    const type = primaryType(property);
+    if (type === 'object') {
+      return getPayloadFields(property, path);
+    }
+    if (!type) return [];
+    return [{ path, label: property.title || path, type, unit: property.unit }];
+  });
+};
+
+export const getNumericFields = (schema: JsonSchema | null | undefined) =>
+  getPayloadFields(schema).filter((field) => field.type === 'number' || field.type === 'integer');
+
+export const getValueAtPath = (payload: unknown, path: string): unknown =>
+  path.split('.').reduce<unknown>((value, key) => {
+    if (value && typeof value === 'object') {
+      return (value as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, payload);
+
+export const SCHEMA_FIELD_TYPES: JsonSchemaType[] = ['number', 'integer', 'string', 'boolean', 'object', 'array'];
+
+/** Editable representation of one schema property used by the visual builder */
+export interface SchemaFieldDefinition {
+  id: string;
+  name: string;
+  type: JsonSchemaType;
+  unit: string;
+  minimum: string;
+  maximum: string;
+  required: boolean;
+  description: string;
+  itemType: JsonSchemaType;
+  children: SchemaFieldDefinition[];
+  // Keywords the builder doesn't edit, kept so round-trips are lossless. This includes the
+  // loaded `type`, which is only replaced once the user picks another one.
+  extra: Record<string, unknown>;
+  // What the type and item type selects showed on load; unset for fields added in the builder
+  initialType?: JsonSchemaType;
+  initialItemType?: JsonSchemaType;
+  // A property the builder can't represent (type unions, `$ref`, `allOf`, `enum` without a type).
+  // It is shown read-only and written back verbatim.
+  raw?: JsonSchema;
+}
+
+const BUILDER_KEYWORDS = ['unit', 'minimum', 'maximum', 'description', 'properties', 'required'];
+
+const isRawProperty = (property: JsonSchema) =>
+  Array.isArray(property.type) || (!property.type && !property.properties);
+
+let fieldCounter = 0;
+const nextFieldId = () => `field-${++fieldCounter}`;
+
+export const createSchemaField = (overrides: Partial<SchemaFieldDefinition> = {}): SchemaFieldDefinition => ({
+  id: nextFieldId(),
+  name: '',
+  type: 'number',
+  unit: '',
+  minimum: '',
+  maximum: '',
+  required: false,
+  description: '',
+  itemType: 'number',
+  children: [],
+  extra: {},
+  ...overrides,
+});
+
+export const schemaToFields = (schema: JsonSchema | null | undefined): SchemaFieldDefinition[] => {
+  if (!schema?.properties) return [];
+  const required = schema.required || [];
+
+  return Object.entries(schema.properties).map(([name, property]) => {
+    if (isRawProperty(property)) {
+      return createSchemaField({
+        name,
+        type: primaryType(property) || 'string',
+        required: required.includes(name),
+        description: property.description || '',
+        raw: property,
+      });
+    }
+    const extra = Object.fromEntries(
+      Object.entries(property).filter(([key]) => !BUILDER_KEYWORDS.includes(key))
+    );
+    const type = primaryType(property) || 'string';
+    const itemType = (property.items && primaryType(property.items)) || 'number';
+    return createSchemaField({
+      name,
+      type,
+      initialType: type,
+      unit: property.unit || '',
+      minimum: property.minimum !== undefined ? String(property.minimum) : '',
+      maximum: property.maximum !== undefined ? String(property.maximum) : '',
+      required: required.includes(name),
+      description: property.description || '',
+      itemType,
+      initialItemType: property.items ? itemType : undefined,
+      children: schemaToFields(property),
+      extra,
+    });
+  });
+};
+
+const fieldToProperty = (field: SchemaFieldDefinition): JsonSchema => {
+  if (field.raw) return field.raw;
+  const { items, type, ...extra } = field.extra;
+  const property: JsonSchema = { ...extra };
+  // An untyped object stays untyped until the user picks a type
+  if (field.type !== field.initialType) {
+    property.type = field.type;
+  } else if (type !== undefined) {
+    property.type = type as JsonSchema['type'];
+  }
+  if (field.description) property.description = field.description;
+  if (field.unit) property.unit = field.unit;
+  if (field.type === 'number' || field.type === 'integer') {
+    if (field.minimum !== '') property.minimum = Number(field.minimum);
+    if (field.maximum !== '') property.maximum = Number(field.maximum);
+  }
+  if (field.type === 'object') {
+    Object.assign(property, fieldsToObjectSchema(field.children));
+  }
+  if (field.type === 'array') {
+    const itemSchema = items as JsonSchema | undefined;
+    property.items =
+      itemSchema && field.itemType === field.initialItemType
+        ? itemSchema
+        : { ...itemSchema, type: field.itemType };
+  }
+  return property;
+};
+
+const fieldsToObjectSchema = (fields: SchemaFieldDefinition[]): JsonSchema => {
+  const named = fields.filter((field) => field.name.trim() !== '');
+  const schema: JsonSchema = {
+    properties: Object.fromEntries(named.map((field) => [field.name.trim(), fieldToProperty(field)])),
+  };
+  const required = named.filter((field) => field.required).map((field) => field.name.trim());
+  if (required.length > 0) schema.required = required;
+  return schema;
+};
+
+/**
+ * Builds the payload JSON schema from builder fields, keeping the root-level
+ * keywords (e.g. `$schema`, `additionalProperties`) of `base`.
+ */
+export const fieldsToSchema = (fields: SchemaFieldDefinition[], base: JsonSchema = {}): JsonSchema => {
+  const { properties, required, ...rest } = base;
+  return { ...rest, type: 'object', ...fieldsToObjectSchema(fields) };
+};
+
+export const hasInvalidRange = (field: SchemaFieldDefinition) =>
+  (field.type === 'number' || field.type === 'integer') &&
+  field.minimum !== '' &&
+  field.maximum !== '' &&
+  Number(field.minimum) > Number(field.maximum);
+
+/**
+ * True while any field, at any depth, shows an error in the builder: a missing or
+ * duplicate name (one of the duplicates would be dropped on save) or min > max.
+ */
+export const hasIncompleteFields = (fields: SchemaFieldDefinition[]): boolean => {
+  const names = fields.map((field) => field.name.trim());
+  return fields.some(
+    (field, index) =>
+      !names[index] ||
+      names.indexOf(names[index]) !== index ||
+      hasInvalidRange(field) ||
+      (field.type === 'object' && !field.raw && hasIncompleteFields(field.children))
+  );
+};
+
+export type SchemaChangeKind = 'added' | 'removed' | 'changed';
+
+export interface SchemaChange {
+  path: string;
+  kind: SchemaChangeKind;
+  // Keyword-level differences for changed fields, e.g. { unit: ['°C', '°F'] }
+  changes: Record<string, [unknown, unknown]>;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+}
+
+// A field's own keywords, without its nested structure
+const ownKeywords = (schema: JsonSchema | null | undefined): Record<string, unknown> => {
+  const { properties, required, ...keywords } = schema || {};
+  return keywords;
+};
+
+const flattenProperties = (
+  schema: JsonSchema | null | undefined,
+  prefix = '',
+  result: Record<string, Record<string, unknown>> = {}
+) => {
+  if (!schema?.properties) return result;
+  const required = schema.required || [];
+
+  Object.entries(schema.properties).forEach(([name, property]) => {
+    const path = prefix ? `${prefix}.${name}` : name;
+    result[path] = { ...ownKeywords(property), required: required.includes(name) };
+    flattenProperties(property, path, result);
+  });
+  return result;
+};
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Structural diff between two payload schemas, field by field. Changes to
+ * root keywords (e.g. `$schema`) are reported under the path `(root)`.
+ */
+export const diffSchemas = (
+  before: JsonSchema | null | undefined,
+  after: JsonSchema | null | undefined
+): SchemaChange[] => {
+  const beforeFields = flattenProperties(before);
+  const afterFields = flattenProperties(after);
+  const paths = Array.from(new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)])).sort();
+  const changes: SchemaChange[] = [];
+
+  const rootChanges = diffKeywords(ownKeywords(before), ownKeywords(after));
+  if (Object.keys(rootChanges).length > 0) {
+    changes.push({ path: '(root)', kind: 'changed', changes: rootChanges });
+  }
+
+  paths.forEach((path) => {
+    const a = beforeFields[path];
+    const b = afterFields[path];
+    if (!a) {
+      changes.push({ path, kind: 'added', changes: {}, after: b });
+    } else if (!b) {
+      changes.push({ path, kind: 'removed', changes: {}, before: a });
+    } else {
+      const keywordChanges = diffKeywords(a, b);
+      if (Object.keys(keywordChanges).length > 0) {
+        changes.push({ path, kind: 'changed', changes: keywordChanges, before: a, after: b });
+      }
+    }
+  });
+  return changes;
+};
+
+const diffKeywords = (a: Record<string, unknown>, b: Record<string, unknown>) => {
+  const result: Record<string, [unknown, unknown]> = {};
+  Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).forEach((keyword) => {
+    if (!isEqual(a[keyword], b[keyword])) {
+      result[keyword] = [a[keyword], b[keyword]];
+    }
+  });
+  return result;
+};
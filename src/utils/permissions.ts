@@ -0,0 +1,146 @@
+// Shared by the client and middleware.ts, so this module must stay free of browser-only imports
+
+/** Every action a role can grant, with its column label in the permission matrix */
+export const PERMISSION_ACTIONS = {
+  view: 'View',
+  create: 'Create',
+  edit: 'Edit',
+  delete: 'Delete',
+  export: 'Export',
+  configure: 'Configure',
+  acknowledge: 'Acknowledge',
+} as const;
+
+export type PermissionAction = keyof typeof PERMISSION_ACTIONS;
+
+/**
+ * The single list of protected resources and the actions each supports. The
+ * role schema, the permission matrix and the cookie format are all derived
+ * from it, so a new feature only needs an entry here.
+ */
+export const PERMISSION_REGISTRY = {
+  devices: { label: 'Devices', actions: ['view', 'create', 'edit', 'delete', 'export', 'configure'] },
+  device_types: { label: 'Device Types', actions: ['view', 'create', 'edit', 'delete'] },
+  payload_schemas: { label: 'Payload Schemas', actions: ['view', 'edit'] },
+  companies: { label: 'Companies', actions: ['view', 'create', 'edit', 'delete', 'export', 'configure'] },
+  users: { label: 'Users', actions: ['view', 'create', 'edit', 'delete', 'export'] },
+  alerts: { label: 'Alerts', actions: ['view', 'create', 'edit', 'delete', 'acknowledge'] },
+  notifications: { label: 'Notifications', actions: ['view', 'create', 'edit', 'delete'] },
+  reports: { label: 'Reports', actions: ['view', 'create', 'export'] },
+  api_keys: { label: 'API Keys', actions: ['view', 'create', 'delete'] },
+  audit_logs: { label: 'Audit Log', actions: ['view', 'export'] },
+} as const satisfies Record<string, { label: string; actions: readonly PermissionAction[] }>;
+
+export type PermissionResource = keyof typeof PERMISSION_REGISTRY;
+
+export const PERMISSION_RESOURCES = Object.keys(PERMISSION_REGISTRY) as PermissionResource[];
+
+export const ALL_PERMISSION_ACTIONS = Object.keys(PERMISSION_ACTIONS) as PermissionAction[];
+
+export const getResourceActions = (resource: PermissionResource): readonly PermissionAction[] =>
+  PERMISSION_REGISTRY[resource].actions;
+
+export const isActionSupported = (resource: PermissionResource, action: PermissionAction) =>
+  getResourceActions(resource).includes(action);
+
+export type Permissions = Record<PermissionResource, Partial<Record<PermissionAction, boolean>>>;
+
+export interface RequiredPermission {
+  resource: PermissionResource;
+  action: PermissionAction;
+}
+
+/** Cookie holding the granted permissions so middleware.ts can block routes */
+export const PERMISSIONS_COOKIE = 'permissions';
+
+export const createEmptyPermissions = (): Permissions =>
+  PERMISSION_RESOURCES.reduce((result, resource) => {
+    result[resource] = getResourceActions(resource).reduce((actions, action) => {
+      actions[action] = false;
+      return actions;
+    }, {} as Partial<Record<PermissionAction, boolean>>);
+    return result;
+  }, {} as Permissions);
+
+/** Fills in missing resources and actions so partial API responses deny by default */
+export const normalizePermissions = (raw: unknown): Permissions => {
+  const permissions = createEmptyPermissions();
+  if (!raw || typeof raw !== 'object') return permissions;
+
+  PERMISSION_RESOURCES.forEach((resource) => {
+    const actions = (raw as Record<string, Record<string, unknown> | undefined>)[resource];
+    getResourceActions(resource).forEach((action) => {
+      permissions[resource][action] = actions?.[action] === true;
+    });
+  });
+  return permissions;
+};
+
+export const hasPermission = (
+  permissions: Permissions | null,
+  resource: PermissionResource,
+  action: PermissionAction
+) => !!permissions?.[resource]?.[action];
+
+/** A user with several roles gets every permission any of them grants */
+export const mergePermissions = (list: unknown[]): Permissions => {
+  const merged = createEmptyPermissions();
+  list.map(normalizePermissions).forEach((permissions) => {
+    PERMISSION_RESOURCES.forEach((resource) => {
+      getResourceActions(resource).forEach((action) => {
+        merged[resource][action] = merged[resource][action] || permissions[resource][action];
+      });
+    });
+  });
+  return merged;
+};
+
+// Stored as "devices:view,users:edit" to keep the cookie small
+export const serializePermissions = (permissions: Permissions) => {
+  const granted: string[] = [];
+  PERMISSION_RESOURCES.forEach((resource) => {
+    getResourceActions(resource).forEach((action) => {
+      if (permissions[resource][action]) granted.push(`${resource}:${action}`);
+    });
+  });
+  return granted.join(',');
+};
+
+export const parsePermissions = (value: string): Permissions => {
+  const permissions = createEmptyPermissions();
+  value.split(',').forEach((entry) => {
+    const [resource, action] = entry.split(':') as [PermissionResource, PermissionAction];
+    if (permissions[resource] && isActionSupported(resource, action)) {
+      permissions[resource][action] = true;
+    }
+  });
+  return permissions;
+};
+
+// Longest matching prefix wins, so /devices/new needs create while /devices needs view.
+// Dynamic segments like [id] match both the page pathname and the real URL.
+const ROUTE_PERMISSIONS: { path: string; permission: RequiredPermission }[] = [
+  { path: '/devices/new', permission: { resource: 'devices', action: 'create' } },
+  { path: '/devices/[id]/payload', permission: { resource: 'payload_schemas', action: 'view' } },
+  { path: '/devices', permission: { resource: 'devices', action: 'view' } },
+  { path: '/device-types', permission: { resource: 'device_types', action: 'view' } },
+  { path: '/companies', permission: { resource: 'companies', action: 'view' } },
+  { path: '/users', permission: { resource: 'users', action: 'view' } },
+  { path: '/audit-log', permission: { resource: 'audit_logs', action: 'view' } },
+  { path: '/alerts', permission: { resource: 'alerts', action: 'view' } },
+  { path: '/notifications', permission: { resource: 'notifications', action: 'view' } },
+  // Editing roles changes what users can do, so it is treated as user administration
+  { path: '/roles', permission: { resource: 'users', action: 'edit' } },
+];
+
+const routeMatches = (pathname: string, path: string) => {
+  const pattern = path.replace(/\[[^\]]+\]/g, '([^/]+|\\[[^\\]]+\\])');
+  return new RegExp(`^${pattern}(/|$)`).test(pathname);
+};
+
+export const getRoutePermission = (pathname: string): RequiredPermission | null => {
+  const match = ROUTE_PERMISSIONS.filter((route) => routeMatches(pathname, route.path)).sort(
+    (a, b) => b.path.length - a.path.length
+  )[0];
+  return match ? match.permission : null;
+};
@@ -0,0 +1,5 @@
+// Pages a signed-out user can open; they render without the panel layout.
+// Used by middleware.ts, so this module must stay edge-compatible
+export const PUBLIC_ROUTES = ['/login', '/forgot-password', '/reset-password', '/accept-invite', '/sso/callback'];
+
+export const isPublicRoute = (pathname: string) => PUBLIC_ROUTES.includes(pathname);
@@ -0,0 +1,187 @@
+import Cookies from 'js-cookie';
+
+export type RealtimeStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface RealtimeMessage<T = unknown> {
+  topic: string;
+  event: string;
+  data: T;
+}
+
+// Event payloads pushed by the backend on the built-in topics
+export interface DeviceStatusEvent {
+  deviceId: string;
+  status: 'online' | 'offline' | 'maintenance';
+  updated_at: string;
+}
+
+export interface StatsDeltaEvent {
+  totalCompanies?: number;
+  totalDevices?: number;
+  activeDevices?: number;
+  totalUsers?: number;
+}
+
+export interface DeviceReadingEvent {
+  deviceId: string;
+  timestamp: string;
+  payload: Record<string, unknown>;
+}
+
+// Raw alert as returned by GET /alerts; event is 'raised', 'updated' or 'resolved'
+export type AlertEvent = Record<string, unknown> & { id: string };
+
+export const TOPICS = {
+  alerts: 'alerts',
+  devices: 'devices',
+  stats: 'stats',
+  readings: 'readings',
+  deviceReadings: (deviceId: string) => `devices/${deviceId}/readings`,
+};
+
+type MessageHandler = (message: RealtimeMessage<unknown>) => void;
+type StatusListener = (status: RealtimeStatus) => void;
+
+const INITIAL_BACKOFF = 1000;
+const MAX_BACKOFF = 30000;
+
+export class RealtimeClient {
+  private url: string;
+  private socket: WebSocket | null = null;
+  private status: RealtimeStatus = 'idle';
+  private handlers = new Map<string, Set<MessageHandler>>();
+  private statusListeners = new Set<StatusListener>();
+  private attempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private shouldReconnect = false;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  getStatus() {
+    return this.status;
+  }
+
+  connect() {
+    if (typeof window === 'undefined') return;
+    if (this.socket && this.socket.readyState <= WebSocket.OPEN) return;
+
+    this.shouldReconnect = true;
+    this.setStatus(this.attempts > 0 ? 'reconnecting' : 'connecting');
+
+    const token = Cookies.get('accessToken');
+    const url = token ? `${this.url}?token=${encodeURIComponent(token)}` : this.url;
+    const socket = new WebSocket(url);
+    this.socket = socket;
+
+    // A socket replaced by disconnect() + connect() can still fire late events; only the current one counts
+    socket.onopen = () => {
+      if (this.socket !== socket) return;
+      this.attempts = 0;
+      this.setStatus('open');
+      // Re-subscribe to every topic we were listening to before the drop
+      this.handlers.forEach((_, topic) => this.send({ type: 'subscribe', topic }));
+    };
+
+    socket.onmessage = (event) => {
+      if (this.socket !== socket) return;
+      let message: RealtimeMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch (error) {
+        console.error('Invalid realtime message:', event.data);
+        return;
+      }
+      this.handlers.get(message.topic)?.forEach((handler) => handler(message));
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      if (this.shouldReconnect) {
+        this.scheduleReconnect();
+      } else {
+        this.setStatus('closed');
+      }
+    };
+
+    socket.onerror = () => {
+      if (this.socket !== socket) return;
+      // onclose always follows; reconnect is handled there
+      socket.close();
+    };
+  }
+
+  disconnect() {
+    this.shouldReconnect = false;
+    this.attempts = 0;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+    this.setStatus('closed');
+  }
+
+  subscribe<T = unknown>(topic: string, handler: (message: RealtimeMessage<T>) => void) {
+    let topicHandlers = this.handlers.get(topic);
+    if (!topicHandlers) {
+      topicHandlers = new Set();
+      this.handlers.set(topic, topicHandlers);
+      this.send({ type: 'subscribe', topic });
+    }
+    topicHandlers.add(handler as MessageHandler);
+
+    return () => {
+      const current = this.handlers.get(topic);
+      if (!current) return;
+      current.delete(handler as MessageHandler);
+      if (current.size === 0) {
+        this.handlers.delete(topic);
+        this.send({ type: 'unsubscribe', topic });
+      }
+    };
+  }
+
+  onStatusChange(listener: StatusListener) {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  private send(message: Record<string, unknown>) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private scheduleReconnect() {
+    this.setStatus('reconnecting');
+    // Exponential backoff with jitter so a backend restart isn't hit by every tab at once
+    const delay = Math.min(INITIAL_BACKOFF * 2 ** this.attempts, MAX_BACKOFF);
+    const jitter = Math.random() * delay * 0.3;
+    this.attempts += 1;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay + jitter);
+  }
+
+  private setStatus(status: RealtimeStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach((listener) => listener(status));
+  }
+}
+
+let client: RealtimeClient | null = null;
+
+export const getRealtimeClient = () => {
+  if (!client) {
+    client = new RealtimeClient(process.env.WS_URL || 'ws://localhost:3001');
+  }
+  return client;
+};
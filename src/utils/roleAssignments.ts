@@ -0,0 +1,42 @@
+export interface RoleAssignment {
+  roleId: string;
+  /** null grants the role for every company the user can access */
+  companyId: string | null;
+}
+
+interface NamedRole {
+  id: string;
+  name: string;
+}
+
+/**
+ * Reads a user's role assignments from the API. Users created before custom
+ * roles only carry a legacy `role` name, which is matched to a role by name.
+ */
+export const normalizeRoleAssignments = (user: any, roles: NamedRole[]): RoleAssignment[] => {
+  const raw = user.roles || user.role_assignments || user.roleAssignments;
+  if (Array.isArray(raw)) {
+    return raw
+      .map((assignment: any) => ({
+        roleId: assignment.role_id || assignment.roleId || assignment.id,
+        companyId: assignment.company_id || assignment.companyId || null,
+      }))
+      .filter((assignment: RoleAssignment) => !!assignment.roleId);
+  }
+
+  const legacyRole = typeof user.role === 'string' ? user.role.toLowerCase() : '';
+  const match = roles.find((role) => role.name.toLowerCase() === legacyRole);
+  return match ? [{ roleId: match.id, companyId: null }] : [];
+};
+
+export const isRoleAssigned = (assignments: RoleAssignment[], roleId: string) =>
+  assignments.some((assignment) => assignment.roleId === roleId);
+
+/** Swaps one role for another, dropping assignments that become duplicates */
+export const replaceRole = (assignments: RoleAssignment[], roleId: string, replacementId: string) =>
+  assignments
+    .map((assignment) => (assignment.roleId === roleId ? { ...assignment, roleId: replacementId } : assignment))
+    .filter(
+      (assignment, index, list) =>
+        list.findIndex((a) => a.roleId === assignment.roleId && a.companyId === assignment.companyId) === index
+    );
@@ -0,0 +1,125 @@
+import Ajv, { ErrorObject } from 'ajv';
+import Ajv2020 from 'ajv/dist/2020';
+
+export const SCHEMA_DRAFTS = {
+  'draft-07': 'http://json-schema.org/draft-07/schema#',
+  '2020-12': 'https://json-schema.org/draft/2020-12/schema',
+};
+
+export type SchemaDraft = keyof typeof SCHEMA_DRAFTS;
+
+export interface SchemaValidationError {
+  path: string;
+  message: string;
+}
+
+const createValidator = <T extends Ajv>(ajv: T) => {
+  // Payload schemas annotate fields with their physical unit
+  ajv.addKeyword({ keyword: 'unit', metaSchema: { type: 'string' } });
+  return ajv;
+};
+
+const validators: Record<SchemaDraft, Ajv> = {
+  'draft-07': createValidator(new Ajv({ allErrors: true, strict: false })),
+  '2020-12': createValidator(new Ajv2020({ allErrors: true, strict: false })),
+};
+
+const UNSUPPORTED_DRAFT_MESSAGE = `Unsupported $schema draft; use ${Object.values(SCHEMA_DRAFTS).join(' or ')}`;
+
+// Ajv resolves `$schema` by exact id, where only an empty fragment is optional
+const normalizeSchemaUri = (uri: string) => uri.replace(/#$/, '');
+
+/** The draft named in `$schema`, draft-07 when absent, or null for any draft there is no validator for */
+export const detectDraft = (schema: unknown): SchemaDraft | null => {
+  const uri = (schema as { $schema?: unknown })?.$schema;
+  if (uri === undefined) return 'draft-07';
+  if (typeof uri !== 'string') return null;
+  const drafts = Object.keys(SCHEMA_DRAFTS) as SchemaDraft[];
+  return drafts.find((draft) => normalizeSchemaUri(SCHEMA_DRAFTS[draft]) === normalizeSchemaUri(uri)) || null;
+};
+
+export const getValidator = (schema: unknown) => {
+  const draft = detectDraft(schema);
+  if (!draft) {
+    throw new Error(UNSUPPORTED_DRAFT_MESSAGE);
+  }
+  return validators[draft];
+};
+
+export const formatErrors = (errors: ErrorObject[] | null | undefined): SchemaValidationError[] =>
+  (errors || []).map((error) => ({
+    path: error.instancePath || '/',
+    message: error.message || 'is invalid',
+  }));
+
+/**
+ * Validates a payload schema against the JSON Schema meta-schema of the
+ * draft named in its `$schema` (draft-07 when absent) and makes sure it compiles.
+ */
+export const validateJsonSchema = (schema: unknown): SchemaValidationError[] => {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return [{ path: '/', message: 'must be a JSON object' }];
+  }
+
+  const draft = detectDraft(schema);
+  if (!draft) {
+    return [{ path: '/$schema', message: UNSUPPORTED_DRAFT_MESSAGE }];
+  }
+
+  const ajv = validators[draft];
+  try {
+    if (!ajv.validateSchema(schema as object)) {
+      return formatErrors(ajv.errors);
+    }
+  } catch (error) {
+    return [{ path: '/$schema', message: error instanceof Error ? error.message : UNSUPPORTED_DRAFT_MESSAGE }];
+  }
+
+  try {
+    ajv.compile(schema as object);
+  } catch (error) {
+    return [{ path: '/', message: error instanceof Error ? error.message : 'Schema does not compile' }];
+  } finally {
+    // Don't let every edit accumulate in the validator cache
+    ajv.removeSchema(schema as object);
+  }
+  return [];
+};
+
+export interface PayloadValidationError extends SchemaValidationError {
+  keyword: string;
+}
+
+// `required` errors are reported on the parent object; point them at the missing field instead
+const toPointer = (error: ErrorObject) => {
+  if (error.keyword === 'required') {
+    return `${error.instancePath}/${(error.params as { missingProperty: string }).missingProperty}`;
+  }
+  return error.instancePath || '/';
+};
+
+/**
+ * Validates a sample payload against a payload schema. Errors carry the
+ * JSON pointer of the offending field.
+ */
+export const validatePayload = (schema: object, payload: unknown): PayloadValidationError[] => {
+  const ajv = getValidator(schema);
+  try {
+    const validate = ajv.compile(schema);
+    if (validate(payload)) return [];
+    return (validate.errors || []).map((error) => ({
+      path: toPointer(error),
+      message: error.message || 'is invalid',
+      keyword: error.keyword,
+    }));
+  } finally {
+    ajv.removeSchema(schema);
+  }
+};
+
+export const pointerToPath = (pointer: string) =>
+  pointer
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .join('.');
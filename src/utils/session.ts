@@ -0,0 +1,154 @@
+import axios from 'axios';
+import Cookies from 'js-cookie';
+import { decodeJwt } from 'jose';
+import { PERMISSIONS_COOKIE } from '@/utils/permissions';
+import { isPublicRoute } from '@/utils/publicRoutes';
+
+const ACCESS_TOKEN_COOKIE = 'accessToken';
+const REFRESH_TOKEN_COOKIE = 'refreshToken';
+
+// localStorage keys used only to signal other tabs through the `storage` event
+const LOGOUT_SIGNAL_KEY = 'session:logout';
+const ACTIVITY_SIGNAL_KEY = 'session:activity';
+
+/** Refresh this long before the access token expires */
+export const REFRESH_LEEWAY_MS = 60 * 1000;
+
+export const IDLE_TIMEOUT_MS = (Number(process.env.NEXT_PUBLIC_IDLE_TIMEOUT_MINUTES) || 30) * 60 * 1000;
+export const IDLE_WARNING_MS = (Number(process.env.NEXT_PUBLIC_IDLE_WARNING_SECONDS) || 60) * 1000;
+
+// A separate client, so refresh and logout never go through the api.ts interceptors
+const authClient = axios.create({
+  baseURL: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api/v1',
+  headers: {
+    'Content-Type': 'application/json',
+  },
+  withCredentials: true,
+});
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export const getAccessToken = () => Cookies.get(ACCESS_TOKEN_COOKIE);
+export const getRefreshToken = () => Cookies.get(REFRESH_TOKEN_COOKIE);
+
+export const setSessionTokens = ({ accessToken, refreshToken }: SessionTokens) => {
+  Cookies.set(ACCESS_TOKEN_COOKIE, accessToken, { expires: 1 }); // 1 day
+  Cookies.set(REFRESH_TOKEN_COOKIE, refreshToken, { expires: 7 }); // 7 days
+};
+
+export const clearSessionTokens = () => {
+  Cookies.remove(ACCESS_TOKEN_COOKIE);
+  Cookies.remove(REFRESH_TOKEN_COOKIE);
+  Cookies.remove(PERMISSIONS_COOKIE);
+};
+
+/** Expiry of the current access token in ms since epoch, or null if it can't be read */
+export const getAccessTokenExpiry = (): number | null => {
+  const token = getAccessToken();
+  if (!token) return null;
+  try {
+    const { exp } = decodeJwt(token);
+    return exp ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+let refreshInFlight: Promise<string> | null = null;
+
+/** Resolves once any refresh that is currently running has finished */
+export const waitForRefresh = async () => {
+  if (!refreshInFlight) return;
+  try {
+    await refreshInFlight;
+  } catch {
+    // The caller that started the refresh handles its failure
+  }
+};
+
+/**
+ * Exchanges the refresh token for a new token pair. Concurrent callers share
+ * one request, since the backend rotates refresh tokens and a second call
+ * with the old one would be rejected.
+ */
+export const refreshSession = (): Promise<string> => {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      const refreshToken = getRefreshToken();
+      if (!refreshToken) {
+        throw new Error('No refresh token available');
+      }
+      const response = await authClient.post('/auth/refresh', { refreshToken });
+      const data = response.data.data || response.data;
+      setSessionTokens({ accessToken: data.accessToken, refreshToken: data.refreshToken || refreshToken });
+      return data.accessToken as string;
+    })().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+};
+
+export const redirectToLogin = () => {
+  // Signed-out pages (password reset, invites) show their own errors instead
+  if (isPublicRoute(window.location.pathname)) return;
+  const next = `${window.location.pathname}${window.location.search}`;
+  window.location.href = next === '/' ? '/login' : `/login?next=${encodeURIComponent(next)}`;
+};
+
+/**
+ * Revokes the refresh token on the server, clears the local session and tells
+ * every other open tab to do the same. The local session is cleared even if
+ * the server call fails.
+ */
+export const logout = async () => {
+  const refreshToken = getRefreshToken();
+  const accessToken = getAccessToken();
+  if (refreshToken) {
+    try {
+      await authClient.post(
+        '/auth/logout',
+        { refreshToken },
+        { headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {} }
+      );
+    } catch (error) {
+      console.error('Server-side logout failed:', error);
+    }
+  }
+  clearSessionTokens();
+  try {
+    localStorage.setItem(LOGOUT_SIGNAL_KEY, String(Date.now()));
+  } catch {
+    // Storage can be unavailable, e.g. in private mode; other tabs then log out on their next 401
+  }
+};
+
+/** Shares user activity with other tabs, so working in one tab keeps the others from idling out */
+export const broadcastActivity = () => {
+  try {
+    localStorage.setItem(ACTIVITY_SIGNAL_KEY, String(Date.now()));
+  } catch {
+    // See logout()
+  }
+};
+
+interface SessionSignalHandlers {
+  onLogout: () => void;
+  onActivity: () => void;
+}
+
+/** Listens for logout and activity signals from other tabs; returns an unsubscribe function */
+export const subscribeToSessionSignals = ({ onLogout, onActivity }: SessionSignalHandlers) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === LOGOUT_SIGNAL_KEY && event.newValue) {
+      onLogout();
+    } else if (event.key === ACTIVITY_SIGNAL_KEY && event.newValue) {
+      onActivity();
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+};
@@ -0,0 +1,83 @@
+import * as XLSX from 'xlsx';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export type ExportFormat = SpreadsheetFormat | 'json';
+
+export type SpreadsheetRow = Record<string, string>;
+
+/**
+ * Reads the first sheet of a CSV or XLSX file into rows keyed by the
+ * header row. Header names are trimmed and lower-cased; all cells are strings.
+ */
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetRow[]> => {
+  const isCsv = file.name.toLowerCase().endsWith('.csv');
+  const workbook = isCsv
+    ? XLSX.read(await file.text(), { type: 'string', raw: true })
+    : XLSX.read(await file.arrayBuffer(), { type: 'array' });
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '', raw: false });
+  return rows.map((row) =>
+    Object.fromEntries(
+      Object.entries(row).map(([key, value]) => [key.trim().toLowerCase(), String(value ?? '').trim()])
+    )
+  );
+};
+
+// Spreadsheet apps run a cell starting with one of these as a formula
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+const NUMBER_PATTERN = /^[-+]?\d+(\.\d+)?$/;
+
+/** Prefixes text that would be read as a formula with a quote, so exported data can't run in Excel */
+const escapeFormula = (value: unknown) =>
+  typeof value === 'string' && FORMULA_PREFIXES.includes(value.charAt(0)) && !NUMBER_PATTERN.test(value)
+    ? `'${value}`
+    : value;
+
+const escapeRow = (row: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(row).map(([key, value]) => [key, escapeFormula(value)]));
+
+export const downloadSpreadsheet = (
+  rows: Record<string, unknown>[],
+  filename: string,
+  format: SpreadsheetFormat,
+  columns?: string[]
+) => {
+  const sheet = XLSX.utils.json_to_sheet(rows.map(escapeRow), { header: columns });
+  if (format === 'csv') {
+    downloadBlob(new Blob([XLSX.utils.sheet_to_csv(sheet)], { type: 'text/csv;charset=utf-8' }), `${filename}.csv`);
+    return;
+  }
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Sheet1');
+  XLSX.writeFile(workbook, `${filename}.xlsx`);
+};
+
+/** Downloads rows as CSV, XLSX or a JSON array, keeping the key order of `columns` */
+export const exportRows = (
+  rows: Record<string, unknown>[],
+  filename: string,
+  format: ExportFormat,
+  columns?: string[]
+) => {
+  if (format === 'json') {
+    downloadBlob(new Blob([JSON.stringify(rows, null, 2)], { type: 'application/json' }), `${filename}.json`);
+    return;
+  }
+  downloadSpreadsheet(rows, filename, format, columns);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
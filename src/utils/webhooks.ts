@@ -0,0 +1,49 @@
+import { isLocalUrl } from '@/utils/notifications';
+
+// Named in the channel form so receivers know what to verify
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Signature-256';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+export const generateWebhookSecret = () => {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes.buffer);
+};
+
+/** A test delivery signed by the API, for the browser to forward unchanged */
+export interface PreparedTestDelivery {
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Sends a test delivery to a receiver on the developer's own machine. The API
+ * server cannot reach localhost, so only the POST happens here: the API builds
+ * and signs the request, keeping the signing contract in one place, and the
+ * receiver has to answer the CORS preflight. Any other URL is tested by the API.
+ */
+export const sendBrowserTestWebhook = async (url: string, delivery: PreparedTestDelivery) => {
+  if (!isLocalUrl(url)) {
+    throw new Error('Only local receivers are tested from the browser');
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...delivery.headers },
+      body: delivery.body,
+    });
+  } catch (error) {
+    throw new Error(`Could not reach ${url}. Check the receiver is running and allows CORS from this panel.`);
+  }
+  if (!response.ok) {
+    throw new Error(`The receiver answered ${response.status} ${response.statusText}`.trim());
+  }
+  return response.status;
+};